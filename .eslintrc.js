@@ -1,7 +1,7 @@
 module.exports = {
   root: true,
   extends: ['expo', 'prettier'],
-  ignorePatterns: ['src/types.ts'],
+  ignorePatterns: ['src/types.ts', 'src/typeGuards.ts'],
   plugins: ['prettier'],
   rules: {
     'eslint-comments/no-unlimited-disable': 0,
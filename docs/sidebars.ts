@@ -46,6 +46,7 @@ const sidebars: SidebarsConfig = {
         'guides/alternative-billing',
         'guides/error-handling',
         'guides/expo-plugin',
+        'guides/testing',
         'guides/troubleshooting',
         'guides/faq',
         'guides/support',
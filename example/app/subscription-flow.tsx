@@ -1,4 +1,4 @@
-import React, {useCallback, useEffect, useRef, useState} from 'react';
+import React, {useCallback, useEffect, useMemo, useRef, useState} from 'react';
 import {
   View,
   Text,
@@ -12,6 +12,8 @@ import {
 } from 'react-native';
 import * as Clipboard from 'expo-clipboard';
 import {
+  classifyPlanChange,
+  createSubscriptionGroups,
   requestPurchase,
   useIAP,
   showManageSubscriptionsIOS,
@@ -101,6 +103,11 @@ function SubscriptionFlow({
 
   // Note: getSubscriptionTier is now defined outside the component for better performance
 
+  const planGroups = useMemo(
+    () => createSubscriptionGroups(subscriptions, {ranks: TIER_MAP}),
+    [subscriptions],
+  );
+
   // Get current active subscription
   const getCurrentSubscription = useCallback((): ActiveSubscription | null => {
     const activeSubs = activeSubscriptions.filter((sub) => sub.isActive);
@@ -200,9 +207,13 @@ function SubscriptionFlow({
         };
       }
 
-      // Different product = upgrade or downgrade
-      const currentTier = getSubscriptionTier(currentSubscription.productId);
-      const targetTier = getSubscriptionTier(targetProductId);
+      // Different product = upgrade, downgrade or crossgrade
+      const currentPlan = planGroups.planOf(currentSubscription);
+      const targetPlan = planGroups.getPlan(targetProductId);
+      const change =
+        currentPlan && targetPlan && currentPlan.groupId === targetPlan.groupId
+          ? classifyPlanChange(currentPlan, targetPlan)
+          : null;
 
       // If cancelled, don't allow tier changes (user should reactivate or wait for expiry)
       if (isCurrentCancelled) {
@@ -215,8 +226,8 @@ function SubscriptionFlow({
       }
 
       // Active subscription: allow upgrades and downgrades
-      const canUpgrade = targetTier > currentTier;
-      const isDowngrade = targetTier < currentTier;
+      const canUpgrade = change?.kind === 'upgrade';
+      const isDowngrade = change?.kind === 'downgrade';
 
       return {
         canUpgrade,
@@ -229,7 +240,7 @@ function SubscriptionFlow({
           : undefined,
       };
     },
-    [getCurrentSubscription, isCancelled],
+    [getCurrentSubscription, isCancelled, planGroups],
   );
 
   const handleSubscription = useCallback(
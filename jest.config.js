@@ -36,5 +36,6 @@ module.exports = {
   coveragePathIgnorePatterns: [
     '<rootDir>/src/useIAP.ts',
     '<rootDir>/src/types.ts',
+    '<rootDir>/src/typeGuards.ts',
   ],
 };
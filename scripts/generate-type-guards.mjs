@@ -0,0 +1,414 @@
+/**
+ * Emits runtime guards for the declarations in src/types.ts.
+ * - `export enum X` and string-literal unions get `isX(value)` membership checks
+ * - unions of interfaces get one discriminator per member (`isPurchaseIOS`)
+ * - native payload types get `validateX(value)` field checks with JSON paths
+ */
+
+// Guards that are hand-written elsewhere and exported under the same name.
+const RESERVED = new Set(['isProductIOS', 'isProductAndroid']);
+
+// Types returned by the native module; their referenced types are validated too.
+const PAYLOAD_TYPES = [
+  'Product',
+  'ProductSubscription',
+  'Purchase',
+  'ActiveSubscription',
+  'ReceiptValidationResult',
+];
+
+const PRIMITIVES = {
+  string: 'checkString',
+  number: 'checkNumber',
+  boolean: 'checkBoolean',
+};
+
+const HEADER = `// ============================================================================
+// AUTO-GENERATED TYPE GUARDS — DO NOT EDIT DIRECTLY
+// Run \`bun run generate:types\` to regenerate from src/types.ts.
+// ============================================================================
+`;
+
+const toConstantName = (name) =>
+  `${name
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1_$2')
+    .toUpperCase()}_VALUES`;
+
+const isStringLiteral = (part) => /^'[^']*'$/.test(part);
+
+function parseDeclarations(source) {
+  const enums = [];
+  const literalUnions = new Map();
+  const interfaceUnions = new Map();
+  const interfaces = new Map();
+
+  // Enum guards read the values at runtime, so only the names are needed.
+  for (const match of source.matchAll(/^export enum (\w+) \{$/gm)) {
+    enums.push(match[1]);
+  }
+
+  for (const match of source.matchAll(/^export type (\w+) = ([^;\n]+);$/gm)) {
+    const parts = match[2].split('|').map((part) => part.trim());
+    if (parts.length > 1 && parts.every(isStringLiteral)) {
+      literalUnions.set(match[1], parts);
+    } else if (parts.length > 1 && parts.every((part) => /^\w+$/.test(part))) {
+      interfaceUnions.set(match[1], parts);
+    }
+  }
+
+  for (const match of source.matchAll(
+    /^export interface (\w+)(?: extends [\w, ]+)? \{\n([\s\S]*?)^\}/gm,
+  )) {
+    const fields = [...match[2].matchAll(/^ {2}(\w+)(\?)?: (.+);$/gm)].map(
+      ([, name, optional, type]) => ({name, optional: Boolean(optional), type}),
+    );
+    interfaces.set(match[1], fields);
+  }
+
+  // Only unions whose members are all interfaces can be discriminated.
+  for (const [name, members] of interfaceUnions) {
+    if (!members.every((member) => interfaces.has(member))) {
+      interfaceUnions.delete(name);
+    }
+  }
+
+  return {enums, literalUnions, interfaceUnions, interfaces};
+}
+
+function discriminate(member, siblings, interfaces) {
+  const fields = interfaces.get(member);
+  const literals = fields.filter(
+    (field) => !field.optional && isStringLiteral(field.type),
+  );
+  if (
+    literals.length > 0 &&
+    siblings.every((sibling) =>
+      literals.some((field) => {
+        const other = interfaces
+          .get(sibling)
+          .find((candidate) => candidate.name === field.name);
+        return !other || other.type !== field.type;
+      }),
+    )
+  ) {
+    return literals.map((field) => `value.${field.name} === ${field.type}`);
+  }
+
+  const platform = /IOS$/.test(member)
+    ? 'ios'
+    : /Android$/.test(member)
+    ? 'android'
+    : null;
+  if (platform && fields.some((field) => field.name === 'platform')) {
+    return [`value.platform === '${platform}'`];
+  }
+
+  const unique = fields.find(
+    (field) =>
+      !field.optional &&
+      siblings.every(
+        (sibling) =>
+          !interfaces
+            .get(sibling)
+            .some((candidate) => candidate.name === field.name),
+      ),
+  );
+  if (unique) {
+    return [`'${unique.name}' in value`];
+  }
+  return null;
+}
+
+const validatorName = (name) =>
+  `${name[0].toLowerCase()}${name.slice(1)}Validator`;
+
+/** Emit field validators for the payload types and the types they reference. */
+function generateValidators(declarations) {
+  const {enums, literalUnions, interfaceUnions, interfaces} = declarations;
+  const emitted = new Set();
+  const visiting = new Set();
+  const blocks = [];
+
+  const expressionFor = (type, context) => {
+    const parts = type
+      .replace(/^\((.*)\)$/, '$1')
+      .split('|')
+      .map((part) => part.trim());
+    const nonNull = parts.filter((part) => part !== 'null');
+    if (nonNull.length !== 1) {
+      throw new Error(
+        `generate-type-guards: cannot validate ${type} in ${context}`,
+      );
+    }
+    const expression = referenceFor(nonNull[0], context);
+    return nonNull.length < parts.length
+      ? `optional(${expression})`
+      : expression;
+  };
+
+  const referenceFor = (type, context) => {
+    if (type.endsWith('[]')) {
+      return `arrayOf(${referenceFor(type.slice(0, -2), context)})`;
+    }
+    if (PRIMITIVES[type]) {
+      return PRIMITIVES[type];
+    }
+    if (isStringLiteral(type)) {
+      return `oneOf(new Set([${type}]))`;
+    }
+    if (enums.includes(type) || literalUnions.has(type)) {
+      return `oneOf(${toConstantName(type)})`;
+    }
+    if (interfaces.has(type) || interfaceUnions.has(type)) {
+      emit(type);
+      return validatorName(type);
+    }
+    throw new Error(
+      `generate-type-guards: cannot validate ${type} in ${context}`,
+    );
+  };
+
+  const emit = (name) => {
+    if (emitted.has(name)) {
+      return;
+    }
+    if (visiting.has(name)) {
+      throw new Error(`generate-type-guards: circular payload type ${name}`);
+    }
+    visiting.add(name);
+
+    if (interfaceUnions.has(name)) {
+      const members = interfaceUnions.get(name);
+      members.forEach((member) => emit(member));
+      const variants = members.map((member) => {
+        const checks = discriminate(
+          member,
+          members.filter((sibling) => sibling !== member),
+          interfaces,
+        );
+        return `  [(value) => ${checks.join(' && ')}, ${validatorName(
+          member,
+        )}],`;
+      });
+      blocks.push(`const ${validatorName(
+        name,
+      )}: Validator = variants('${name}', [
+${variants.join('\n')}
+]);
+`);
+    } else {
+      const fields = interfaces.get(name).map((field) => {
+        const expression = expressionFor(field.type, `${name}.${field.name}`);
+        return `  ${field.name}: ${
+          field.optional && !expression.startsWith('optional(')
+            ? `optional(${expression})`
+            : expression
+        },`;
+      });
+      blocks.push(`const ${validatorName(name)}: Validator = shape({
+${fields.join('\n')}
+});
+`);
+    }
+
+    visiting.delete(name);
+    emitted.add(name);
+  };
+
+  for (const name of PAYLOAD_TYPES) {
+    if (!interfaces.has(name) && !interfaceUnions.has(name)) {
+      throw new Error(`generate-type-guards: missing payload type ${name}`);
+    }
+    emit(name);
+  }
+
+  for (const name of PAYLOAD_TYPES) {
+    blocks.push(`/**
+ * Collect the fields of \`value\` that do not match \`${name}\`.
+ * Unknown fields are allowed so newer native payloads still pass.
+ */
+export const validate${name} = (
+  value: unknown,
+  path = '$',
+  issues: TypeIssue[] = [],
+): TypeIssue[] => {
+  ${validatorName(name)}(value, path, issues);
+  return issues;
+};
+`);
+  }
+
+  return blocks;
+}
+
+const VALIDATOR_HELPERS = `/** A value that does not match its declared type. */
+export interface TypeIssue {
+  /** JSON path of the offending field, e.g. \`$[0].price\`. */
+  path: string;
+  message: string;
+}
+
+type Validator = (value: unknown, path: string, issues: TypeIssue[]) => void;
+
+const typeName = (value: unknown) =>
+  value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+const primitive =
+  (type: 'string' | 'number' | 'boolean'): Validator =>
+  (value, path, issues) => {
+    if (
+      typeof value !== type ||
+      (type === 'number' && Number.isNaN(value as number))
+    ) {
+      issues.push({path, message: \`expected \${type}, received \${typeName(value)}\`});
+    }
+  };
+
+const checkString = primitive('string');
+const checkNumber = primitive('number');
+const checkBoolean = primitive('boolean');
+
+const oneOf =
+  (values: ReadonlySet<string>): Validator =>
+  (value, path, issues) => {
+    if (typeof value !== 'string' || !values.has(value)) {
+      issues.push({
+        path,
+        message: \`expected one of \${[...values]
+          .map((item) => \`'\${item}'\`)
+          .join(', ')}, received \${JSON.stringify(value)}\`,
+      });
+    }
+  };
+
+/** Accepts \`null\` and \`undefined\`, like the \`?: (T | null)\` fields. */
+const optional =
+  (validator: Validator): Validator =>
+  (value, path, issues) => {
+    if (value != null) {
+      validator(value, path, issues);
+    }
+  };
+
+const arrayOf =
+  (validator: Validator): Validator =>
+  (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push({path, message: \`expected array, received \${typeName(value)}\`});
+      return;
+    }
+    value.forEach((item, index) => validator(item, \`\${path}[\${index}]\`, issues));
+  };
+
+const shape =
+  (fields: Record<string, Validator>): Validator =>
+  (value, path, issues) => {
+    if (!isRecord(value) || Array.isArray(value)) {
+      issues.push({path, message: \`expected object, received \${typeName(value)}\`});
+      return;
+    }
+    Object.entries(fields).forEach(([field, validator]) =>
+      validator(value[field], \`\${path}.\${field}\`, issues),
+    );
+  };
+
+/** Validates against the union member whose discriminator matches. */
+const variants =
+  (
+    name: string,
+    members: [(value: Record<string, unknown>) => boolean, Validator][],
+  ): Validator =>
+  (value, path, issues) => {
+    const member = isRecord(value)
+      ? members.find(([matches]) => matches(value))
+      : undefined;
+    if (!member) {
+      issues.push({
+        path,
+        message: \`expected \${name}, received \${
+          isRecord(value) ? 'an object matching no variant' : typeName(value)
+        }\`,
+      });
+      return;
+    }
+    member[1](value, path, issues);
+  };
+`;
+
+/**
+ * Generate the contents of src/typeGuards.ts from the contents of src/types.ts.
+ * Throws when a union member cannot be told apart from its siblings.
+ */
+export function generateTypeGuards(source) {
+  const declarations = parseDeclarations(source);
+  const {enums, literalUnions, interfaceUnions, interfaces} = declarations;
+  const valueImports = enums;
+  const typeImports = new Set(literalUnions.keys());
+  const blocks = [];
+
+  for (const name of enums) {
+    blocks.push(`const ${toConstantName(name)}: ReadonlySet<string> = new Set(
+  Object.values(${name}),
+);
+
+/** Whether \`value\` is a member of the \`${name}\` enum. */
+export const is${name} = (value: unknown): value is ${name} =>
+  typeof value === 'string' && ${toConstantName(name)}.has(value);
+`);
+  }
+
+  for (const [name, values] of literalUnions) {
+    blocks.push(`const ${toConstantName(name)}: ReadonlySet<string> = new Set([
+${values.map((value) => `  ${value},`).join('\n')}
+]);
+
+/** Whether \`value\` is a valid \`${name}\`. */
+export const is${name} = (value: unknown): value is ${name} =>
+  typeof value === 'string' && ${toConstantName(name)}.has(value);
+`);
+  }
+
+  for (const [union, members] of interfaceUnions) {
+    for (const member of members) {
+      if (RESERVED.has(`is${member}`)) {
+        continue;
+      }
+      const siblings = members.filter((sibling) => sibling !== member);
+      const checks = discriminate(member, siblings, interfaces);
+      if (!checks) {
+        throw new Error(
+          `generate-type-guards: cannot discriminate ${member} within ${union}`,
+        );
+      }
+      typeImports.add(member);
+      blocks.push(`/** Whether \`value\` is the \`${member}\` variant of \`${union}\`. */
+export const is${member} = (value: unknown): value is ${member} =>
+  isRecord(value) &&
+${checks.map((check) => `  ${check}`).join(' &&\n')};
+`);
+    }
+  }
+
+  const validators = generateValidators(declarations);
+
+  const imports = [
+    valueImports.length > 0
+      ? `import {${valueImports.join(', ')}} from './types';`
+      : null,
+    `import type {\n${[...typeImports]
+      .sort()
+      .map((name) => `  ${name},`)
+      .join('\n')}\n} from './types';`,
+  ].filter(Boolean);
+
+  return `${HEADER}
+${imports.join('\n')}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+${blocks.join('\n')}
+${VALIDATOR_HELPERS}
+${validators.join('\n')}`;
+}
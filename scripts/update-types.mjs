@@ -1,9 +1,16 @@
 #!/usr/bin/env node
-import {mkdtempSync, readFileSync, writeFileSync, rmSync} from 'node:fs';
-import {join} from 'node:path';
+import {
+  copyFileSync,
+  mkdtempSync,
+  readFileSync,
+  writeFileSync,
+  rmSync,
+} from 'node:fs';
+import {join, resolve} from 'node:path';
 import {tmpdir} from 'node:os';
 import {execFileSync} from 'node:child_process';
 import {fileURLToPath, URL} from 'node:url';
+import {generateTypeGuards} from './generate-type-guards.mjs';
 
 const __dirname = fileURLToPath(new URL('.', import.meta.url));
 let versions;
@@ -25,53 +32,92 @@ if (typeof DEFAULT_TAG !== 'string' || DEFAULT_TAG.length === 0) {
 }
 
 const PROJECT_ROOT = process.cwd();
+const TYPES_PATH = join(PROJECT_ROOT, 'src', 'types.ts');
+const GUARDS_PATH = join(PROJECT_ROOT, 'src', 'typeGuards.ts');
 
 function parseArgs() {
   const args = process.argv.slice(2);
   let tag = DEFAULT_TAG;
+  let archive = null;
+  let types = null;
+  let guardsOnly = false;
 
   for (let i = 0; i < args.length; i++) {
     const arg = args[i];
     if (arg === '--tag' && typeof args[i + 1] === 'string') {
       tag = args[i + 1];
       i++;
+    } else if (arg === '--archive' && typeof args[i + 1] === 'string') {
+      archive = resolve(args[i + 1]);
+      i++;
+    } else if (arg === '--types' && typeof args[i + 1] === 'string') {
+      types = resolve(args[i + 1]);
+      i++;
+    } else if (arg === '--guards-only') {
+      guardsOnly = true;
     }
   }
 
-  return {tag};
+  return {tag, archive, types, guardsOnly};
 }
 
 function getReleaseUrl(tag) {
   return `https://github.com/hyodotdev/openiap/releases/download/${tag}/openiap-typescript.zip`;
 }
 
-function main() {
-  const {tag} = parseArgs();
-  const releaseUrl = getReleaseUrl(tag);
-  const tempDir = mkdtempSync(join(tmpdir(), 'openiap-types-'));
-  const zipPath = join(tempDir, 'openiap-typescript.zip');
+/** Resolve types.ts from a local file, a local archive or the release download. */
+function fetchTypes({tag, archive, types}, tempDir) {
+  if (types) {
+    console.log(`Using local OpenIAP types from ${types}`);
+    return types;
+  }
 
-  try {
+  let zipPath = join(tempDir, 'openiap-typescript.zip');
+  if (archive) {
+    console.log(`Using local OpenIAP archive ${archive}`);
+    copyFileSync(archive, zipPath);
+  } else {
+    const releaseUrl = getReleaseUrl(tag);
     console.log(`Downloading OpenIAP types (tag: ${tag}) from ${releaseUrl}`);
     execFileSync('curl', ['-L', '-o', zipPath, releaseUrl], {
       stdio: 'inherit',
     });
+  }
 
-    console.log('Extracting types.ts from archive');
-    execFileSync('unzip', ['-o', zipPath, 'types.ts', '-d', tempDir], {
-      stdio: 'inherit',
-    });
+  console.log('Extracting types.ts from archive');
+  execFileSync('unzip', ['-o', zipPath, 'types.ts', '-d', tempDir], {
+    stdio: 'inherit',
+  });
+  return join(tempDir, 'types.ts');
+}
 
-    const extractedPath = join(tempDir, 'types.ts');
-    let contents = readFileSync(extractedPath, 'utf8');
+function writeTypeGuards() {
+  writeFileSync(
+    GUARDS_PATH,
+    generateTypeGuards(readFileSync(TYPES_PATH, 'utf8')),
+  );
+  console.log('Updated src/typeGuards.ts');
+}
+
+function main() {
+  const options = parseArgs();
+  if (options.guardsOnly) {
+    writeTypeGuards();
+    return;
+  }
+
+  const tempDir = mkdtempSync(join(tmpdir(), 'openiap-types-'));
+
+  try {
+    let contents = readFileSync(fetchTypes(options, tempDir), 'utf8');
     contents = contents.replace(
       /Run `[^`]+` after updating any \*\.graphql schema file\./,
       'Run `bun run generate:types` after updating any *.graphql schema file.',
     );
 
-    const destination = join(PROJECT_ROOT, 'src', 'types.ts');
-    writeFileSync(destination, contents);
+    writeFileSync(TYPES_PATH, contents);
     console.log('Updated src/types.ts');
+    writeTypeGuards();
   } finally {
     rmSync(tempDir, {recursive: true, force: true});
   }
@@ -0,0 +1,55 @@
+// Shared purchase fixtures for unit tests.
+import {Platform} from 'react-native';
+
+import type {Purchase} from '../types';
+
+export {DAY_MS} from '../utils/purchaseLedger';
+
+export const NOW = Date.UTC(2025, 0, 1);
+
+type TestPlatform = 'ios' | 'android';
+
+/** The `Platform` fields of the `react-native` mock that tests switch. */
+interface PlatformMock {
+  OS: TestPlatform;
+  select: (specifics: Partial<Record<TestPlatform, unknown>>) => unknown;
+}
+
+/** Point the `react-native` mock at a platform, including `Platform.select`. */
+export const setPlatform = (os: TestPlatform) => {
+  const mock: PlatformMock = {
+    OS: os,
+    select: jest.fn((specifics) => specifics[os]),
+  };
+  Object.assign(Platform, mock);
+};
+
+export const androidPurchase = (overrides: Record<string, unknown> = {}) =>
+  ({
+    id: 'GPA.1',
+    productId: 'coins_100',
+    platform: 'android',
+    purchaseState: 'purchased',
+    purchaseToken: 'token-1',
+    isAutoRenewing: false,
+    quantity: 1,
+    transactionDate: NOW,
+    ...overrides,
+  } as Purchase);
+
+export const iosPurchase = (overrides: Record<string, unknown> = {}) =>
+  ({
+    id: '1001',
+    transactionId: '1001',
+    productId: 'coins_100',
+    platform: 'ios',
+    purchaseState: 'purchased',
+    isAutoRenewing: false,
+    quantity: 1,
+    transactionDate: NOW,
+    ...overrides,
+  } as Purchase);
+
+/** Let pending promise callbacks run. */
+export const flushPromises = () =>
+  new Promise<void>((resolve) => setImmediate(() => resolve()));
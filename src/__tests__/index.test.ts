@@ -29,6 +29,8 @@ import {
   PurchaseInput,
   getActiveSubscriptions,
   hasActiveSubscriptions,
+  changeSubscriptionAndroid,
+  ReplacementModeAndroid,
 } from '../index';
 import * as iosMod from '../modules/ios';
 import * as androidMod from '../modules/android';
@@ -372,6 +374,87 @@ describe('Public API (index.ts)', () => {
     });
   });
 
+  describe('changeSubscriptionAndroid', () => {
+    beforeEach(() => {
+      (Platform as any).OS = 'android';
+      (Platform as any).select = (obj: any) => obj.android;
+      (ExpoIapModule.getAvailableItems as jest.Mock) = jest
+        .fn()
+        .mockResolvedValue([
+          {
+            id: 'GPA.1',
+            productId: 'premium_monthly',
+            platform: 'android',
+            purchaseState: 'purchased',
+            purchaseToken: 'monthly-token',
+          },
+        ]);
+      (ExpoIapModule.fetchProducts as jest.Mock) = jest.fn().mockResolvedValue([
+        {
+          platform: 'android',
+          id: 'premium_yearly',
+          type: 'subs',
+          subscriptionOfferDetailsAndroid: [
+            {basePlanId: 'yearly', offerToken: 'yearly-offer'},
+          ],
+        },
+      ]);
+      (ExpoIapModule.requestPurchase as jest.Mock) = jest
+        .fn()
+        .mockResolvedValue([]);
+    });
+
+    it('replaces the current purchase token with the typed mode', async () => {
+      await changeSubscriptionAndroid({
+        from: 'premium_monthly',
+        to: {sku: 'premium_yearly', offerToken: 'yearly-offer'},
+        mode: ReplacementModeAndroid.ChargeProratedPrice,
+      });
+
+      expect(ExpoIapModule.requestPurchase).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'subs',
+          skuArr: ['premium_yearly'],
+          purchaseToken: 'monthly-token',
+          replacementMode: 2,
+          offerTokenArr: ['yearly-offer'],
+        }),
+      );
+    });
+
+    it('rejects offer tokens of another subscription', async () => {
+      await expect(
+        changeSubscriptionAndroid({
+          from: 'premium_monthly',
+          to: {sku: 'premium_yearly', offerToken: 'monthly-offer'},
+          mode: ReplacementModeAndroid.Deferred,
+        }),
+      ).rejects.toMatchObject({code: 'developer-error'});
+      expect(ExpoIapModule.requestPurchase).not.toHaveBeenCalled();
+    });
+
+    it('rejects when the current subscription is not owned', async () => {
+      await expect(
+        changeSubscriptionAndroid({
+          from: 'premium_weekly',
+          to: {sku: 'premium_yearly', offerToken: 'yearly-offer'},
+          mode: ReplacementModeAndroid.Deferred,
+        }),
+      ).rejects.toMatchObject({code: 'item-not-owned'});
+    });
+
+    it('rejects on iOS', async () => {
+      (Platform as any).OS = 'ios';
+      await expect(
+        changeSubscriptionAndroid({
+          from: 'premium_monthly',
+          to: {sku: 'premium_yearly', offerToken: 'yearly-offer'},
+          mode: ReplacementModeAndroid.Deferred,
+        }),
+      ).rejects.toMatchObject({code: 'feature-not-supported'});
+    });
+  });
+
   describe('legacy wrappers and getters', () => {
     it('getAvailablePurchases: iOS and Android paths', async () => {
       // iOS path
@@ -0,0 +1,53 @@
+import {
+  isErrorCode,
+  isPaymentModeIOS,
+  isProductSubscriptionAndroid,
+  isProductSubscriptionIOS,
+  isPurchaseAndroid,
+  isPurchaseIOS,
+  isPurchaseState,
+  isReceiptValidationResultAndroid,
+  isReceiptValidationResultIOS,
+} from '../typeGuards';
+import {ErrorCode} from '../types';
+import type {Purchase} from '../types';
+
+describe('generated type guards', () => {
+  it('should check enum and literal union membership', () => {
+    expect(isErrorCode(ErrorCode.UserCancelled)).toBe(true);
+    expect(isErrorCode('E_USER_CANCELLED')).toBe(false);
+    expect(isPurchaseState('purchased')).toBe(true);
+    expect(isPurchaseState('PURCHASED')).toBe(false);
+    expect(isPaymentModeIOS('free-trial')).toBe(true);
+    expect(isPaymentModeIOS(undefined)).toBe(false);
+  });
+
+  it('should narrow union members by platform', () => {
+    const purchases = [
+      {platform: 'ios', productId: 'a'},
+      {platform: 'android', productId: 'b'},
+    ] as Purchase[];
+
+    expect(purchases.filter(isPurchaseIOS)).toEqual([purchases[0]]);
+    expect(purchases.filter(isPurchaseAndroid)).toEqual([purchases[1]]);
+    expect(isPurchaseIOS(null)).toBe(false);
+  });
+
+  it('should require every literal field to match', () => {
+    expect(
+      isProductSubscriptionAndroid({platform: 'android', type: 'subs'}),
+    ).toBe(true);
+    expect(
+      isProductSubscriptionAndroid({platform: 'android', type: 'in-app'}),
+    ).toBe(false);
+    expect(isProductSubscriptionIOS({platform: 'android', type: 'subs'})).toBe(
+      false,
+    );
+  });
+
+  it('should discriminate by a key unique to the member', () => {
+    expect(isReceiptValidationResultIOS({isValid: true})).toBe(true);
+    expect(isReceiptValidationResultIOS({autoRenewing: false})).toBe(false);
+    expect(isReceiptValidationResultAndroid({autoRenewing: false})).toBe(true);
+  });
+});
@@ -15,7 +15,10 @@ import {
   validateReceiptAndroid,
   deepLinkToSubscriptionsAndroid,
 } from './modules/android';
+import type {ChangeSubscriptionAndroidArgs} from './modules/android';
 import {ExpoIapConsole} from './utils/debug';
+import {checkNativePayload} from './utils/payloadValidation';
+import {deliverOnce, resolveDeduplicator} from './utils/purchaseDedup';
 
 // Types
 import type {
@@ -41,9 +44,11 @@ import type {
 } from './types';
 import {ErrorCode} from './types';
 import {createPurchaseError, type PurchaseError} from './utils/errorMapping';
+import type {PurchaseDedupeOptions} from './utils/purchaseDedup';
 
 // Export all types
 export * from './types';
+export * from './typeGuards';
 export * from './modules/android';
 export * from './modules/ios';
 
@@ -55,7 +60,7 @@ export enum OpenIapEvent {
   UserChoiceBillingAndroid = 'user-choice-billing-android',
 }
 
-type ExpoIapEventPayloads = {
+export type ExpoIapEventPayloads = {
   [OpenIapEvent.PurchaseUpdated]: Purchase;
   [OpenIapEvent.PurchaseError]: PurchaseError;
   [OpenIapEvent.PromotedProductIOS]: Product;
@@ -132,11 +137,21 @@ const normalizePurchaseArray = (purchases: Purchase[]): Purchase[] =>
   purchases.map((purchase) => normalizePurchasePlatform(purchase));
 
 export const purchaseUpdatedListener = (
-  listener: (event: Purchase) => void,
+  listener: (event: Purchase) => void | Promise<void>,
+  options: PurchaseDedupeOptions = {},
 ) => {
+  const deduplicator = resolveDeduplicator(options.dedupe);
   const wrappedListener = (event: Purchase) => {
     const normalized = normalizePurchasePlatform(event);
-    listener(normalized);
+    if (!deduplicator) {
+      listener(normalized);
+      return;
+    }
+    deliverOnce(deduplicator, normalized, listener, options.onDuplicate).catch(
+      (error) => {
+        ExpoIapConsole.warn('Failed to handle purchase:', error);
+      },
+    );
   };
   const emitterSubscription = emitter.addListener(
     OpenIapEvent.PurchaseUpdated,
@@ -296,14 +311,25 @@ export const fetchProducts: QueryField<'fetchProducts'> = async (request) => {
     return items;
   };
 
+  const checkProducts = (items: unknown[]) =>
+    checkNativePayload(
+      'fetchProducts',
+      items,
+      (item) =>
+        (item as {type?: unknown} | null)?.type === 'subs'
+          ? 'ProductSubscription'
+          : 'Product',
+      {list: true},
+    );
+
   if (Platform.OS === 'ios') {
     const rawItems = await ExpoIapModule.fetchProducts({skus, type: native});
-    return castResult(filterIosItems(rawItems));
+    return castResult(filterIosItems(checkProducts(rawItems)));
   }
 
   if (Platform.OS === 'android') {
     const rawItems = await ExpoIapModule.fetchProducts(native, skus);
-    return castResult(filterAndroidItems(rawItems));
+    return castResult(filterAndroidItems(checkProducts(rawItems)));
   }
 
   throw new Error('Unsupported platform');
@@ -329,7 +355,12 @@ export const getAvailablePurchases: QueryField<
     }) ?? (() => Promise.resolve([] as Purchase[]));
 
   const purchases = await resolvePurchases();
-  return normalizePurchaseArray(purchases as Purchase[]);
+  return checkNativePayload(
+    'getAvailablePurchases',
+    normalizePurchaseArray(purchases as Purchase[]),
+    'Purchase',
+    {list: true},
+  );
 };
 
 /**
@@ -366,7 +397,12 @@ export const getActiveSubscriptions: QueryField<
   const result = await ExpoIapModule.getActiveSubscriptions(
     subscriptionIds ?? null,
   );
-  return (result ?? []) as ActiveSubscription[];
+  return checkNativePayload(
+    'getActiveSubscriptions',
+    (result ?? []) as ActiveSubscription[],
+    'ActiveSubscription',
+    {list: true},
+  );
 };
 
 /**
@@ -613,6 +649,87 @@ export const requestPurchase: MutationField<'requestPurchase'> = async (
   throw new Error('Platform not supported');
 };
 
+/**
+ * Replace the user's current Android subscription with another plan.
+ * Looks up the current `purchaseToken` in `getAvailablePurchases` and checks
+ * that the offer token belongs to the target subscription before launching
+ * the billing flow.
+ *
+ * @example
+ * ```typescript
+ * await changeSubscriptionAndroid({
+ *   from: 'premium_monthly',
+ *   to: {sku: 'premium_yearly', offerToken},
+ *   mode: ReplacementModeAndroid.ChargeProratedPrice,
+ * });
+ * ```
+ *
+ * @platform Android
+ */
+export const changeSubscriptionAndroid = async ({
+  from,
+  to,
+  mode,
+  obfuscatedAccountIdAndroid,
+  obfuscatedProfileIdAndroid,
+}: ChangeSubscriptionAndroidArgs) => {
+  if (Platform.OS !== 'android') {
+    throw createPurchaseError({
+      message: 'changeSubscriptionAndroid is only available on Android',
+      code: ErrorCode.FeatureNotSupported,
+      productId: to.sku,
+    });
+  }
+
+  const [purchases, products] = await Promise.all([
+    getAvailablePurchases(),
+    fetchProducts({skus: [to.sku], type: 'subs'}),
+  ]);
+
+  const current = purchases.find(
+    (purchase) =>
+      purchase.productId === from && purchase.purchaseState === 'purchased',
+  );
+  if (!current?.purchaseToken) {
+    throw createPurchaseError({
+      message: `changeSubscriptionAndroid: no active purchase of ${from} to replace`,
+      code: ErrorCode.ItemNotOwned,
+      productId: from,
+      platform: 'android',
+    });
+  }
+
+  const target = ((products ?? []) as Product[]).find(
+    (product) => product.id === to.sku,
+  );
+  const offers =
+    target && isProductAndroid<Product>(target)
+      ? target.subscriptionOfferDetailsAndroid ?? []
+      : [];
+  if (!offers.some((offer) => offer.offerToken === to.offerToken)) {
+    throw createPurchaseError({
+      message: `changeSubscriptionAndroid: the offer token does not belong to ${to.sku}`,
+      code: ErrorCode.DeveloperError,
+      productId: to.sku,
+      platform: 'android',
+    });
+  }
+
+  return requestPurchase({
+    request: {
+      android: {
+        skus: [to.sku],
+        subscriptionOffers: [{sku: to.sku, offerToken: to.offerToken}],
+        purchaseTokenAndroid: current.purchaseToken,
+        replacementModeAndroid: mode,
+        obfuscatedAccountIdAndroid,
+        obfuscatedProfileIdAndroid,
+      },
+    },
+    type: 'subs',
+  });
+};
+
 export const finishTransaction: MutationField<'finishTransaction'> = async ({
   purchase,
   isConsumable = false,
@@ -715,7 +832,11 @@ export const validateReceipt: MutationField<'validateReceipt'> = async (
   const {sku, androidOptions} = options as MutationValidateReceiptArgs;
 
   if (Platform.OS === 'ios') {
-    return validateReceiptIOS({sku});
+    return checkNativePayload(
+      'validateReceipt',
+      await validateReceiptIOS({sku}),
+      'ReceiptValidationResult',
+    );
   }
 
   if (Platform.OS === 'android') {
@@ -729,19 +850,24 @@ export const validateReceipt: MutationField<'validateReceipt'> = async (
         'Android validation requires packageName, productToken, and accessToken',
       );
     }
-    return validateReceiptAndroid({
-      packageName: androidOptions.packageName,
-      productId: sku,
-      productToken: androidOptions.productToken,
-      accessToken: androidOptions.accessToken,
-      isSub: androidOptions.isSub ?? undefined,
-    });
+    return checkNativePayload(
+      'validateReceipt',
+      await validateReceiptAndroid({
+        packageName: androidOptions.packageName,
+        productId: sku,
+        productToken: androidOptions.productToken,
+        accessToken: androidOptions.accessToken,
+        isSub: androidOptions.isSub ?? undefined,
+      }),
+      'ReceiptValidationResult',
+    );
   }
 
   throw new Error('Platform not supported');
 };
 
 export * from './useIAP';
+export * from './useEntitlement';
 export {
   ErrorCodeUtils,
   ErrorCodeMapping,
@@ -753,3 +879,153 @@ export type {
   PurchaseErrorProps,
 } from './utils/errorMapping';
 export {ExpoIapConsole} from './utils/debug';
+export {
+  configurePayloadValidation,
+  isValidPayload,
+  validatePayload,
+} from './utils/payloadValidation';
+export type {
+  InvalidPayloadReport,
+  PayloadIssue,
+  PayloadKind,
+  PayloadTypes,
+  PayloadValidationConfig,
+  PayloadValidationMode,
+} from './utils/payloadValidation';
+export {
+  configureEntitlements,
+  createEntitlementEngine,
+  getEntitlementEngine,
+} from './utils/entitlements';
+export type {
+  Entitlement,
+  EntitlementEngine,
+  EntitlementEngineOptions,
+  EntitlementInput,
+  EntitlementMap,
+  EntitlementSnapshot,
+  EntitlementState,
+} from './utils/entitlements';
+export {
+  getSubscriptionStatus,
+  hasSubscriptionAccess,
+} from './utils/subscriptionStatus';
+export type {
+  SubscriptionState,
+  SubscriptionStatus,
+  SubscriptionStatusOptions,
+} from './utils/subscriptionStatus';
+export {createPurchaseLedger} from './utils/purchaseLedger';
+export type {
+  PurchaseChange,
+  PurchaseChangeType,
+  PurchaseLedger,
+  PurchaseLedgerOptions,
+} from './utils/purchaseLedger';
+export {
+  classifyPlanChange,
+  createSubscriptionGroups,
+} from './utils/subscriptionGroups';
+export type {
+  CurrentSubscriptionPlan,
+  PlanChange,
+  PlanChangeKind,
+  PlanChangeOptions,
+  SubscriptionGroup,
+  SubscriptionGroups,
+  SubscriptionGroupsOptions,
+  SubscriptionPlan,
+} from './utils/subscriptionGroups';
+export {purchase} from './utils/purchaseFlow';
+export type {PurchaseFlowArgs, PurchaseOutcome} from './utils/purchaseFlow';
+export {
+  configurePurchaseCoordinator,
+  createPurchaseCoordinator,
+  getPurchaseCoordinator,
+  isPurchaseInProgressError,
+} from './utils/purchaseCoordinator';
+export type {
+  ConcurrentPurchasePolicy,
+  PurchaseCoordinator,
+  PurchaseCoordinatorOptions,
+  PurchaseInProgressError,
+} from './utils/purchaseCoordinator';
+export {
+  configureProductKinds,
+  createProductKindRegistry,
+  finishPurchase,
+  getProductKindRegistry,
+} from './utils/productKinds';
+export type {
+  FinishAction,
+  FinishPurchaseOptions,
+  ProductKind,
+  ProductKindRegistry,
+} from './utils/productKinds';
+export {
+  ACKNOWLEDGE_WINDOW_MS_ANDROID,
+  recoverUnfinishedTransactions,
+} from './utils/transactionRecovery';
+export type {
+  RecoveredTransaction,
+  RecoverUnfinishedTransactionsOptions,
+} from './utils/transactionRecovery';
+export {createVerificationPipeline} from './utils/verificationPipeline';
+export type {
+  VerificationPipeline,
+  VerificationPipelineOptions,
+  VerificationResult,
+  VerificationStatus,
+  VerifyPurchase,
+} from './utils/verificationPipeline';
+export {createMemoryStorage} from './utils/storage';
+export type {KeyValueStorage} from './utils/storage';
+export {createPurchaseOutbox} from './utils/purchaseOutbox';
+export type {
+  OutboxEntry,
+  PurchaseOutbox,
+  PurchaseOutboxOptions,
+} from './utils/purchaseOutbox';
+export {
+  configurePurchaseDeduplication,
+  createPurchaseDeduplicator,
+  getPurchaseDeduplicator,
+} from './utils/purchaseDedup';
+export type {
+  PurchaseDedupeOptions,
+  PurchaseDeduplicator,
+  PurchaseDeduplicatorOptions,
+} from './utils/purchaseDedup';
+export {createPendingPurchaseTracker} from './utils/pendingPurchases';
+export type {
+  PendingPurchase,
+  PendingPurchaseEvent,
+  PendingPurchaseTracker,
+  PendingResolution,
+} from './utils/pendingPurchases';
+export {createCurrencyLedger} from './utils/currencyLedger';
+export type {
+  CreditResult,
+  CurrencyCredit,
+  CurrencyLedger,
+  CurrencyLedgerOptions,
+} from './utils/currencyLedger';
+export {createOfferResolver} from './utils/offerResolver';
+export type {
+  OfferKind,
+  OfferResolver,
+  OfferResolverOptions,
+  ResolvedOffer,
+} from './utils/offerResolver';
+export {
+  getPricingPhases,
+  getPricingPhasesAndroid,
+  getPricingPhasesIOS,
+} from './utils/pricingPhases';
+export type {
+  PricingPeriod,
+  PricingPeriodUnit,
+  PricingPhase,
+  PricingPhaseRecurrence,
+  PricingPhaseType,
+} from './utils/pricingPhases';
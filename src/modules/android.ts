@@ -21,6 +21,33 @@ type NativeAndroidModule = {
 
 const nativeAndroidModule = ExpoIapModule as NativeAndroidModule;
 
+/**
+ * Play Billing `ReplacementMode` values for `replacementModeAndroid`, which
+ * decide when a subscription change takes effect and how it is charged.
+ */
+export enum ReplacementModeAndroid {
+  /** Switch now; the unused time is credited towards the new plan. */
+  WithTimeProration = 1,
+  /** Switch now and charge the price difference; the renewal date stays. */
+  ChargeProratedPrice = 2,
+  /** Switch now and charge the new price at the next renewal. */
+  WithoutProration = 3,
+  /** Switch now and charge the full price; the unused time is credited. */
+  ChargeFullPrice = 5,
+  /** Switch when the current plan renews. */
+  Deferred = 6,
+}
+
+export interface ChangeSubscriptionAndroidArgs {
+  /** Product ID of the subscription being replaced. */
+  from: string;
+  /** Target subscription and one of its `subscriptionOfferDetailsAndroid` offers. */
+  to: {sku: string; offerToken: string};
+  mode: ReplacementModeAndroid;
+  obfuscatedAccountIdAndroid?: string | null;
+  obfuscatedProfileIdAndroid?: string | null;
+}
+
 // Type guards
 export function isProductAndroid<T extends {platform?: string}>(
   item: unknown,
@@ -0,0 +1,86 @@
+import {generateKeyPairSync, verify} from 'node:crypto';
+import {promotionalOfferPayload, signPromotionalOffer} from '../index';
+
+const {privateKey, publicKey} = generateKeyPairSync('ec', {
+  namedCurve: 'prime256v1',
+});
+// App Store Connect keys are PKCS#8 PEM files.
+const p8 = privateKey.export({format: 'pem', type: 'pkcs8'}).toString();
+
+const baseOptions = {
+  privateKey: p8,
+  keyIdentifier: 'ABC123DEFG',
+  bundleId: 'com.example.app',
+  productId: 'premium_monthly',
+  offerId: 'winback_50',
+};
+
+describe('signPromotionalOffer', () => {
+  it('should produce a verifiable DiscountOfferInputIOS', () => {
+    const offer = signPromotionalOffer({
+      ...baseOptions,
+      appAccountToken: 'E621E1F8-C36C-495A-93FC-0C247A3E6E5F',
+      nonce: 'F1A2B3C4-D5E6-4F70-8192-A3B4C5D6E7F8',
+      timestamp: 1735689600000,
+    });
+
+    expect(offer).toMatchObject({
+      identifier: 'winback_50',
+      keyIdentifier: 'ABC123DEFG',
+      nonce: 'f1a2b3c4-d5e6-4f70-8192-a3b4c5d6e7f8',
+      timestamp: 1735689600000,
+    });
+
+    const payload = [
+      'com.example.app',
+      'ABC123DEFG',
+      'premium_monthly',
+      'winback_50',
+      'e621e1f8-c36c-495a-93fc-0c247a3e6e5f',
+      'f1a2b3c4-d5e6-4f70-8192-a3b4c5d6e7f8',
+      '1735689600000',
+    ].join('\u2063');
+    expect(
+      verify(
+        'sha256',
+        Buffer.from(payload),
+        publicKey,
+        Buffer.from(offer.signature, 'base64'),
+      ),
+    ).toBe(true);
+  });
+
+  it('should sign an empty app account token and generate a nonce', () => {
+    const offer = signPromotionalOffer(baseOptions);
+    const payload = promotionalOfferPayload({
+      ...baseOptions,
+      appAccountToken: '',
+      nonce: offer.nonce,
+      timestamp: offer.timestamp,
+    });
+
+    expect(offer.nonce).toMatch(/^[0-9a-f-]{36}$/);
+    expect(
+      verify(
+        'sha256',
+        Buffer.from(payload),
+        publicKey,
+        Buffer.from(offer.signature, 'base64'),
+      ),
+    ).toBe(true);
+  });
+
+  it('should reject invalid input', () => {
+    expect(() =>
+      signPromotionalOffer({...baseOptions, offerId: '', keyIdentifier: ''}),
+    ).toThrow('signPromotionalOffer: missing keyIdentifier, offerId');
+    expect(() =>
+      signPromotionalOffer({...baseOptions, appAccountToken: 'user-1'}),
+    ).toThrow('appAccountToken must be a UUID');
+
+    const rsa = generateKeyPairSync('rsa', {modulusLength: 1024}).privateKey;
+    expect(() =>
+      signPromotionalOffer({...baseOptions, privateKey: rsa}),
+    ).toThrow('privateKey must be an ES256 key');
+  });
+});
@@ -0,0 +1,11 @@
+/**
+ * Server-side helpers for expo-iap.
+ * Import from `expo-iap/server`; these run on Node and must not be bundled
+ * into the app.
+ */
+
+export {
+  promotionalOfferPayload,
+  signPromotionalOffer,
+} from './promotionalOffer';
+export type {PromotionalOfferSignatureOptions} from './promotionalOffer';
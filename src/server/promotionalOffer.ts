@@ -0,0 +1,134 @@
+/**
+ * Promotional offer signatures for StoreKit.
+ * Signs the offer payload with an App Store Connect in-app purchase key
+ * (ES256), producing the `withOffer` input for `requestPurchase` on iOS.
+ */
+
+/// <reference types="node" />
+
+// External dependencies
+import {createPrivateKey, randomUUID, sign} from 'node:crypto';
+
+// Types
+import type {KeyObject} from 'node:crypto';
+import type {DiscountOfferInputIOS} from '../types';
+
+export interface PromotionalOfferSignatureOptions {
+  /** Contents of the `.p8` key downloaded from App Store Connect. */
+  privateKey: string | KeyObject;
+  /** Key ID shown next to the key in App Store Connect. */
+  keyIdentifier: string;
+  bundleId: string;
+  productId: string;
+  /** Promotional offer identifier configured for the subscription. */
+  offerId: string;
+  /**
+   * The `appAccountToken` the app passes to `requestPurchase`; it must be a
+   * UUID. Omit it when the purchase carries no app account token.
+   */
+  appAccountToken?: string | null;
+  /** Defaults to a random UUID. */
+  nonce?: string;
+  /** Defaults to `Date.now()`. */
+  timestamp?: number;
+}
+
+/** StoreKit separates payload fields with U+2063 (invisible separator). */
+const SEPARATOR = '\u2063';
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * The payload Apple verifies, in StoreKit's field order. UUIDs are lowercase.
+ */
+export const promotionalOfferPayload = (
+  fields: Required<
+    Omit<PromotionalOfferSignatureOptions, 'privateKey' | 'appAccountToken'>
+  > & {appAccountToken: string},
+) =>
+  [
+    fields.bundleId,
+    fields.keyIdentifier,
+    fields.productId,
+    fields.offerId,
+    fields.appAccountToken.toLowerCase(),
+    fields.nonce.toLowerCase(),
+    String(fields.timestamp),
+  ].join(SEPARATOR);
+
+/**
+ * Sign a promotional offer on your server and return it to the app, which
+ * passes it as `withOffer` when requesting the purchase.
+ *
+ * @example
+ * ```typescript
+ * import {signPromotionalOffer} from 'expo-iap/server';
+ *
+ * const offer = signPromotionalOffer({
+ *   privateKey: fs.readFileSync('SubscriptionKey_ABC123.p8', 'utf8'),
+ *   keyIdentifier: 'ABC123',
+ *   bundleId: 'com.example.app',
+ *   productId: 'premium_monthly',
+ *   offerId: 'winback_50',
+ *   appAccountToken: user.appAccountToken,
+ * });
+ * res.json(offer);
+ * ```
+ */
+export const signPromotionalOffer = (
+  options: PromotionalOfferSignatureOptions,
+): DiscountOfferInputIOS => {
+  const required = [
+    'keyIdentifier',
+    'bundleId',
+    'productId',
+    'offerId',
+  ] as const;
+  const missing = required.filter((field) => !options[field]);
+  if (missing.length > 0) {
+    throw new Error(`signPromotionalOffer: missing ${missing.join(', ')}`);
+  }
+
+  const appAccountToken = options.appAccountToken ?? '';
+  if (appAccountToken && !UUID_PATTERN.test(appAccountToken)) {
+    throw new Error('signPromotionalOffer: appAccountToken must be a UUID');
+  }
+  const nonce = options.nonce ?? randomUUID();
+  if (!UUID_PATTERN.test(nonce)) {
+    throw new Error('signPromotionalOffer: nonce must be a UUID');
+  }
+
+  const key =
+    typeof options.privateKey === 'string'
+      ? createPrivateKey(options.privateKey)
+      : options.privateKey;
+  if (
+    key.asymmetricKeyType !== 'ec' ||
+    key.asymmetricKeyDetails?.namedCurve !== 'prime256v1'
+  ) {
+    throw new Error('signPromotionalOffer: privateKey must be an ES256 key');
+  }
+
+  const timestamp = options.timestamp ?? Date.now();
+  const payload = promotionalOfferPayload({
+    keyIdentifier: options.keyIdentifier,
+    bundleId: options.bundleId,
+    productId: options.productId,
+    offerId: options.offerId,
+    appAccountToken,
+    nonce,
+    timestamp,
+  });
+
+  return {
+    identifier: options.offerId,
+    keyIdentifier: options.keyIdentifier,
+    nonce: nonce.toLowerCase(),
+    // DER-encoded ECDSA signature, as StoreKit expects.
+    signature: sign('sha256', Buffer.from(payload, 'utf8'), key).toString(
+      'base64',
+    ),
+    timestamp,
+  };
+};
@@ -0,0 +1,332 @@
+import {Platform} from 'react-native';
+import {
+  fetchProducts,
+  finishTransaction,
+  getActiveSubscriptions,
+  getAvailablePurchases,
+  initConnection,
+  purchaseErrorListener,
+  purchaseUpdatedListener,
+  requestPurchase,
+} from '../../index';
+import {getPendingTransactionsIOS} from '../../modules/ios';
+import {createFakeStore, installFakeStore} from '../fakeStore';
+import type {
+  ProductIOS,
+  ProductSubscriptionAndroid,
+  PurchaseAndroid,
+} from '../../types';
+
+const iosCoins = {
+  id: 'coins_100',
+  platform: 'ios',
+  type: 'in-app',
+  typeIOS: 'consumable',
+  title: '100 Coins',
+  description: 'A pile of coins',
+  displayName: '100 Coins',
+  displayNameIOS: '100 Coins',
+  displayPrice: '$0.99',
+  price: 0.99,
+  currency: 'USD',
+  isFamilyShareableIOS: false,
+  jsonRepresentationIOS: '{}',
+} as ProductIOS;
+
+const iosPremium = {
+  ...iosCoins,
+  id: 'premium',
+  type: 'subs',
+  typeIOS: 'auto-renewable-subscription',
+  title: 'Premium',
+  subscriptionInfoIOS: {
+    subscriptionGroupId: 'group-1',
+    subscriptionPeriod: {unit: 'month', value: 1},
+  },
+} as unknown as ProductIOS;
+
+const androidPremium: ProductSubscriptionAndroid = {
+  id: 'premium',
+  platform: 'android',
+  type: 'subs',
+  title: 'Premium',
+  description: 'Premium plan',
+  displayPrice: '$4.99',
+  price: 4.99,
+  currency: 'USD',
+  nameAndroid: 'Premium',
+  subscriptionOfferDetailsAndroid: [
+    {
+      basePlanId: 'monthly',
+      offerId: null,
+      offerTags: [],
+      offerToken: 'monthly-token',
+      pricingPhases: {
+        pricingPhaseList: [
+          {
+            billingCycleCount: 0,
+            billingPeriod: 'P1M',
+            formattedPrice: '$4.99',
+            priceAmountMicros: '4990000',
+            priceCurrencyCode: 'USD',
+            recurrenceMode: 1,
+          },
+        ],
+      },
+    },
+  ],
+};
+
+const setPlatform = (os: 'ios' | 'android') => {
+  (Platform as any).OS = os;
+  (Platform as any).select = (obj: any) => obj[os];
+};
+
+describe('createFakeStore', () => {
+  let uninstall: () => void;
+
+  afterEach(() => {
+    uninstall?.();
+  });
+
+  describe('iOS', () => {
+    beforeEach(() => {
+      setPlatform('ios');
+    });
+
+    it('should reject calls before initConnection', async () => {
+      const store = createFakeStore({products: [iosCoins]});
+      uninstall = installFakeStore(store);
+
+      await expect(
+        fetchProducts({skus: ['coins_100'], type: 'in-app'}),
+      ).rejects.toMatchObject({code: 'not-prepared'});
+    });
+
+    it('should fetch, purchase and finish a consumable', async () => {
+      const store = createFakeStore({products: [iosCoins, iosPremium]});
+      uninstall = installFakeStore(store);
+      const onPurchase = jest.fn();
+      const subscription = purchaseUpdatedListener(onPurchase);
+
+      await initConnection();
+      const products = await fetchProducts({
+        skus: ['coins_100', 'premium'],
+        type: 'in-app',
+      });
+      expect(products?.map((product) => product.id)).toEqual(['coins_100']);
+
+      const purchase = (await requestPurchase({
+        request: {ios: {sku: 'coins_100', quantity: 2}},
+        type: 'in-app',
+      })) as any;
+      expect(purchase).toMatchObject({
+        productId: 'coins_100',
+        platform: 'ios',
+        purchaseState: 'purchased',
+        quantityIOS: 2,
+      });
+      expect(onPurchase).toHaveBeenCalledWith(purchase);
+      expect(await getPendingTransactionsIOS()).toHaveLength(1);
+
+      await finishTransaction({purchase, isConsumable: true});
+      expect(store.getFinishedTransactionIds()).toEqual([
+        purchase.transactionId,
+      ]);
+      expect(await getAvailablePurchases()).toEqual([]);
+      subscription.remove();
+    });
+
+    it('should report active subscriptions with renewal info', async () => {
+      const store = createFakeStore({
+        products: [iosPremium],
+        now: () => 1_000,
+      });
+      uninstall = installFakeStore(store);
+      await initConnection();
+
+      await requestPurchase({request: {ios: {sku: 'premium'}}, type: 'subs'});
+      const [active] = await getActiveSubscriptions();
+
+      expect(active).toMatchObject({
+        productId: 'premium',
+        isActive: true,
+        expirationDateIOS: 1_000 + 30 * 24 * 60 * 60 * 1000,
+        renewalInfoIOS: {willAutoRenew: true},
+      });
+    });
+
+    it('should emit deferred payment for pending outcomes and approve later', async () => {
+      const store = createFakeStore({products: [iosCoins]});
+      uninstall = installFakeStore(store);
+      const onError = jest.fn();
+      const onPurchase = jest.fn();
+      const errorSub = purchaseErrorListener(onError);
+      const purchaseSub = purchaseUpdatedListener(onPurchase);
+      await initConnection();
+
+      store.queuePurchaseOutcome('pending');
+      const result = await requestPurchase({
+        request: {ios: {sku: 'coins_100'}},
+        type: 'in-app',
+      });
+
+      expect(result).toBeNull();
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({code: 'deferred-payment'}),
+      );
+
+      store.resolvePendingPurchase('coins_100', 'approved');
+      expect(onPurchase).toHaveBeenCalledWith(
+        expect.objectContaining({productId: 'coins_100'}),
+      );
+      errorSub.remove();
+      purchaseSub.remove();
+    });
+
+    it('should reject and emit user-cancelled for cancelled outcomes', async () => {
+      const store = createFakeStore({products: [iosCoins]});
+      uninstall = installFakeStore(store);
+      const onError = jest.fn();
+      const errorSub = purchaseErrorListener(onError);
+      await initConnection();
+
+      store.queuePurchaseOutcome('cancelled');
+      await expect(
+        requestPurchase({request: {ios: {sku: 'coins_100'}}, type: 'in-app'}),
+      ).rejects.toMatchObject({code: 'user-cancelled'});
+      expect(onError).toHaveBeenCalledTimes(1);
+      errorSub.remove();
+    });
+  });
+
+  describe('Android', () => {
+    beforeEach(() => {
+      setPlatform('android');
+    });
+
+    it('should purchase a subscription with an offer token and acknowledge it', async () => {
+      const store = createFakeStore({
+        platform: 'android',
+        products: [androidPremium],
+      });
+      uninstall = installFakeStore(store);
+      await initConnection();
+
+      const [purchase] = (await requestPurchase({
+        request: {
+          android: {
+            skus: ['premium'],
+            subscriptionOffers: [{sku: 'premium', offerToken: 'monthly-token'}],
+          },
+        },
+        type: 'subs',
+      })) as any[];
+
+      expect(purchase).toMatchObject({
+        platform: 'android',
+        currentPlanId: 'monthly',
+        isAcknowledgedAndroid: false,
+      });
+
+      await finishTransaction({purchase});
+      expect(store.getPurchases()[0]).toMatchObject({
+        isAcknowledgedAndroid: true,
+      });
+
+      const [active] = await getActiveSubscriptions(['premium']);
+      expect(active).toMatchObject({
+        basePlanIdAndroid: 'monthly',
+        purchaseTokenAndroid: purchase.purchaseToken,
+      });
+    });
+
+    it('should keep dataAndroid in step when a pending purchase is approved', async () => {
+      const store = createFakeStore({
+        platform: 'android',
+        products: [androidPremium],
+      });
+      uninstall = installFakeStore(store);
+      await initConnection();
+
+      store.queuePurchaseOutcome('pending');
+      const [pending] = (await requestPurchase({
+        request: {
+          android: {
+            skus: ['premium'],
+            subscriptionOffers: [{sku: 'premium', offerToken: 'monthly-token'}],
+          },
+        },
+        type: 'subs',
+      })) as PurchaseAndroid[];
+      expect(JSON.parse(pending!.dataAndroid!)).toMatchObject({
+        purchaseState: 4,
+      });
+
+      const approved = store.resolvePendingPurchase(
+        'premium',
+        'approved',
+      ) as PurchaseAndroid;
+      expect(approved.purchaseState).toBe('purchased');
+      expect(JSON.parse(approved.dataAndroid!)).toMatchObject({
+        purchaseState: 0,
+        acknowledged: false,
+      });
+
+      await finishTransaction({purchase: approved});
+      const [owned] = store.getPurchases() as PurchaseAndroid[];
+      expect(JSON.parse(owned!.dataAndroid!)).toMatchObject({
+        acknowledged: true,
+      });
+    });
+
+    it('should reject offer tokens that belong to another product', async () => {
+      const store = createFakeStore({
+        platform: 'android',
+        products: [androidPremium],
+      });
+      uninstall = installFakeStore(store);
+      await initConnection();
+
+      await expect(
+        requestPurchase({
+          request: {
+            android: {
+              skus: ['premium'],
+              subscriptionOffers: [{sku: 'premium', offerToken: 'other'}],
+            },
+          },
+          type: 'subs',
+        }),
+      ).rejects.toMatchObject({code: 'sku-offer-mismatch'});
+    });
+
+    it('should reject repurchasing an owned item until it is consumed', async () => {
+      const store = createFakeStore({
+        platform: 'android',
+        products: [{...androidPremium, id: 'coins', type: 'in-app'} as any],
+      });
+      uninstall = installFakeStore(store);
+      await initConnection();
+
+      const [purchase] = (await requestPurchase({
+        request: {android: {skus: ['coins']}},
+        type: 'in-app',
+      })) as any[];
+      await expect(
+        requestPurchase({
+          request: {android: {skus: ['coins']}},
+          type: 'in-app',
+        }),
+      ).rejects.toMatchObject({code: 'already-owned'});
+
+      await finishTransaction({purchase, isConsumable: true});
+      await expect(
+        requestPurchase({
+          request: {android: {skus: ['coins']}},
+          type: 'in-app',
+        }),
+      ).resolves.toHaveLength(1);
+    });
+  });
+});
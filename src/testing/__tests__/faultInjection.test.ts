@@ -0,0 +1,107 @@
+import {Platform} from 'react-native';
+import {
+  fetchProducts,
+  initConnection,
+  purchaseErrorListener,
+  requestPurchase,
+} from '../../index';
+import {ErrorCode} from '../../types';
+import {isRecoverableError} from '../../utils/errorMapping';
+import {createFakeStore, installFakeStore} from '../fakeStore';
+import {injectFaults} from '../faultInjection';
+import type {ProductIOS} from '../../types';
+
+const coins = {
+  id: 'coins',
+  platform: 'ios',
+  type: 'in-app',
+  typeIOS: 'consumable',
+  title: 'Coins',
+  description: 'Coins',
+  displayNameIOS: 'Coins',
+  displayPrice: '$0.99',
+  currency: 'USD',
+  isFamilyShareableIOS: false,
+  jsonRepresentationIOS: '{}',
+} as ProductIOS;
+
+describe('injectFaults', () => {
+  let uninstall: () => void;
+
+  beforeEach(() => {
+    (Platform as any).OS = 'ios';
+    uninstall = installFakeStore(createFakeStore({products: [coins]}));
+  });
+
+  afterEach(() => {
+    uninstall();
+  });
+
+  it('should fail only the configured call', async () => {
+    const faults = injectFaults({
+      initConnection: {error: ErrorCode.InitConnection, onCall: 1},
+    });
+
+    await expect(initConnection()).rejects.toMatchObject({
+      code: ErrorCode.InitConnection,
+    });
+    await expect(initConnection()).resolves.toBe(true);
+    expect(faults.getCallCount('initConnection')).toBe(2);
+    faults.restore();
+  });
+
+  it('should delay before rejecting to emulate timeouts', async () => {
+    jest.useFakeTimers();
+    await initConnection();
+    const faults = injectFaults({
+      fetchProducts: {delayMs: 30_000, error: ErrorCode.NetworkError},
+    });
+
+    const settled = jest.fn();
+    const pending = fetchProducts({skus: ['coins'], type: 'in-app'}).catch(
+      (error) => {
+        settled(error);
+        return null;
+      },
+    );
+    await jest.advanceTimersByTimeAsync(29_999);
+    expect(settled).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(1);
+    await pending;
+    expect(isRecoverableError(settled.mock.calls[0][0])).toBe(true);
+
+    faults.restore();
+    jest.useRealTimers();
+  });
+
+  it('should emit purchase-error when the service drops mid purchase', async () => {
+    await initConnection();
+    const onError = jest.fn();
+    const subscription = purchaseErrorListener(onError);
+    const faults = injectFaults().addFault('requestPurchase', {
+      error: ErrorCode.ServiceDisconnected,
+      emitPurchaseError: ErrorCode.ServiceDisconnected,
+      times: 1,
+    });
+
+    await expect(
+      requestPurchase({request: {ios: {sku: 'coins'}}, type: 'in-app'}),
+    ).rejects.toMatchObject({code: ErrorCode.ServiceDisconnected});
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({code: ErrorCode.ServiceDisconnected}),
+    );
+
+    await expect(
+      requestPurchase({request: {ios: {sku: 'coins'}}, type: 'in-app'}),
+    ).resolves.toMatchObject({productId: 'coins'});
+    subscription.remove();
+    faults.restore();
+  });
+
+  it('should reject rules for unknown methods', () => {
+    expect(() => injectFaults({notANativeMethod: {delayMs: 1}})).toThrow(
+      /not a native method/,
+    );
+  });
+});
@@ -0,0 +1,190 @@
+import {
+  parsePlayConsoleProductsCsv,
+  parsePlayConsoleSubscriptions,
+} from '../playConsole';
+
+const csv = [
+  'Product ID,Published State,Purchase Type,Auto Translate,Locale; Title; Description,Auto Fill Prices,Price,Pricing Template ID',
+  'coins_100,published,managed_by_android,false,"en_US; 100 Coins; A pile of coins, shiny; de_DE; 100 Münzen; Ein Haufen Münzen",false,US; 990000; DE; 1090000,',
+  'remove_ads,published,managed_by_android,false,en_US; Remove ads; No more ads,true,2990000,',
+  'old_pack,inactive,managed_by_android,false,en_US; Old; Retired,true,990000,',
+].join('\n');
+
+const monetization = {
+  subscriptions: [
+    {
+      packageName: 'com.example.app',
+      productId: 'premium',
+      listings: [
+        {languageCode: 'en-US', title: 'Premium', description: 'All features'},
+      ],
+      basePlans: [
+        {
+          basePlanId: 'monthly',
+          state: 'ACTIVE',
+          autoRenewingBasePlanType: {billingPeriodDuration: 'P1M'},
+          offerTags: [{tag: 'default'}],
+          regionalConfigs: [
+            {
+              regionCode: 'US',
+              price: {currencyCode: 'USD', units: '4', nanos: 990000000},
+            },
+          ],
+        },
+        {
+          basePlanId: 'legacy',
+          state: 'INACTIVE',
+          autoRenewingBasePlanType: {billingPeriodDuration: 'P1M'},
+          regionalConfigs: [
+            {regionCode: 'US', price: {currencyCode: 'USD', units: '2'}},
+          ],
+        },
+      ],
+    },
+  ],
+  subscriptionOffers: [
+    {
+      productId: 'premium',
+      basePlanId: 'monthly',
+      offerId: 'trial-then-half',
+      state: 'ACTIVE',
+      offerTags: [{tag: 'intro'}],
+      phases: [
+        {
+          recurrenceCount: 1,
+          duration: 'P1W',
+          regionalConfigs: [{regionCode: 'US', free: {}}],
+        },
+        {
+          recurrenceCount: 3,
+          duration: 'P1M',
+          regionalConfigs: [{regionCode: 'US', relativeDiscount: 0.5}],
+        },
+      ],
+    },
+  ],
+};
+
+describe('parsePlayConsoleProductsCsv', () => {
+  it('should map active rows with per-region and default prices', () => {
+    const products = parsePlayConsoleProductsCsv(csv);
+
+    expect(products.map((product) => product.id)).toEqual([
+      'coins_100',
+      'remove_ads',
+    ]);
+    expect(products[0]).toMatchObject({
+      platform: 'android',
+      type: 'in-app',
+      title: '100 Coins',
+      description: 'A pile of coins, shiny',
+      nameAndroid: '100 Coins',
+      displayPrice: '$0.99',
+      price: 0.99,
+      oneTimePurchaseOfferDetailsAndroid: {
+        priceAmountMicros: '990000',
+        priceCurrencyCode: 'USD',
+      },
+    });
+    expect(products[1]).toMatchObject({price: 2.99, displayPrice: '$2.99'});
+  });
+
+  it('should pick the requested region and language', () => {
+    const [coins] = parsePlayConsoleProductsCsv(csv, {
+      regionCode: 'DE',
+      languageCode: 'de-DE',
+      currency: 'EUR',
+    });
+
+    expect(coins).toMatchObject({
+      title: '100 Münzen',
+      price: 1.09,
+      currency: 'EUR',
+    });
+  });
+
+  it('should reject exports without the expected columns', () => {
+    expect(() => parsePlayConsoleProductsCsv('Product ID,Title\nx,y')).toThrow(
+      'parsePlayConsoleProductsCsv: missing "Published State" column',
+    );
+  });
+});
+
+describe('parsePlayConsoleSubscriptions', () => {
+  it('should build offer details with pricing phases and offer tags', () => {
+    const [premium] = parsePlayConsoleSubscriptions(
+      JSON.stringify(monetization),
+    );
+
+    expect(premium).toMatchObject({
+      id: 'premium',
+      type: 'subs',
+      title: 'Premium',
+      displayPrice: '$4.99',
+      price: 4.99,
+      currency: 'USD',
+    });
+    expect(premium?.subscriptionOfferDetailsAndroid).toEqual([
+      {
+        basePlanId: 'monthly',
+        offerId: 'trial-then-half',
+        offerTags: ['default', 'intro'],
+        offerToken: 'premium:monthly:trial-then-half',
+        pricingPhases: {
+          pricingPhaseList: [
+            {
+              billingCycleCount: 1,
+              billingPeriod: 'P1W',
+              formattedPrice: '$0.00',
+              priceAmountMicros: '0',
+              priceCurrencyCode: 'USD',
+              recurrenceMode: 2,
+            },
+            {
+              billingCycleCount: 3,
+              billingPeriod: 'P1M',
+              formattedPrice: '$2.50',
+              priceAmountMicros: '2495000',
+              priceCurrencyCode: 'USD',
+              recurrenceMode: 2,
+            },
+            {
+              billingCycleCount: 0,
+              billingPeriod: 'P1M',
+              formattedPrice: '$4.99',
+              priceAmountMicros: '4990000',
+              priceCurrencyCode: 'USD',
+              recurrenceMode: 1,
+            },
+          ],
+        },
+      },
+      {
+        basePlanId: 'monthly',
+        offerId: null,
+        offerTags: ['default'],
+        offerToken: 'premium:monthly',
+        pricingPhases: {
+          pricingPhaseList: [
+            {
+              billingCycleCount: 0,
+              billingPeriod: 'P1M',
+              formattedPrice: '$4.99',
+              priceAmountMicros: '4990000',
+              priceCurrencyCode: 'USD',
+              recurrenceMode: 1,
+            },
+          ],
+        },
+      },
+    ]);
+  });
+
+  it('should reject subscriptions without a priced base plan', () => {
+    expect(() =>
+      parsePlayConsoleSubscriptions(monetization, {regionCode: 'JP'}),
+    ).toThrow(
+      'parsePlayConsoleSubscriptions: premium has no active base plan for JP',
+    );
+  });
+});
@@ -0,0 +1,183 @@
+import {Platform} from 'react-native';
+import {
+  fetchProducts,
+  finishTransaction,
+  initConnection,
+  purchaseUpdatedListener,
+  requestPurchase,
+} from '../../index';
+import {createFakeStore, installFakeStore} from '../fakeStore';
+import {replaySession, startRecording} from '../recorder';
+import type {ProductAndroid, ProductIOS} from '../../types';
+
+const iosCoins = {
+  id: 'coins_100',
+  platform: 'ios',
+  type: 'in-app',
+  typeIOS: 'consumable',
+  title: '100 Coins',
+  description: 'A pile of coins',
+  displayName: '100 Coins',
+  displayNameIOS: '100 Coins',
+  displayPrice: '$0.99',
+  price: 0.99,
+  currency: 'USD',
+  isFamilyShareableIOS: false,
+  jsonRepresentationIOS: '{}',
+} as ProductIOS;
+
+const androidCoins = {
+  id: 'coins_100',
+  platform: 'android',
+  type: 'in-app',
+  title: '100 Coins',
+  description: 'A pile of coins',
+  displayPrice: '$0.99',
+  price: 0.99,
+  currency: 'USD',
+  nameAndroid: '100 Coins',
+} as ProductAndroid;
+
+const setPlatform = (os: 'ios' | 'android') => {
+  (Platform as any).OS = os;
+  (Platform as any).select = (obj: any) => obj[os];
+};
+
+const recordIosPurchase = async () => {
+  const store = createFakeStore({products: [iosCoins]});
+  const uninstall = installFakeStore(store);
+  const recorder = startRecording({platform: 'ios', now: () => 0});
+
+  await initConnection();
+  await fetchProducts({skus: ['coins_100'], type: 'in-app'});
+  const purchase = await requestPurchase({
+    request: {ios: {sku: 'coins_100'}},
+    type: 'in-app',
+  });
+  await finishTransaction({purchase: purchase as any, isConsumable: true});
+
+  const session = recorder.stop();
+  uninstall();
+  return {session, purchase: purchase as any};
+};
+
+describe('startRecording', () => {
+  it('should capture calls, results and events with tokens redacted', async () => {
+    setPlatform('ios');
+    const {session, purchase} = await recordIosPurchase();
+
+    expect(session.entries.map((entry) => entry.kind)).toEqual([
+      'call',
+      'call',
+      'call',
+      'event',
+      'call',
+    ]);
+    const serialized = JSON.stringify(session);
+    expect(serialized).not.toContain(purchase.purchaseToken);
+    expect(serialized).toContain('[redacted:purchaseToken:1]');
+
+    const finish = session.entries[4];
+    expect(finish).toMatchObject({
+      kind: 'call',
+      method: 'finishTransaction',
+      args: [{purchaseToken: '[redacted:purchaseToken:1]'}, true],
+    });
+  });
+
+  it('should record rejected calls and redact positional tokens', async () => {
+    setPlatform('android');
+    const store = createFakeStore({
+      platform: 'android',
+      products: [androidCoins],
+    });
+    const uninstall = installFakeStore(store);
+    const recorder = startRecording({platform: 'android'});
+
+    await expect(
+      fetchProducts({skus: ['coins_100'], type: 'in-app'}),
+    ).rejects.toThrow();
+    await initConnection();
+    const [purchase] = (await requestPurchase({
+      request: {android: {skus: ['coins_100']}},
+      type: 'in-app',
+    })) as any[];
+    await finishTransaction({purchase, isConsumable: true});
+
+    const session = recorder.stop();
+    uninstall();
+
+    expect(session.entries[0]).toMatchObject({
+      method: 'fetchProducts',
+      error: {code: 'not-prepared'},
+    });
+    const consume = session.entries.find(
+      (entry) =>
+        entry.kind === 'call' && entry.method === 'consumePurchaseAndroid',
+    );
+    expect(consume).toMatchObject({args: ['[redacted:purchaseToken:1]']});
+    expect(JSON.stringify(session)).not.toContain(purchase.purchaseToken);
+  });
+});
+
+describe('replaySession', () => {
+  it('should replay results and events without a store', async () => {
+    setPlatform('ios');
+    const {session} = await recordIosPurchase();
+    const replayer = replaySession(JSON.parse(JSON.stringify(session)));
+    const onPurchase = jest.fn();
+    const subscription = purchaseUpdatedListener(onPurchase);
+
+    await initConnection();
+    const products = await fetchProducts({
+      skus: ['coins_100'],
+      type: 'in-app',
+    });
+    const purchase = await requestPurchase({
+      request: {ios: {sku: 'coins_100'}},
+      type: 'in-app',
+    });
+
+    expect(products?.[0]?.id).toBe('coins_100');
+    expect(onPurchase).toHaveBeenCalledWith(
+      expect.objectContaining({
+        productId: 'coins_100',
+        purchaseToken: '[redacted:purchaseToken:1]',
+      }),
+    );
+    await finishTransaction({purchase: purchase as any, isConsumable: true});
+    expect(replayer.getRemainingCalls()).toEqual([]);
+
+    subscription.remove();
+    replayer.restore();
+  });
+
+  it('should replay recorded errors and reject unexpected calls', async () => {
+    setPlatform('ios');
+    const replayer = replaySession({
+      version: 1,
+      platform: 'ios',
+      startedAt: 0,
+      entries: [
+        {
+          kind: 'call',
+          method: 'initConnection',
+          args: [],
+          at: 0,
+          durationMs: 5,
+          error: {code: 'service-error', message: 'Billing unavailable'},
+          settledIndex: 1,
+        },
+      ],
+    });
+
+    await expect(initConnection()).rejects.toMatchObject({
+      code: 'service-error',
+      message: 'Billing unavailable',
+    });
+    await expect(initConnection()).rejects.toThrow(
+      'replaySession: unexpected call to initConnection',
+    );
+    replayer.restore();
+  });
+});
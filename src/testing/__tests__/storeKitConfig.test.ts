@@ -0,0 +1,174 @@
+import {parseStoreKitConfig} from '../storeKitConfig';
+
+const config = {
+  identifier: 'F3A1C2D4',
+  nonRenewingSubscriptions: [],
+  products: [
+    {
+      displayPrice: '0.99',
+      familyShareable: false,
+      internalID: '6443000001',
+      localizations: [
+        {
+          description: 'A pile of coins',
+          displayName: '100 Coins',
+          locale: 'en_US',
+        },
+        {
+          description: 'Un tas de pièces',
+          displayName: '100 pièces',
+          locale: 'fr',
+        },
+      ],
+      productID: 'coins_100',
+      referenceName: 'Coins',
+      type: 'Consumable',
+    },
+  ],
+  settings: {_storefront: 'USA'},
+  subscriptionGroups: [
+    {
+      id: '21429780',
+      localizations: [],
+      name: 'Premium',
+      subscriptions: [
+        {
+          adHocOffers: [
+            {
+              displayPrice: '1.99',
+              internalID: '6443000003',
+              numberOfPeriods: 3,
+              offerID: 'winback_3m',
+              paymentMode: 'payAsYouGo',
+              referenceName: 'Win back',
+              subscriptionPeriod: 'P1M',
+            },
+          ],
+          codeOffers: [],
+          displayPrice: '9.99',
+          familyShareable: true,
+          groupNumber: 1,
+          internalID: '6443000002',
+          introductoryOffer: {
+            internalID: '6443000004',
+            numberOfPeriods: 1,
+            paymentMode: 'free',
+            subscriptionPeriod: 'P1W',
+          },
+          localizations: [
+            {
+              description: 'All features',
+              displayName: 'Premium Monthly',
+              locale: 'en_US',
+            },
+          ],
+          productID: 'premium_monthly',
+          recurringSubscriptionPeriod: 'P1M',
+          referenceName: 'Premium Monthly',
+          subscriptionGroupID: '21429780',
+          type: 'RecurringSubscription',
+        },
+      ],
+    },
+  ],
+  version: {major: 4, minor: 0},
+};
+
+describe('parseStoreKitConfig', () => {
+  it('should map one-time products with the requested localization', () => {
+    const [coins] = parseStoreKitConfig(JSON.stringify(config), {
+      locale: 'fr',
+      currency: 'EUR',
+    });
+
+    expect(coins).toMatchObject({
+      id: 'coins_100',
+      platform: 'ios',
+      type: 'in-app',
+      typeIOS: 'consumable',
+      title: '100 pièces',
+      description: 'Un tas de pièces',
+      price: 0.99,
+      currency: 'EUR',
+      isFamilyShareableIOS: false,
+    });
+    expect(coins?.displayPrice).toContain('0,99');
+  });
+
+  it('should map subscriptions with intro and promotional offers', () => {
+    const [, premium] = parseStoreKitConfig(config);
+
+    expect(premium).toMatchObject({
+      id: 'premium_monthly',
+      type: 'subs',
+      typeIOS: 'auto-renewable-subscription',
+      displayPrice: '$9.99',
+      isFamilyShareableIOS: true,
+      subscriptionPeriodNumberIOS: '1',
+      subscriptionPeriodUnitIOS: 'month',
+      introductoryPricePaymentModeIOS: 'free-trial',
+      introductoryPriceIOS: '$0.00',
+      introductoryPriceNumberOfPeriodsIOS: '1',
+      introductoryPriceSubscriptionPeriodIOS: 'week',
+      subscriptionInfoIOS: {
+        subscriptionGroupId: '21429780',
+        subscriptionPeriod: {unit: 'month', value: 1},
+        introductoryOffer: {
+          paymentMode: 'free-trial',
+          period: {unit: 'week', value: 1},
+          periodCount: 1,
+          price: 0,
+          type: 'introductory',
+        },
+        promotionalOffers: [
+          {
+            id: 'winback_3m',
+            displayPrice: '$1.99',
+            paymentMode: 'pay-as-you-go',
+            periodCount: 3,
+            type: 'promotional',
+          },
+        ],
+      },
+      discountsIOS: [
+        {
+          identifier: 'winback_3m',
+          localizedPrice: '$1.99',
+          numberOfPeriods: 3,
+          paymentMode: 'pay-as-you-go',
+          price: '1.99',
+          priceAmount: 1.99,
+          subscriptionPeriod: 'P1M',
+          type: 'promotional',
+        },
+      ],
+    });
+  });
+
+  it('should reject unsupported product types and periods', () => {
+    expect(() =>
+      parseStoreKitConfig({
+        products: [{productID: 'x', type: 'Bundle'}],
+      }),
+    ).toThrow('parseStoreKitConfig: x has an unsupported type "Bundle"');
+    expect(() =>
+      parseStoreKitConfig({
+        subscriptionGroups: [
+          {
+            id: '1',
+            subscriptions: [
+              {
+                productID: 'y',
+                type: 'RecurringSubscription',
+                recurringSubscriptionPeriod: 'P1Q',
+              },
+            ],
+          },
+        ],
+      }),
+    ).toThrow('parseStoreKitConfig: y has an unsupported period "P1Q"');
+    expect(() => parseStoreKitConfig('{')).toThrow(
+      'parseStoreKitConfig: invalid JSON',
+    );
+  });
+});
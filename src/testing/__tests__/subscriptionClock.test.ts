@@ -0,0 +1,226 @@
+import {Platform} from 'react-native';
+import {
+  getActiveSubscriptions,
+  initConnection,
+  purchaseUpdatedListener,
+  requestPurchase,
+} from '../../index';
+import {subscriptionStatusIOS} from '../../modules/ios';
+import {createFakeStore, installFakeStore} from '../fakeStore';
+import {createSubscriptionClock} from '../subscriptionClock';
+import type {ProductIOS, ProductSubscriptionAndroid} from '../../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const START = Date.UTC(2025, 0, 1);
+
+const iosPremium = {
+  id: 'premium',
+  platform: 'ios',
+  type: 'subs',
+  typeIOS: 'auto-renewable-subscription',
+  title: 'Premium',
+  description: 'Premium plan',
+  displayName: 'Premium',
+  displayNameIOS: 'Premium',
+  displayPrice: '$4.99',
+  price: 4.99,
+  currency: 'USD',
+  isFamilyShareableIOS: false,
+  jsonRepresentationIOS: '{}',
+  subscriptionInfoIOS: {
+    subscriptionGroupId: 'group-1',
+    subscriptionPeriod: {unit: 'month', value: 1},
+  },
+} as unknown as ProductIOS;
+
+const androidPremium: ProductSubscriptionAndroid = {
+  id: 'premium',
+  platform: 'android',
+  type: 'subs',
+  title: 'Premium',
+  description: 'Premium plan',
+  displayPrice: '$4.99',
+  price: 4.99,
+  currency: 'USD',
+  nameAndroid: 'Premium',
+  subscriptionOfferDetailsAndroid: [
+    {
+      basePlanId: 'weekly',
+      offerId: null,
+      offerTags: [],
+      offerToken: 'weekly-token',
+      pricingPhases: {
+        pricingPhaseList: [
+          {
+            billingCycleCount: 0,
+            billingPeriod: 'P1W',
+            formattedPrice: '$1.99',
+            priceAmountMicros: '1990000',
+            priceCurrencyCode: 'USD',
+            recurrenceMode: 1,
+          },
+        ],
+      },
+    },
+  ],
+};
+
+const setPlatform = (os: 'ios' | 'android') => {
+  (Platform as any).OS = os;
+  (Platform as any).select = (obj: any) => obj[os];
+};
+
+describe('createSubscriptionClock', () => {
+  let uninstall: () => void;
+
+  afterEach(() => {
+    uninstall?.();
+  });
+
+  describe('iOS', () => {
+    const setup = async (
+      options: Parameters<typeof createSubscriptionClock>[0] = {},
+    ) => {
+      setPlatform('ios');
+      const clock = createSubscriptionClock({start: START, ...options});
+      const store = createFakeStore({products: [iosPremium], now: clock.now});
+      uninstall = installFakeStore(store);
+      clock.attach(store);
+      await initConnection();
+      await requestPurchase({request: {ios: {sku: 'premium'}}, type: 'subs'});
+      return {clock, store};
+    };
+
+    it('should renew at the end of each period and emit purchase-updated', async () => {
+      const {clock} = await setup();
+      const onPurchase = jest.fn();
+      const subscription = purchaseUpdatedListener(onPurchase);
+
+      const transitions = clock.advance(65 * DAY_MS);
+
+      expect(transitions.map((transition) => transition.type)).toEqual([
+        'renewed',
+        'renewed',
+      ]);
+      expect(transitions[1]?.at).toBe(START + 60 * DAY_MS);
+      expect(onPurchase).toHaveBeenCalledTimes(2);
+      expect(onPurchase).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          transactionReasonIOS: 'RENEWAL',
+          expirationDateIOS: START + 90 * DAY_MS,
+        }),
+      );
+      const [active] = await getActiveSubscriptions();
+      expect(active).toMatchObject({
+        daysUntilExpirationIOS: 25,
+        willExpireSoon: false,
+      });
+      subscription.remove();
+    });
+
+    it('should lapse when auto-renew is off', async () => {
+      const {clock} = await setup();
+      clock.queueRenewal('premium', 'cancel');
+
+      expect(clock.advance(30 * DAY_MS)).toEqual([
+        expect.objectContaining({type: 'lapsed', at: START + 30 * DAY_MS}),
+      ]);
+      expect(await getActiveSubscriptions()).toEqual([]);
+      expect(await subscriptionStatusIOS('premium')).toEqual([
+        {state: 'expired', renewalInfo: null},
+      ]);
+    });
+
+    it('should move through grace period and billing retry to expiry', async () => {
+      const {clock} = await setup({
+        gracePeriodMs: 6 * DAY_MS,
+        billingRetryMs: 30 * DAY_MS,
+      });
+      clock.queueRenewal('premium', 'billing-failure');
+
+      clock.advance(31 * DAY_MS);
+      const [inGrace] = await getActiveSubscriptions();
+      expect(inGrace).toMatchObject({
+        willExpireSoon: true,
+        renewalInfoIOS: {
+          gracePeriodExpirationDate: START + 36 * DAY_MS,
+          isInBillingRetry: true,
+        },
+      });
+      expect(await subscriptionStatusIOS('premium')).toEqual([
+        expect.objectContaining({state: 'inGracePeriod'}),
+      ]);
+
+      clock.advance(10 * DAY_MS);
+      expect(await getActiveSubscriptions()).toEqual([]);
+      expect(await subscriptionStatusIOS('premium')).toEqual([
+        expect.objectContaining({state: 'inBillingRetryPeriod'}),
+      ]);
+
+      clock.advance(30 * DAY_MS);
+      expect(
+        clock.getTransitions().map((transition) => transition.type),
+      ).toEqual(['grace-period', 'billing-retry', 'expired']);
+    });
+
+    it('should start a new period when a billing issue is resolved', async () => {
+      const {clock} = await setup({gracePeriodMs: 0});
+      clock.queueRenewal('premium', 'billing-failure');
+      clock.advance(40 * DAY_MS);
+
+      const recovered = clock.resolveBillingIssue('premium');
+
+      expect(recovered).toMatchObject({
+        expirationDateIOS: START + 70 * DAY_MS,
+      });
+      expect(await getActiveSubscriptions()).toHaveLength(1);
+      expect(
+        clock.getTransitions().map((transition) => transition.type),
+      ).toEqual(['billing-retry', 'recovered']);
+    });
+  });
+
+  describe('Android', () => {
+    it('should renew with the same token and hold the account on billing failure', async () => {
+      setPlatform('android');
+      const clock = createSubscriptionClock({start: START});
+      const store = createFakeStore({
+        platform: 'android',
+        products: [androidPremium],
+        now: clock.now,
+      });
+      uninstall = installFakeStore(store);
+      clock.attach(store);
+      await initConnection();
+      const [purchase] = (await requestPurchase({
+        request: {
+          android: {
+            skus: ['premium'],
+            subscriptionOffers: [{sku: 'premium', offerToken: 'weekly-token'}],
+          },
+        },
+        type: 'subs',
+      })) as any[];
+
+      const [renewal] = clock.advance(7 * DAY_MS);
+      expect(renewal?.purchase).toMatchObject({
+        purchaseToken: purchase.purchaseToken,
+        transactionId: `${purchase.transactionId}..0`,
+      });
+
+      clock.queueRenewal('premium', 'billing-failure');
+      clock.advance(7 * DAY_MS);
+      expect(await getActiveSubscriptions()).toHaveLength(1);
+
+      clock.advance(3 * DAY_MS);
+      expect(await getActiveSubscriptions()).toEqual([]);
+
+      clock.resolveBillingIssue('premium');
+      const [active] = await getActiveSubscriptions();
+      expect(active).toMatchObject({
+        purchaseToken: purchase.purchaseToken,
+        transactionId: `${purchase.transactionId}..1`,
+      });
+    });
+  });
+});
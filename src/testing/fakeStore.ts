@@ -0,0 +1,883 @@
+/**
+ * In-memory fake store for tests.
+ * Implements the ExpoIap native module contract (methods + events) with real
+ * OpenIAP payloads so `useIAP` and the root APIs run end to end without a device.
+ */
+
+// Internal modules
+import ExpoIapModule from '../ExpoIapModule';
+import {OpenIapEvent, type ExpoIapEventPayloads} from '../index';
+import {createPurchaseError, type PurchaseError} from '../utils/errorMapping';
+import {DAY_MS, transactionIdOf} from '../utils/purchaseLedger';
+
+// Types
+import type {
+  ActiveSubscription,
+  AndroidSubscriptionOfferInput,
+  IapPlatform,
+  MutationRequestPurchaseArgs,
+  Product,
+  ProductSubscription,
+  ProductSubscriptionAndroidOfferDetails,
+  Purchase,
+  PurchaseAndroid,
+  PurchaseIOS,
+  RenewalInfoIOS,
+  SubscriptionPeriodValueIOS,
+  SubscriptionStatusIOS,
+} from '../types';
+import {ErrorCode} from '../types';
+
+export type FakeStoreProduct = Product | ProductSubscription;
+
+/**
+ * Outcome applied to the next `requestPurchase` call.
+ * - `purchased`: the purchase succeeds and `purchase-updated` fires
+ * - `pending`: Android reports a pending purchase, iOS reports Ask to Buy
+ *   (`purchase-error` with `deferred-payment`)
+ * - `cancelled`: `purchase-error` with `user-cancelled`
+ */
+export type FakePurchaseOutcome = 'purchased' | 'pending' | 'cancelled';
+
+export interface FakeStoreOptions {
+  /** Platform the fake emulates. Must match `Platform.OS` in the test. */
+  platform?: IapPlatform;
+  /** Catalog returned by `fetchProducts`. */
+  products?: FakeStoreProduct[];
+  /** Purchases the user already owns when the store is created. */
+  purchases?: Purchase[];
+  /**
+   * Product IDs treated as consumables. iOS products with
+   * `typeIOS: 'consumable'` are detected automatically.
+   */
+  consumableProductIds?: string[];
+  storefront?: string;
+  /** Android package name / iOS bundle ID stamped on purchases. */
+  appId?: string;
+  /** Clock used for transaction and expiration dates. */
+  now?: () => number;
+}
+
+export type FakeNativeModule = {
+  ERROR_CODES: Record<string, string>;
+  [method: string]: unknown;
+};
+
+/** Android `requestPurchase` payload as sent by `src/index.ts`. */
+interface NativePurchaseRequestAndroid {
+  type: string;
+  skuArr: string[];
+  offerTokenArr?: string[];
+  subscriptionOffers?: AndroidSubscriptionOfferInput[];
+  purchaseToken?: string | null;
+  obfuscatedAccountId?: string | null;
+  obfuscatedProfileId?: string | null;
+}
+
+export type FakeStoreEventListener = (payload: unknown) => void;
+
+export interface FakeStore {
+  readonly platform: IapPlatform;
+  /** Object shaped like the `ExpoIap` native module. */
+  readonly module: FakeNativeModule;
+  isConnected: () => boolean;
+  setProducts: (products: FakeStoreProduct[]) => void;
+  getProducts: () => FakeStoreProduct[];
+  /** Purchases currently owned (not consumed). */
+  getPurchases: () => Purchase[];
+  /** Every transaction the store has produced, including consumed ones. */
+  getTransactionHistory: () => Purchase[];
+  getFinishedTransactionIds: () => string[];
+  /** Grant a purchase silently, as if it was made on another device. */
+  addPurchase: (
+    productId: string,
+    overrides?: Partial<PurchaseIOS & PurchaseAndroid>,
+  ) => Purchase;
+  /** Replace an owned purchase, e.g. to flip renewal or revocation fields. */
+  updatePurchase: (
+    transactionId: string,
+    patch: Partial<PurchaseIOS & PurchaseAndroid>,
+  ) => Purchase;
+  /** Remove an owned purchase without emitting any event. */
+  removePurchase: (transactionId: string) => void;
+  queuePurchaseOutcome: (...outcomes: FakePurchaseOutcome[]) => void;
+  /**
+   * Resolve the oldest pending purchase for `productId`.
+   * Approval emits `purchase-updated`, decline emits `purchase-error`.
+   */
+  resolvePendingPurchase: (
+    productId: string,
+    resolution: 'approved' | 'declined',
+  ) => Purchase | null;
+  setPromotedProductIOS: (productId: string | null) => void;
+  emit: <E extends OpenIapEvent>(
+    event: E,
+    payload: ExpoIapEventPayloads[E],
+  ) => void;
+  listenerCount: (event?: OpenIapEvent) => number;
+  reset: () => void;
+}
+
+const DEFAULT_SUBSCRIPTION_PERIOD: SubscriptionPeriodValueIOS = {
+  unit: 'month',
+  value: 1,
+};
+
+/** Length of a subscription period; months are 30 days, years 365. */
+export const periodToMs = (
+  period?: SubscriptionPeriodValueIOS | null,
+): number => {
+  const {unit, value} = period ?? DEFAULT_SUBSCRIPTION_PERIOD;
+  switch (unit) {
+    case 'day':
+      return value * DAY_MS;
+    case 'week':
+      return value * 7 * DAY_MS;
+    case 'month':
+      return value * 30 * DAY_MS;
+    case 'year':
+      return value * 365 * DAY_MS;
+    default:
+      return 30 * DAY_MS;
+  }
+};
+
+const isoDurationToPeriod = (
+  billingPeriod?: string,
+): SubscriptionPeriodValueIOS => {
+  const match = /^P(\d+)([DWMY])$/.exec(billingPeriod ?? '');
+  if (!match) {
+    return DEFAULT_SUBSCRIPTION_PERIOD;
+  }
+  const units = {D: 'day', W: 'week', M: 'month', Y: 'year'} as const;
+  return {
+    unit: units[match[2] as keyof typeof units],
+    value: Number(match[1]),
+  };
+};
+
+/** Billing period of a subscription product, or of one Android base plan. */
+export const subscriptionPeriodOf = (
+  product: FakeStoreProduct | undefined,
+  basePlanId?: string | null,
+): SubscriptionPeriodValueIOS => {
+  const subscription = product as
+    | (ProductSubscription & {
+        subscriptionInfoIOS?: {
+          subscriptionPeriod?: SubscriptionPeriodValueIOS;
+        };
+        subscriptionOfferDetailsAndroid?: ProductSubscriptionAndroidOfferDetails[];
+      })
+    | undefined;
+  if (subscription?.subscriptionInfoIOS?.subscriptionPeriod) {
+    return subscription.subscriptionInfoIOS.subscriptionPeriod;
+  }
+  const offer = subscription?.subscriptionOfferDetailsAndroid?.find(
+    (detail) => !basePlanId || detail.basePlanId === basePlanId,
+  );
+  const phases = offer?.pricingPhases.pricingPhaseList ?? [];
+  return isoDurationToPeriod(phases[phases.length - 1]?.billingPeriod);
+};
+
+/**
+ * Create a stateful fake store.
+ *
+ * @example
+ * ```typescript
+ * const store = createFakeStore({platform: 'ios', products: [premium]});
+ * const uninstall = installFakeStore(store);
+ *
+ * await initConnection();
+ * await requestPurchase({request: {ios: {sku: 'premium'}}, type: 'in-app'});
+ * expect(store.getPurchases()).toHaveLength(1);
+ *
+ * uninstall();
+ * ```
+ */
+export const createFakeStore = (options: FakeStoreOptions = {}): FakeStore => {
+  const platform = options.platform ?? 'ios';
+  const now = options.now ?? (() => Date.now());
+  const appId = options.appId ?? 'com.example.app';
+  const consumableIds = new Set(options.consumableProductIds ?? []);
+
+  let connected = false;
+  let products: FakeStoreProduct[] = [];
+  let owned: Purchase[] = [];
+  let history: Purchase[] = [];
+  let finished = new Set<string>();
+  let outcomes: FakePurchaseOutcome[] = [];
+  let pending: {productId: string; purchase?: Purchase}[] = [];
+  let promotedProductId: string | null = null;
+  let sequence = 0;
+  const listeners = new Map<string, Set<FakeStoreEventListener>>();
+
+  const emit = (event: string, payload: unknown) => {
+    listeners.get(event)?.forEach((listener) => listener(payload));
+  };
+
+  const fail = (
+    code: ErrorCode,
+    message: string,
+    productId?: string,
+    {emitEvent = true}: {emitEvent?: boolean} = {},
+  ): PurchaseError => {
+    if (emitEvent) {
+      emit(OpenIapEvent.PurchaseError, {code, message, productId, platform});
+    }
+    return createPurchaseError({code, message, productId, platform});
+  };
+
+  const ensureConnected = () => {
+    if (!connected) {
+      throw fail(ErrorCode.NotPrepared, 'Billing client not ready', undefined, {
+        emitEvent: false,
+      });
+    }
+  };
+
+  const findProduct = (productId: string) =>
+    products.find((product) => product.id === productId);
+
+  const isSubscription = (productId: string) =>
+    findProduct(productId)?.type === 'subs';
+
+  const isConsumable = (productId: string) => {
+    const product = findProduct(productId) as {typeIOS?: string} | undefined;
+    return consumableIds.has(productId) || product?.typeIOS === 'consumable';
+  };
+
+  const findOwned = (transactionId: string) =>
+    owned.find(
+      (purchase) =>
+        transactionIdOf(purchase) === transactionId ||
+        purchase.id === transactionId,
+    );
+
+  /** Keep the Play `originalJson` mirror in `dataAndroid` in step with `purchase`. */
+  const withPurchaseData = (purchase: Purchase): Purchase => {
+    if (platform !== 'android') {
+      return purchase;
+    }
+    const android = purchase as PurchaseAndroid;
+    return {
+      ...android,
+      dataAndroid: JSON.stringify({
+        orderId: android.transactionId,
+        packageName: appId,
+        productId: android.productId,
+        purchaseTime: android.transactionDate,
+        purchaseState: android.purchaseState === 'pending' ? 4 : 0,
+        purchaseToken: android.purchaseToken,
+        quantity: android.quantity,
+        autoRenewing: android.autoRenewingAndroid,
+        acknowledged: android.isAcknowledgedAndroid,
+      }),
+    };
+  };
+
+  const buildPurchase = (
+    productId: string,
+    overrides: Partial<PurchaseIOS & PurchaseAndroid> & {
+      basePlanId?: string | null;
+    } = {},
+  ): Purchase => {
+    sequence += 1;
+    const {basePlanId, ...fields} = overrides;
+    const transactionDate = now();
+    const subscription = isSubscription(productId);
+    const quantity = fields.quantity ?? 1;
+
+    if (platform === 'ios') {
+      const transactionId = String(2000000000000000 + sequence);
+      const product = findProduct(productId) as
+        | {subscriptionInfoIOS?: {subscriptionGroupId?: string} | null}
+        | undefined;
+      const purchase: PurchaseIOS = {
+        id: transactionId,
+        transactionId,
+        productId,
+        ids: [productId],
+        platform: 'ios',
+        purchaseState: 'purchased',
+        isAutoRenewing: subscription,
+        quantity,
+        quantityIOS: quantity,
+        transactionDate,
+        purchaseToken: `fake-jws.${transactionId}`,
+        originalTransactionIdentifierIOS: transactionId,
+        originalTransactionDateIOS: transactionDate,
+        appBundleIdIOS: appId,
+        environmentIOS: 'Xcode',
+        ownershipTypeIOS: 'purchased',
+        transactionReasonIOS: 'PURCHASE',
+        currentPlanId: productId,
+        expirationDateIOS: subscription
+          ? transactionDate +
+            periodToMs(subscriptionPeriodOf(findProduct(productId)))
+          : null,
+        subscriptionGroupIdIOS: subscription
+          ? product?.subscriptionInfoIOS?.subscriptionGroupId ?? null
+          : null,
+        ...fields,
+      };
+      return purchase;
+    }
+
+    const orderId = `GPA.3300-0000-0000-${String(sequence).padStart(5, '0')}`;
+    const purchaseToken = `fake-token-${sequence}`;
+    const purchase: PurchaseAndroid = {
+      id: orderId,
+      transactionId: orderId,
+      productId,
+      ids: [productId],
+      platform: 'android',
+      purchaseState: 'purchased',
+      isAutoRenewing: subscription,
+      autoRenewingAndroid: subscription,
+      quantity,
+      transactionDate,
+      purchaseToken,
+      isAcknowledgedAndroid: false,
+      packageNameAndroid: appId,
+      signatureAndroid: 'fake-signature',
+      currentPlanId: subscription ? basePlanId ?? null : null,
+      ...fields,
+    };
+    return withPurchaseData(purchase);
+  };
+
+  const record = (purchase: Purchase) => {
+    owned.push(purchase);
+    history.push(purchase);
+  };
+
+  const replace = (previous: Purchase, patch: Partial<Purchase>) => {
+    const next = withPurchaseData({...previous, ...patch} as Purchase);
+    owned = owned.map((purchase) => (purchase === previous ? next : purchase));
+    history = history.map((purchase) =>
+      purchase === previous ? next : purchase,
+    );
+    return next;
+  };
+
+  const isExpired = (purchase: Purchase) => {
+    const {expirationDateIOS, renewalInfoIOS} = purchase as PurchaseIOS;
+    const graceEnd = renewalInfoIOS?.gracePeriodExpirationDate;
+    if (typeof graceEnd === 'number' && graceEnd > now()) {
+      return false;
+    }
+    return typeof expirationDateIOS === 'number' && expirationDateIOS <= now();
+  };
+
+  const toActiveSubscription = (purchase: Purchase): ActiveSubscription => {
+    const ios = purchase as PurchaseIOS;
+    const android = purchase as PurchaseAndroid;
+    if (platform === 'ios') {
+      const expirationDateIOS = ios.expirationDateIOS ?? null;
+      const daysUntilExpirationIOS =
+        expirationDateIOS == null
+          ? null
+          : Math.max(0, Math.ceil((expirationDateIOS - now()) / DAY_MS));
+      const renewalInfoIOS: RenewalInfoIOS = ios.renewalInfoIOS ?? {
+        willAutoRenew: purchase.isAutoRenewing,
+        autoRenewPreference: purchase.productId,
+        renewalDate: expirationDateIOS,
+      };
+      return {
+        productId: purchase.productId,
+        isActive: true,
+        transactionId: transactionIdOf(purchase),
+        transactionDate: purchase.transactionDate,
+        purchaseToken: purchase.purchaseToken ?? null,
+        currentPlanId: purchase.currentPlanId ?? purchase.productId,
+        expirationDateIOS,
+        environmentIOS: ios.environmentIOS ?? null,
+        daysUntilExpirationIOS,
+        willExpireSoon:
+          daysUntilExpirationIOS != null && daysUntilExpirationIOS <= 7,
+        renewalInfoIOS,
+      };
+    }
+    return {
+      productId: purchase.productId,
+      isActive: true,
+      transactionId: transactionIdOf(purchase),
+      transactionDate: purchase.transactionDate,
+      purchaseToken: purchase.purchaseToken ?? null,
+      purchaseTokenAndroid: purchase.purchaseToken ?? null,
+      currentPlanId: purchase.currentPlanId ?? null,
+      basePlanIdAndroid: purchase.currentPlanId ?? null,
+      autoRenewingAndroid: android.autoRenewingAndroid ?? null,
+    };
+  };
+
+  const activeSubscriptions = (subscriptionIds?: string[] | null) =>
+    owned
+      .filter(
+        (purchase) =>
+          isSubscription(purchase.productId) &&
+          purchase.purchaseState === 'purchased' &&
+          !isExpired(purchase) &&
+          !(purchase as PurchaseIOS).revocationDateIOS,
+      )
+      .filter(
+        (purchase) =>
+          !subscriptionIds?.length ||
+          subscriptionIds.includes(purchase.productId),
+      )
+      .map(toActiveSubscription);
+
+  type RequestedPurchase = {
+    sku: string;
+    quantity?: number | null;
+    appAccountToken?: string | null;
+    basePlanId?: string | null;
+    replacedToken?: string | null;
+    obfuscatedAccountId?: string | null;
+    obfuscatedProfileId?: string | null;
+  };
+
+  const resolveAndroidOffer = (
+    sku: string,
+    offers: AndroidSubscriptionOfferInput[],
+  ): string | null | undefined => {
+    const details = (
+      findProduct(sku) as
+        | {
+            subscriptionOfferDetailsAndroid?: ProductSubscriptionAndroidOfferDetails[];
+          }
+        | undefined
+    )?.subscriptionOfferDetailsAndroid;
+    if (!details?.length) {
+      return null;
+    }
+    const token = offers.find((offer) => offer.sku === sku)?.offerToken;
+    if (!token) {
+      return details[0].basePlanId;
+    }
+    return details.find((detail) => detail.offerToken === token)?.basePlanId;
+  };
+
+  const parseRequest = (
+    payload: MutationRequestPurchaseArgs | NativePurchaseRequestAndroid,
+  ): RequestedPurchase[] => {
+    if (platform === 'ios') {
+      const ios = (payload as MutationRequestPurchaseArgs).request?.ios;
+      return [
+        {
+          sku: ios?.sku ?? '',
+          quantity: ios?.quantity,
+          appAccountToken: ios?.appAccountToken,
+        },
+      ];
+    }
+    const android = payload as NativePurchaseRequestAndroid;
+    const skus = android.skuArr ?? [];
+    const offers: AndroidSubscriptionOfferInput[] =
+      android.subscriptionOffers ??
+      skus.map((sku, index) => ({
+        sku,
+        offerToken: android.offerTokenArr?.[index] ?? '',
+      }));
+    return skus.map((sku) => {
+      const basePlanId =
+        android.type === 'subs' ? resolveAndroidOffer(sku, offers) : null;
+      if (basePlanId === undefined) {
+        throw fail(
+          ErrorCode.SkuOfferMismatch,
+          `Offer token does not belong to ${sku}`,
+          sku,
+        );
+      }
+      return {
+        sku,
+        basePlanId,
+        replacedToken: android.purchaseToken,
+        obfuscatedAccountId: android.obfuscatedAccountId,
+        obfuscatedProfileId: android.obfuscatedProfileId,
+      };
+    });
+  };
+
+  const purchaseProduct = (requested: RequestedPurchase): Purchase | null => {
+    const {sku} = requested;
+    if (!sku || !findProduct(sku)) {
+      throw fail(ErrorCode.SkuNotFound, `Product not found: ${sku}`, sku);
+    }
+
+    if (
+      platform === 'android' &&
+      owned.some(
+        (purchase) =>
+          purchase.productId === sku &&
+          purchase.purchaseToken !== requested.replacedToken,
+      )
+    ) {
+      throw fail(ErrorCode.AlreadyOwned, `Item already owned: ${sku}`, sku);
+    }
+
+    const outcome = outcomes.shift() ?? 'purchased';
+    if (outcome === 'cancelled') {
+      throw fail(ErrorCode.UserCancelled, 'User cancelled the purchase', sku);
+    }
+
+    if (outcome === 'pending' && platform === 'ios') {
+      pending.push({productId: sku});
+      fail(ErrorCode.DeferredPayment, 'Payment is pending approval', sku);
+      return null;
+    }
+
+    if (requested.replacedToken) {
+      owned = owned.filter(
+        (purchase) => purchase.purchaseToken !== requested.replacedToken,
+      );
+    }
+
+    const purchase = buildPurchase(sku, {
+      quantity: requested.quantity ?? 1,
+      appAccountToken: requested.appAccountToken ?? null,
+      obfuscatedAccountIdAndroid: requested.obfuscatedAccountId ?? null,
+      obfuscatedProfileIdAndroid: requested.obfuscatedProfileId ?? null,
+      basePlanId: requested.basePlanId,
+      ...(outcome === 'pending' ? {purchaseState: 'pending' as const} : {}),
+    });
+    record(purchase);
+    if (outcome === 'pending') {
+      pending.push({productId: sku, purchase});
+    }
+    emit(OpenIapEvent.PurchaseUpdated, purchase);
+    return purchase;
+  };
+
+  const module: FakeNativeModule = {
+    ERROR_CODES: {},
+
+    // Events
+    addListener: (event: string, listener: FakeStoreEventListener) => {
+      const set = listeners.get(event) ?? new Set<FakeStoreEventListener>();
+      set.add(listener);
+      listeners.set(event, set);
+      return {remove: () => set.delete(listener)};
+    },
+    removeListener: (event: string, listener: FakeStoreEventListener) => {
+      listeners.get(event)?.delete(listener);
+    },
+    removeAllListeners: (event: string) => {
+      listeners.delete(event);
+    },
+    removeListeners: () => {},
+    emit: (event: string, payload: unknown) => emit(event, payload),
+
+    // Connection
+    initConnection: async () => {
+      connected = true;
+      return true;
+    },
+    endConnection: async () => {
+      connected = false;
+      return true;
+    },
+
+    // Products
+    fetchProducts: async (...args: unknown[]) => {
+      ensureConnected();
+      const {type, skus} =
+        platform === 'ios'
+          ? (args[0] as {type: string; skus: string[]})
+          : {type: args[0] as string, skus: args[1] as string[]};
+      return products.filter(
+        (product) =>
+          product.platform === platform &&
+          skus.includes(product.id) &&
+          (type === 'all' || product.type === type),
+      );
+    },
+    getStorefront: async () => options.storefront ?? 'US',
+
+    // Purchases
+    requestPurchase: async (
+      payload: MutationRequestPurchaseArgs | NativePurchaseRequestAndroid,
+    ) => {
+      ensureConnected();
+      const purchases = parseRequest(payload)
+        .map(purchaseProduct)
+        .filter((purchase): purchase is Purchase => purchase !== null);
+      if (platform === 'ios') {
+        return purchases[0] ?? null;
+      }
+      return purchases;
+    },
+    getAvailableItems: async (
+      alsoPublishToEventListenerIOS?: boolean,
+      onlyIncludeActiveItemsIOS?: boolean,
+    ) => {
+      ensureConnected();
+      const items = owned.filter(
+        (purchase) =>
+          platform === 'android' ||
+          onlyIncludeActiveItemsIOS === false ||
+          !isExpired(purchase),
+      );
+      if (platform === 'ios' && alsoPublishToEventListenerIOS) {
+        items.forEach((purchase) =>
+          emit(OpenIapEvent.PurchaseUpdated, purchase),
+        );
+      }
+      return items;
+    },
+    finishTransaction: async (purchase: Purchase, consumable?: boolean) => {
+      ensureConnected();
+      const target = findOwned(transactionIdOf(purchase));
+      if (!target) {
+        throw fail(
+          ErrorCode.ItemNotOwned,
+          `Transaction not found: ${transactionIdOf(purchase)}`,
+          purchase.productId,
+          {emitEvent: false},
+        );
+      }
+      finished.add(transactionIdOf(target));
+      if (consumable || isConsumable(target.productId)) {
+        owned = owned.filter((item) => item !== target);
+      }
+      return true;
+    },
+    getActiveSubscriptions: async (subscriptionIds?: string[] | null) =>
+      activeSubscriptions(subscriptionIds),
+    hasActiveSubscriptions: async (subscriptionIds?: string[] | null) =>
+      activeSubscriptions(subscriptionIds).length > 0,
+
+    // Android
+    acknowledgePurchaseAndroid: async (token: string) => {
+      ensureConnected();
+      const target = owned.find((purchase) => purchase.purchaseToken === token);
+      if (!target) {
+        throw fail(
+          ErrorCode.ItemNotOwned,
+          'Purchase token not found',
+          undefined,
+          {
+            emitEvent: false,
+          },
+        );
+      }
+      replace(target, {isAcknowledgedAndroid: true});
+      finished.add(transactionIdOf(target));
+      return true;
+    },
+    consumePurchaseAndroid: async (token: string) => {
+      ensureConnected();
+      const target = owned.find((purchase) => purchase.purchaseToken === token);
+      if (!target) {
+        throw fail(
+          ErrorCode.ItemNotOwned,
+          'Purchase token not found',
+          undefined,
+          {
+            emitEvent: false,
+          },
+        );
+      }
+      owned = owned.filter((purchase) => purchase !== target);
+      finished.add(transactionIdOf(target));
+      return true;
+    },
+    deepLinkToSubscriptionsAndroid: async () => undefined,
+    checkAlternativeBillingAvailabilityAndroid: async () => false,
+    showAlternativeBillingDialogAndroid: async () => false,
+    createAlternativeBillingTokenAndroid: async () => null,
+
+    // iOS
+    syncIOS: async () => true,
+    isEligibleForIntroOfferIOS: async (groupId: string) =>
+      !history.some(
+        (purchase) =>
+          (purchase as PurchaseIOS).subscriptionGroupIdIOS === groupId,
+      ),
+    subscriptionStatusIOS: async (
+      sku: string,
+    ): Promise<SubscriptionStatusIOS[]> => {
+      const active = activeSubscriptions([sku])[0];
+      const renewalInfo = (
+        owned.find((purchase) => purchase.productId === sku) as
+          | PurchaseIOS
+          | undefined
+      )?.renewalInfoIOS;
+      if (active?.renewalInfoIOS?.gracePeriodExpirationDate) {
+        return [{state: 'inGracePeriod', renewalInfo: active.renewalInfoIOS}];
+      }
+      if (active) {
+        return [{state: 'subscribed', renewalInfo: active.renewalInfoIOS}];
+      }
+      if (renewalInfo?.isInBillingRetry) {
+        return [{state: 'inBillingRetryPeriod', renewalInfo}];
+      }
+      return history.some((purchase) => purchase.productId === sku)
+        ? [{state: 'expired', renewalInfo: null}]
+        : [];
+    },
+    currentEntitlementIOS: async (sku: string) =>
+      owned.find(
+        (purchase) => purchase.productId === sku && !isExpired(purchase),
+      ) ?? null,
+    latestTransactionIOS: async (sku: string) =>
+      [...history].reverse().find((purchase) => purchase.productId === sku) ??
+      null,
+    beginRefundRequestIOS: async () => 'success',
+    showManageSubscriptionsIOS: async () => [],
+    getReceiptDataIOS: async () => 'ZmFrZS1yZWNlaXB0',
+    isTransactionVerifiedIOS: async (sku: string) =>
+      owned.some((purchase) => purchase.productId === sku),
+    getTransactionJwsIOS: async (sku: string) =>
+      owned.find((purchase) => purchase.productId === sku)?.purchaseToken ??
+      null,
+    validateReceiptIOS: async (sku: string) => {
+      const latestTransaction =
+        [...owned].reverse().find((purchase) => purchase.productId === sku) ??
+        null;
+      return {
+        isValid: !!latestTransaction && !isExpired(latestTransaction),
+        receiptData: 'ZmFrZS1yZWNlaXB0',
+        jwsRepresentation: latestTransaction?.purchaseToken ?? '',
+        latestTransaction,
+      };
+    },
+    presentCodeRedemptionSheetIOS: async () => true,
+    getAppTransactionIOS: async () => null,
+    getPromotedProductIOS: async () =>
+      promotedProductId ? findProduct(promotedProductId) ?? null : null,
+    requestPurchaseOnPromotedProductIOS: async () => {
+      ensureConnected();
+      if (!promotedProductId) {
+        throw fail(
+          ErrorCode.ItemUnavailable,
+          'No promoted product available',
+          undefined,
+          {emitEvent: false},
+        );
+      }
+      purchaseProduct({sku: promotedProductId});
+      promotedProductId = null;
+    },
+    getPendingTransactionsIOS: async () =>
+      owned.filter((purchase) => !finished.has(transactionIdOf(purchase))),
+    clearTransactionIOS: async () => {
+      owned.forEach((purchase) => finished.add(transactionIdOf(purchase)));
+      return true;
+    },
+    canPresentExternalPurchaseNoticeIOS: async () => false,
+    presentExternalPurchaseNoticeSheetIOS: async () => ({result: 'dismissed'}),
+    presentExternalPurchaseLinkIOS: async () => ({success: false}),
+  };
+
+  const reset = () => {
+    connected = false;
+    products = [...(options.products ?? [])];
+    owned = [...(options.purchases ?? [])];
+    history = [...owned];
+    finished = new Set();
+    outcomes = [];
+    pending = [];
+    promotedProductId = null;
+    sequence = 0;
+    listeners.clear();
+  };
+
+  reset();
+
+  return {
+    platform,
+    module,
+    isConnected: () => connected,
+    setProducts: (next) => {
+      products = [...next];
+    },
+    getProducts: () => [...products],
+    getPurchases: () => [...owned],
+    getTransactionHistory: () => [...history],
+    getFinishedTransactionIds: () => [...finished],
+    addPurchase: (productId, overrides) => {
+      const purchase = buildPurchase(productId, overrides);
+      record(purchase);
+      return purchase;
+    },
+    updatePurchase: (transactionId, patch) => {
+      const target = findOwned(transactionId);
+      if (!target) {
+        throw new Error(`Transaction not found: ${transactionId}`);
+      }
+      return replace(target, patch);
+    },
+    removePurchase: (transactionId) => {
+      owned = owned.filter(
+        (purchase) => transactionIdOf(purchase) !== transactionId,
+      );
+    },
+    queuePurchaseOutcome: (...next) => {
+      outcomes.push(...next);
+    },
+    resolvePendingPurchase: (productId, resolution) => {
+      const index = pending.findIndex((entry) => entry.productId === productId);
+      if (index === -1) {
+        return null;
+      }
+      const [entry] = pending.splice(index, 1);
+      if (entry.purchase) {
+        owned = owned.filter((purchase) => purchase !== entry.purchase);
+      }
+      if (resolution === 'declined') {
+        fail(
+          ErrorCode.PurchaseError,
+          'Pending purchase was declined',
+          productId,
+        );
+        return null;
+      }
+      const approved = entry.purchase
+        ? withPurchaseData({...entry.purchase, purchaseState: 'purchased'})
+        : buildPurchase(productId);
+      if (entry.purchase) {
+        history = history.filter((purchase) => purchase !== entry.purchase);
+      }
+      record(approved);
+      emit(OpenIapEvent.PurchaseUpdated, approved);
+      return approved;
+    },
+    setPromotedProductIOS: (productId) => {
+      promotedProductId = productId;
+      const product = productId ? findProduct(productId) : undefined;
+      if (product) {
+        emit(OpenIapEvent.PromotedProductIOS, product);
+      }
+    },
+    emit: (event, payload) => emit(event, payload),
+    listenerCount: (event) =>
+      event
+        ? listeners.get(event)?.size ?? 0
+        : [...listeners.values()].reduce((total, set) => total + set.size, 0),
+    reset,
+  };
+};
+
+/**
+ * Route the `ExpoIap` native module through a fake store.
+ * Returns a function that restores the original native methods.
+ */
+export const installFakeStore = (store: FakeStore): (() => void) => {
+  const target = ExpoIapModule as Record<string, unknown>;
+  const originals = new Map<string, unknown>();
+  Object.keys(store.module).forEach((key) => {
+    originals.set(key, target[key]);
+    target[key] = store.module[key];
+  });
+
+  return () => {
+    originals.forEach((value, key) => {
+      if (value === undefined) {
+        delete target[key];
+      } else {
+        target[key] = value;
+      }
+    });
+  };
+};
@@ -0,0 +1,172 @@
+/**
+ * Scripted fault injection for the ExpoIap native bridge.
+ * Wraps native methods in place so error paths (connection failures, timeouts,
+ * dropped billing services) can be reproduced without a device.
+ */
+
+// Internal modules
+import ExpoIapModule from '../ExpoIapModule';
+import {OpenIapEvent} from '../index';
+import {createPurchaseError} from '../utils/errorMapping';
+
+// Types
+import type {ErrorCode, IapPlatform} from '../types';
+
+export interface FaultRule {
+  /** Wait this long before failing or calling through. */
+  delayMs?: number;
+  /** Reject the call with a `PurchaseError` carrying this code. */
+  error?: ErrorCode;
+  /** Message for `error` and `emitPurchaseError`. */
+  message?: string;
+  /** Emit a `purchase-error` event with this code before settling. */
+  emitPurchaseError?: ErrorCode;
+  /** Only apply to the Nth call of the method (1-based). */
+  onCall?: number;
+  /** Apply to at most this many calls. Unlimited when omitted. */
+  times?: number;
+}
+
+export type FaultPlan = Record<string, FaultRule | FaultRule[]>;
+
+export interface FaultInjectorOptions {
+  /** Object whose methods are wrapped. Defaults to the `ExpoIap` module. */
+  target?: Record<string, any>;
+  /** Platform stamped on injected errors. */
+  platform?: IapPlatform;
+}
+
+export interface FaultInjector {
+  addFault: (method: string, rule: FaultRule) => FaultInjector;
+  clearFaults: (method?: string) => void;
+  /** Number of calls seen since the method was first wrapped. */
+  getCallCount: (method: string) => number;
+  /** Unwrap every method and drop all rules. */
+  restore: () => void;
+}
+
+type ActiveRule = FaultRule & {applied: number};
+
+const wait = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+const matches = (rule: ActiveRule, call: number) => {
+  if (rule.onCall != null && rule.onCall !== call) {
+    return false;
+  }
+  return rule.times == null || rule.applied < rule.times;
+};
+
+/**
+ * Inject faults into native calls.
+ *
+ * @example
+ * ```typescript
+ * const faults = injectFaults({
+ *   initConnection: {error: ErrorCode.InitConnection, onCall: 1},
+ *   fetchProducts: {delayMs: 5000, error: ErrorCode.NetworkError},
+ *   requestPurchase: {
+ *     delayMs: 100,
+ *     error: ErrorCode.ServiceDisconnected,
+ *     emitPurchaseError: ErrorCode.ServiceDisconnected,
+ *   },
+ * });
+ *
+ * // ...exercise the app...
+ *
+ * faults.restore();
+ * ```
+ */
+export const injectFaults = (
+  plan: FaultPlan = {},
+  options: FaultInjectorOptions = {},
+): FaultInjector => {
+  const target = options.target ?? (ExpoIapModule as Record<string, any>);
+  const originals = new Map<string, (...args: any[]) => any>();
+  const rules = new Map<string, ActiveRule[]>();
+  const calls = new Map<string, number>();
+
+  const emitError = (code: ErrorCode, message: string) => {
+    if (typeof target.emit !== 'function') {
+      throw new Error(
+        'injectFaults: target cannot emit events; `emitPurchaseError` needs a module with `emit`',
+      );
+    }
+    target.emit(OpenIapEvent.PurchaseError, {
+      code,
+      message,
+      platform: options.platform,
+    });
+  };
+
+  const wrap = (method: string) => {
+    if (originals.has(method)) {
+      return;
+    }
+    const original = target[method];
+    if (typeof original !== 'function') {
+      throw new Error(`injectFaults: ${method} is not a native method`);
+    }
+    originals.set(method, original);
+    calls.set(method, 0);
+
+    target[method] = async (...args: any[]) => {
+      const call = (calls.get(method) ?? 0) + 1;
+      calls.set(method, call);
+
+      const rule = rules.get(method)?.find((item) => matches(item, call));
+      if (!rule) {
+        return original.apply(target, args);
+      }
+      rule.applied += 1;
+
+      if (rule.delayMs) {
+        await wait(rule.delayMs);
+      }
+      const message = rule.message ?? `Injected fault in ${method}`;
+      if (rule.emitPurchaseError) {
+        emitError(rule.emitPurchaseError, message);
+      }
+      if (rule.error) {
+        throw createPurchaseError({
+          code: rule.error,
+          message,
+          platform: options.platform,
+        });
+      }
+      return original.apply(target, args);
+    };
+  };
+
+  const injector: FaultInjector = {
+    addFault: (method, rule) => {
+      wrap(method);
+      rules.set(method, [...(rules.get(method) ?? []), {...rule, applied: 0}]);
+      return injector;
+    },
+    clearFaults: (method) => {
+      if (method) {
+        rules.delete(method);
+      } else {
+        rules.clear();
+      }
+    },
+    getCallCount: (method) => calls.get(method) ?? 0,
+    restore: () => {
+      originals.forEach((original, method) => {
+        target[method] = original;
+      });
+      originals.clear();
+      rules.clear();
+      calls.clear();
+    },
+  };
+
+  Object.entries(plan).forEach(([method, entry]) => {
+    (Array.isArray(entry) ? entry : [entry]).forEach((rule) =>
+      injector.addFault(method, rule),
+    );
+  });
+
+  return injector;
+};
@@ -0,0 +1,58 @@
+/**
+ * Test and diagnostics utilities for expo-iap.
+ * Import from `expo-iap/testing`; only the recorder is meant to run in app builds.
+ */
+
+export {createFakeStore, installFakeStore} from './fakeStore';
+export type {
+  FakeNativeModule,
+  FakePurchaseOutcome,
+  FakeStore,
+  FakeStoreEventListener,
+  FakeStoreOptions,
+  FakeStoreProduct,
+} from './fakeStore';
+
+export {injectFaults} from './faultInjection';
+export type {
+  FaultInjector,
+  FaultInjectorOptions,
+  FaultPlan,
+  FaultRule,
+} from './faultInjection';
+
+export {replaySession, startRecording} from './recorder';
+export type {
+  RecordedCall,
+  RecordedEntry,
+  RecordedEvent,
+  RecordedSession,
+  Recorder,
+  RecorderOptions,
+  Replayer,
+  ReplayOptions,
+} from './recorder';
+
+export {parseStoreKitConfig} from './storeKitConfig';
+export type {StoreKitConfigFile, StoreKitConfigOptions} from './storeKitConfig';
+
+export {
+  parsePlayConsoleProductsCsv,
+  parsePlayConsoleSubscriptions,
+} from './playConsole';
+export type {
+  PlayBasePlan,
+  PlayConsoleOptions,
+  PlayMonetizationExport,
+  PlaySubscription,
+  PlaySubscriptionOffer,
+} from './playConsole';
+
+export {createSubscriptionClock} from './subscriptionClock';
+export type {
+  SubscriptionClock,
+  SubscriptionClockOptions,
+  SubscriptionRenewalOutcome,
+  SubscriptionTransition,
+  SubscriptionTransitionType,
+} from './subscriptionClock';
@@ -0,0 +1,414 @@
+/**
+ * Importers for Google Play Console catalog exports.
+ * Reads the in-app product CSV export and the monetization JSON for
+ * subscriptions, producing the product shapes the native module returns.
+ */
+
+// Types
+import type {
+  PricingPhaseAndroid,
+  ProductAndroid,
+  ProductSubscriptionAndroid,
+  ProductSubscriptionAndroidOfferDetails,
+} from '../types';
+
+type PlayMoney = {
+  currencyCode: string;
+  units?: string | number;
+  nanos?: number;
+};
+
+type PlayRegionalConfig = {
+  regionCode: string;
+  price?: PlayMoney;
+  free?: Record<string, never>;
+  relativeDiscount?: number;
+  absoluteDiscount?: PlayMoney;
+};
+
+type PlayOfferTag = {tag: string};
+
+export interface PlayBasePlan {
+  basePlanId: string;
+  state?: string;
+  autoRenewingBasePlanType?: {billingPeriodDuration: string};
+  prepaidBasePlanType?: {billingPeriodDuration: string};
+  offerTags?: PlayOfferTag[];
+  regionalConfigs?: PlayRegionalConfig[];
+}
+
+export interface PlaySubscriptionOffer {
+  productId: string;
+  basePlanId: string;
+  offerId: string;
+  state?: string;
+  offerTags?: PlayOfferTag[];
+  phases: {
+    recurrenceCount: number;
+    duration: string;
+    regionalConfigs?: PlayRegionalConfig[];
+  }[];
+}
+
+export interface PlaySubscription {
+  productId: string;
+  listings?: {languageCode: string; title?: string; description?: string}[];
+  basePlans?: PlayBasePlan[];
+}
+
+/** Monetization API responses, as returned by `subscriptions.list` and `offers.list`. */
+export interface PlayMonetizationExport {
+  subscriptions?: PlaySubscription[];
+  subscriptionOffers?: PlaySubscriptionOffer[];
+  offers?: PlaySubscriptionOffer[];
+}
+
+export interface PlayConsoleOptions {
+  /** Region whose prices are used. Defaults to `US`. */
+  regionCode?: string;
+  /** Listing language, e.g. `en-US`. Falls back to the first listing. */
+  languageCode?: string;
+  /** Currency of CSV prices that are not listed per region. Defaults to `USD`. */
+  currency?: string;
+}
+
+/** `ProductDetails.RecurrenceMode` values from Play Billing. */
+const RECURRENCE_MODE = {
+  infinite: 1,
+  finite: 2,
+  nonRecurring: 3,
+};
+
+const invalid = (source: string, message: string): Error =>
+  new Error(`${source}: ${message}`);
+
+const sameLanguage = (left: string | undefined, right: string) =>
+  left?.replace('_', '-').toLowerCase() ===
+  right.replace('_', '-').toLowerCase();
+
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') {
+        index++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+};
+
+const createFormatter = (languageCode: string, currency: string) => {
+  const formatter = new Intl.NumberFormat(languageCode.replace('_', '-'), {
+    style: 'currency',
+    currency,
+  });
+  return (micros: number) => formatter.format(micros / 1_000_000);
+};
+
+/**
+ * Parse the Play Console in-app product CSV export.
+ *
+ * Columns: `Product ID`, `Published State`, `Purchase Type`, `Auto Translate`,
+ * `Locale; Title; Description`, `Auto Fill Prices`, `Price`.
+ *
+ * @example
+ * ```typescript
+ * const products = parsePlayConsoleProductsCsv(
+ *   fs.readFileSync('play/in_app_products.csv', 'utf8'),
+ * );
+ * ```
+ */
+export const parsePlayConsoleProductsCsv = (
+  csv: string,
+  options: PlayConsoleOptions = {},
+): ProductAndroid[] => {
+  const source = 'parsePlayConsoleProductsCsv';
+  const [header, ...rows] = parseCsv(csv);
+  if (!header) {
+    throw invalid(source, 'the export is empty');
+  }
+  const column = (name: string) => {
+    const index = header.findIndex((cell) =>
+      cell.trim().toLowerCase().startsWith(name.toLowerCase()),
+    );
+    if (index === -1) {
+      throw invalid(source, `missing "${name}" column`);
+    }
+    return index;
+  };
+  const idColumn = column('Product ID');
+  const stateColumn = column('Published State');
+  const localeColumn = column('Locale');
+  const priceColumn = column('Price');
+
+  const regionCode = options.regionCode ?? 'US';
+  const languageCode = options.languageCode ?? 'en-US';
+  const currency = options.currency ?? 'USD';
+  const format = createFormatter(languageCode, currency);
+
+  return rows
+    .filter((row) => row[stateColumn]?.trim() !== 'inactive')
+    .map((row): ProductAndroid => {
+      const id = row[idColumn]?.trim() ?? '';
+      const listings = (row[localeColumn] ?? '')
+        .split(';')
+        .map((part) => part.trim());
+      const listingIndex = Math.max(
+        0,
+        listings.findIndex(
+          (part, index) => index % 3 === 0 && sameLanguage(part, languageCode),
+        ),
+      );
+      const title = listings[listingIndex + 1] ?? id;
+      const description = listings[listingIndex + 2] ?? '';
+
+      const prices = (row[priceColumn] ?? '')
+        .split(';')
+        .map((part) => part.trim());
+      const regionIndex = prices.findIndex(
+        (part, index) => index % 2 === 0 && part === regionCode,
+      );
+      const micros = Number(
+        prices.length === 1 ? prices[0] : prices[regionIndex + 1],
+      );
+      if (!id || (prices.length > 1 && regionIndex === -1)) {
+        throw invalid(
+          source,
+          `${id || 'a row'} has no price for ${regionCode}`,
+        );
+      }
+      if (!Number.isFinite(micros)) {
+        throw invalid(source, `${id} has an invalid price`);
+      }
+
+      return {
+        id,
+        platform: 'android',
+        type: 'in-app',
+        title,
+        description,
+        displayName: title,
+        nameAndroid: title,
+        displayPrice: format(micros),
+        price: micros / 1_000_000,
+        currency,
+        oneTimePurchaseOfferDetailsAndroid: {
+          formattedPrice: format(micros),
+          priceAmountMicros: String(micros),
+          priceCurrencyCode: currency,
+        },
+        subscriptionOfferDetailsAndroid: null,
+      };
+    });
+};
+
+/**
+ * Parse Play monetization JSON (subscriptions plus their offers).
+ * Base plans and offers that are not `ACTIVE` are skipped. Offer tags include
+ * the base plan's tags, as Play Billing reports them.
+ *
+ * @example
+ * ```typescript
+ * const subscriptions = parsePlayConsoleSubscriptions({
+ *   subscriptions: require('./play/subscriptions.json').subscriptions,
+ *   offers: require('./play/offers.json').subscriptionOffers,
+ * });
+ * ```
+ */
+export const parsePlayConsoleSubscriptions = (
+  json: string | PlayMonetizationExport,
+  options: PlayConsoleOptions = {},
+): ProductSubscriptionAndroid[] => {
+  const source = 'parsePlayConsoleSubscriptions';
+  let data: PlayMonetizationExport;
+  try {
+    data = typeof json === 'string' ? JSON.parse(json) : json;
+  } catch (error) {
+    throw invalid(source, `invalid JSON (${(error as Error).message})`);
+  }
+  const regionCode = options.regionCode ?? 'US';
+  const languageCode = options.languageCode ?? 'en-US';
+  const offers = [...(data.subscriptionOffers ?? []), ...(data.offers ?? [])];
+  const isActive = (state?: string) => state == null || state === 'ACTIVE';
+
+  const toMicros = (money: PlayMoney) =>
+    Number(money.units ?? 0) * 1_000_000 +
+    Math.round((money.nanos ?? 0) / 1000);
+
+  const toPhase = (
+    micros: number,
+    currency: string,
+    billingPeriod: string,
+    billingCycleCount: number,
+    recurrenceMode: number,
+  ): PricingPhaseAndroid => ({
+    billingCycleCount,
+    billingPeriod,
+    formattedPrice: createFormatter(languageCode, currency)(micros),
+    priceAmountMicros: String(micros),
+    priceCurrencyCode: currency,
+    recurrenceMode,
+  });
+
+  return (data.subscriptions ?? []).map((subscription) => {
+    const {productId} = subscription;
+    const listing =
+      subscription.listings?.find((item) =>
+        sameLanguage(item.languageCode, languageCode),
+      ) ?? subscription.listings?.[0];
+    const title = listing?.title ?? productId;
+
+    const details = (subscription.basePlans ?? [])
+      .filter((basePlan) => isActive(basePlan.state))
+      .flatMap((basePlan): ProductSubscriptionAndroidOfferDetails[] => {
+        const {basePlanId} = basePlan;
+        const regional = basePlan.regionalConfigs?.find(
+          (config) => config.regionCode === regionCode,
+        );
+        if (!regional?.price) {
+          return [];
+        }
+        const currency = regional.price.currencyCode;
+        const baseMicros = toMicros(regional.price);
+        const prepaid = basePlan.prepaidBasePlanType;
+        const billingPeriod = (basePlan.autoRenewingBasePlanType ?? prepaid)
+          ?.billingPeriodDuration;
+        if (!billingPeriod) {
+          throw invalid(
+            source,
+            `${productId}/${basePlanId} has no billing period`,
+          );
+        }
+        const basePhase = prepaid
+          ? toPhase(
+              baseMicros,
+              currency,
+              billingPeriod,
+              1,
+              RECURRENCE_MODE.nonRecurring,
+            )
+          : toPhase(
+              baseMicros,
+              currency,
+              billingPeriod,
+              0,
+              RECURRENCE_MODE.infinite,
+            );
+        const baseTags = (basePlan.offerTags ?? []).map((item) => item.tag);
+
+        const offerDetails = offers
+          .filter(
+            (offer) =>
+              offer.productId === productId &&
+              offer.basePlanId === basePlanId &&
+              isActive(offer.state),
+          )
+          .map(
+            (offer): ProductSubscriptionAndroidOfferDetails => ({
+              basePlanId,
+              offerId: offer.offerId,
+              offerTags: [
+                ...baseTags,
+                ...(offer.offerTags ?? []).map((item) => item.tag),
+              ],
+              offerToken: `${productId}:${basePlanId}:${offer.offerId}`,
+              pricingPhases: {
+                pricingPhaseList: [
+                  ...offer.phases.map((phase) => {
+                    const config = phase.regionalConfigs?.find(
+                      (item) => item.regionCode === regionCode,
+                    );
+                    let micros = baseMicros;
+                    if (config?.free) {
+                      micros = 0;
+                    } else if (config?.price) {
+                      micros = toMicros(config.price);
+                    } else if (config?.relativeDiscount != null) {
+                      micros = Math.round(
+                        baseMicros * (1 - config.relativeDiscount),
+                      );
+                    } else if (config?.absoluteDiscount) {
+                      micros = baseMicros - toMicros(config.absoluteDiscount);
+                    }
+                    return toPhase(
+                      micros,
+                      currency,
+                      phase.duration,
+                      phase.recurrenceCount,
+                      RECURRENCE_MODE.finite,
+                    );
+                  }),
+                  basePhase,
+                ],
+              },
+            }),
+          );
+
+        return [
+          ...offerDetails,
+          {
+            basePlanId,
+            offerId: null,
+            offerTags: baseTags,
+            offerToken: `${productId}:${basePlanId}`,
+            pricingPhases: {pricingPhaseList: [basePhase]},
+          },
+        ];
+      });
+
+    const basePhase = details
+      .find((detail) => detail.offerId == null)
+      ?.pricingPhases.pricingPhaseList.at(-1);
+    if (!basePhase) {
+      throw invalid(
+        source,
+        `${productId} has no active base plan for ${regionCode}`,
+      );
+    }
+
+    return {
+      id: productId,
+      platform: 'android',
+      type: 'subs',
+      title,
+      description: listing?.description ?? '',
+      displayName: title,
+      nameAndroid: title,
+      displayPrice: basePhase.formattedPrice,
+      price: Number(basePhase.priceAmountMicros) / 1_000_000,
+      currency: basePhase.priceCurrencyCode,
+      oneTimePurchaseOfferDetailsAndroid: null,
+      subscriptionOfferDetailsAndroid: details,
+    };
+  });
+};
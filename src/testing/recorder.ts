@@ -0,0 +1,404 @@
+/**
+ * Record-and-replay of native calls and events.
+ * A recorder captures every `ExpoIap` call, result and `OpenIapEvent` into a
+ * JSON session with tokens redacted; a replayer feeds the session back so a
+ * field bug becomes a regression test.
+ */
+
+// Internal modules
+import ExpoIapModule from '../ExpoIapModule';
+import {OpenIapEvent} from '../index';
+import {createPurchaseError} from '../utils/errorMapping';
+
+// Types
+import type {IapPlatform} from '../types';
+
+export type RecordedCall = {
+  kind: 'call';
+  method: string;
+  args: unknown[];
+  /** Milliseconds since the session started. */
+  at: number;
+  durationMs: number;
+  result?: unknown;
+  error?: {code?: string; message: string};
+  /** Number of timeline entries recorded when the call settled. */
+  settledIndex: number;
+};
+
+export type RecordedEvent = {
+  kind: 'event';
+  event: OpenIapEvent;
+  payload: unknown;
+  at: number;
+};
+
+export type RecordedEntry = RecordedCall | RecordedEvent;
+
+export interface RecordedSession {
+  version: 1;
+  platform?: IapPlatform;
+  /** Epoch milliseconds when recording started. */
+  startedAt: number;
+  entries: RecordedEntry[];
+}
+
+export interface RecorderOptions {
+  target?: Record<string, any>;
+  platform?: IapPlatform;
+  /** Extra payload keys to redact on top of the token fields. */
+  redactKeys?: string[];
+  /** Disable redaction entirely (local debugging only). */
+  redact?: boolean;
+  now?: () => number;
+}
+
+export interface Recorder {
+  /** Snapshot of the session recorded so far. */
+  getSession: () => RecordedSession;
+  /** Stop recording, unwrap the module and return the session. */
+  stop: () => RecordedSession;
+}
+
+export interface ReplayOptions {
+  target?: Record<string, any>;
+  /** Throw when replayed arguments differ from the recorded ones. */
+  strictArgs?: boolean;
+}
+
+export interface Replayer {
+  /** Emit every event that has not been replayed yet. */
+  flush: () => void;
+  /** Recorded calls that have not been replayed. */
+  getRemainingCalls: () => RecordedCall[];
+  restore: () => void;
+}
+
+const NATIVE_METHODS = [
+  'initConnection',
+  'endConnection',
+  'fetchProducts',
+  'requestPurchase',
+  'finishTransaction',
+  'getAvailableItems',
+  'getActiveSubscriptions',
+  'hasActiveSubscriptions',
+  'getStorefront',
+  'acknowledgePurchaseAndroid',
+  'consumePurchaseAndroid',
+  'deepLinkToSubscriptionsAndroid',
+  'checkAlternativeBillingAvailabilityAndroid',
+  'showAlternativeBillingDialogAndroid',
+  'createAlternativeBillingTokenAndroid',
+  'syncIOS',
+  'isEligibleForIntroOfferIOS',
+  'subscriptionStatusIOS',
+  'currentEntitlementIOS',
+  'latestTransactionIOS',
+  'beginRefundRequestIOS',
+  'showManageSubscriptionsIOS',
+  'getReceiptDataIOS',
+  'isTransactionVerifiedIOS',
+  'getTransactionJwsIOS',
+  'validateReceiptIOS',
+  'presentCodeRedemptionSheetIOS',
+  'getAppTransactionIOS',
+  'getPromotedProductIOS',
+  'requestPurchaseOnPromotedProductIOS',
+  'getPendingTransactionsIOS',
+  'clearTransactionIOS',
+  'canPresentExternalPurchaseNoticeIOS',
+  'presentExternalPurchaseNoticeSheetIOS',
+  'presentExternalPurchaseLinkIOS',
+];
+
+const SENSITIVE_KEYS = [
+  'purchaseToken',
+  'purchaseTokenAndroid',
+  'jwsRepresentation',
+  'receiptData',
+  'signatureAndroid',
+  'dataAndroid',
+  'appAccountToken',
+  'obfuscatedAccountId',
+  'obfuscatedAccountIdAndroid',
+  'obfuscatedProfileId',
+  'obfuscatedProfileIdAndroid',
+  'externalTransactionToken',
+  'signature',
+  'nonce',
+  'deviceVerification',
+  'deviceVerificationNonce',
+];
+
+/** Positional arguments that carry tokens. */
+const SENSITIVE_ARGS: Record<string, number[]> = {
+  acknowledgePurchaseAndroid: [0],
+  consumePurchaseAndroid: [0],
+};
+
+const createRedactor = (keys: Set<string>, enabled: boolean) => {
+  const placeholders = new Map<string, string>();
+
+  const placeholder = (key: string, value: string) => {
+    const existing = placeholders.get(value);
+    if (existing) {
+      return existing;
+    }
+    const next = `[redacted:${key}:${placeholders.size + 1}]`;
+    placeholders.set(value, next);
+    return next;
+  };
+
+  const redact = (value: unknown, key?: string): unknown => {
+    if (!enabled) {
+      return value;
+    }
+    if (typeof value === 'string') {
+      if (key && keys.has(key)) {
+        return placeholder(key, value);
+      }
+      return placeholders.get(value) ?? value;
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => redact(item, key));
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([field, item]) => [
+          field,
+          redact(item, field),
+        ]),
+      );
+    }
+    return value;
+  };
+
+  return {redact, placeholder};
+};
+
+const toJsonValue = (value: unknown): unknown =>
+  value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+
+/**
+ * Start recording native calls and events.
+ *
+ * @example
+ * ```typescript
+ * const recorder = startRecording({platform: Platform.OS as IapPlatform});
+ * // ...reproduce the bug on a device...
+ * const session = recorder.stop();
+ * await uploadDiagnostics(JSON.stringify(session));
+ * ```
+ */
+export const startRecording = (options: RecorderOptions = {}): Recorder => {
+  const target = options.target ?? (ExpoIapModule as Record<string, any>);
+  const now = options.now ?? (() => Date.now());
+  const startedAt = now();
+  const entries: RecordedEntry[] = [];
+  const {redact, placeholder} = createRedactor(
+    new Set([...SENSITIVE_KEYS, ...(options.redactKeys ?? [])]),
+    options.redact !== false,
+  );
+  const originals = new Map<string, (...args: any[]) => any>();
+
+  const redactArgs = (method: string, args: unknown[]) =>
+    args.map((arg, index) =>
+      options.redact !== false &&
+      typeof arg === 'string' &&
+      SENSITIVE_ARGS[method]?.includes(index)
+        ? placeholder('purchaseToken', arg)
+        : redact(toJsonValue(arg)),
+    );
+
+  NATIVE_METHODS.forEach((method) => {
+    const original = target[method];
+    if (typeof original !== 'function') {
+      return;
+    }
+    originals.set(method, original);
+    target[method] = async (...args: unknown[]) => {
+      const entry: RecordedCall = {
+        kind: 'call',
+        method,
+        args: redactArgs(method, args),
+        at: now() - startedAt,
+        durationMs: 0,
+        settledIndex: 0,
+      };
+      entries.push(entry);
+      try {
+        const result = await original.apply(target, args);
+        entry.result = redact(toJsonValue(result));
+        return result;
+      } catch (error) {
+        const {code, message} = (error ?? {}) as {
+          code?: string;
+          message?: string;
+        };
+        entry.error = {code, message: message ?? String(error)};
+        throw error;
+      } finally {
+        entry.durationMs = now() - startedAt - entry.at;
+        entry.settledIndex = entries.length;
+      }
+    };
+  });
+
+  const subscriptions = Object.values(OpenIapEvent).map((event) =>
+    target.addListener?.(event, (payload: unknown) => {
+      entries.push({
+        kind: 'event',
+        event,
+        payload: redact(toJsonValue(payload)),
+        at: now() - startedAt,
+      });
+    }),
+  );
+
+  const getSession = (): RecordedSession => ({
+    version: 1,
+    platform: options.platform,
+    startedAt,
+    entries: toJsonValue(entries) as RecordedEntry[],
+  });
+
+  return {
+    getSession,
+    stop: () => {
+      originals.forEach((original, method) => {
+        target[method] = original;
+      });
+      originals.clear();
+      subscriptions.forEach((subscription) => subscription?.remove?.());
+      return getSession();
+    },
+  };
+};
+
+const sameJson = (left: unknown, right: unknown) =>
+  JSON.stringify(toJsonValue(left)) === JSON.stringify(toJsonValue(right));
+
+/**
+ * Replay a recorded session against `useIAP` and the root APIs.
+ * The replayer takes over the module's methods and event emitter. Calls
+ * resolve with the recorded results in order per method. Events recorded
+ * while a call was in flight fire before it settles; events recorded after it
+ * fire right after.
+ */
+export const replaySession = (
+  session: RecordedSession,
+  options: ReplayOptions = {},
+): Replayer => {
+  const target = options.target ?? (ExpoIapModule as Record<string, any>);
+  const entries = session.entries;
+  const replayed = new Set<number>();
+  const originals = new Map<string, unknown>();
+  const listeners = new Map<string, Set<(payload: unknown) => void>>();
+
+  const emit = (event: string, payload: unknown) => {
+    [...(listeners.get(event) ?? [])].forEach((listener) => listener(payload));
+  };
+
+  const emitUntil = (end: number) => {
+    entries.slice(0, end).forEach((entry, index) => {
+      if (entry.kind === 'event' && !replayed.has(index)) {
+        replayed.add(index);
+        emit(entry.event, toJsonValue(entry.payload));
+      }
+    });
+  };
+
+  const install = (key: string, value: unknown) => {
+    if (!originals.has(key)) {
+      originals.set(key, target[key]);
+    }
+    target[key] = value;
+  };
+
+  const removeListener = (
+    event: string,
+    listener: (payload: unknown) => void,
+  ) => {
+    listeners.get(event)?.delete(listener);
+  };
+  install(
+    'addListener',
+    (event: string, listener: (payload: unknown) => void) => {
+      listeners.set(event, (listeners.get(event) ?? new Set()).add(listener));
+      return {remove: () => removeListener(event, listener)};
+    },
+  );
+  install('removeListener', removeListener);
+  install('removeAllListeners', (event: string) => listeners.delete(event));
+  install('emit', emit);
+
+  const nextCallIndex = (index: number) => {
+    const next = entries.findIndex(
+      (entry, position) => position > index && entry.kind === 'call',
+    );
+    return next === -1 ? entries.length : next;
+  };
+
+  const methods = new Set(
+    entries
+      .filter((entry): entry is RecordedCall => entry.kind === 'call')
+      .map((entry) => entry.method),
+  );
+
+  new Set([...NATIVE_METHODS, ...methods]).forEach((method) => {
+    install(method, async (...args: unknown[]) => {
+      const index = entries.findIndex(
+        (entry, position) =>
+          entry.kind === 'call' &&
+          entry.method === method &&
+          !replayed.has(position),
+      );
+      if (index === -1) {
+        throw new Error(`replaySession: unexpected call to ${method}`);
+      }
+      const call = entries[index] as RecordedCall;
+      if (options.strictArgs && !sameJson(args, call.args)) {
+        throw new Error(
+          `replaySession: ${method} called with ${JSON.stringify(
+            args,
+          )}, recorded ${JSON.stringify(call.args)}`,
+        );
+      }
+      replayed.add(index);
+      emitUntil(call.settledIndex);
+      Promise.resolve().then(() =>
+        emitUntil(nextCallIndex(call.settledIndex - 1)),
+      );
+
+      if (call.error) {
+        throw createPurchaseError({
+          code: call.error.code,
+          message: call.error.message,
+          platform: session.platform,
+        });
+      }
+      return toJsonValue(call.result);
+    });
+  });
+
+  return {
+    flush: () => emitUntil(entries.length),
+    getRemainingCalls: () =>
+      entries.filter(
+        (entry, index): entry is RecordedCall =>
+          entry.kind === 'call' && !replayed.has(index),
+      ),
+    restore: () => {
+      originals.forEach((value, method) => {
+        if (value === undefined) {
+          delete target[method];
+        } else {
+          target[method] = value;
+        }
+      });
+      originals.clear();
+      listeners.clear();
+    },
+  };
+};
@@ -0,0 +1,256 @@
+/**
+ * Parser for Xcode StoreKit configuration files (`.storekit`).
+ * Maps the JSON Xcode writes to the `ProductIOS` / `ProductSubscriptionIOS`
+ * shapes the native module returns, so tests share Xcode's catalog.
+ */
+
+// Types
+import type {
+  DiscountIOS,
+  PaymentModeIOS,
+  ProductIOS,
+  ProductSubscriptionIOS,
+  ProductTypeIOS,
+  SubscriptionOfferIOS,
+  SubscriptionPeriodValueIOS,
+} from '../types';
+
+type StoreKitLocalization = {
+  locale?: string;
+  displayName?: string;
+  description?: string;
+};
+
+type StoreKitOffer = {
+  internalID?: string;
+  offerID?: string;
+  displayPrice?: string;
+  numberOfPeriods?: number;
+  paymentMode?: string;
+  subscriptionPeriod?: string;
+};
+
+type StoreKitProduct = {
+  productID: string;
+  referenceName?: string;
+  type: string;
+  displayPrice?: string;
+  familyShareable?: boolean;
+  localizations?: StoreKitLocalization[];
+  subscriptionGroupID?: string;
+  recurringSubscriptionPeriod?: string;
+  introductoryOffer?: StoreKitOffer | null;
+  adHocOffers?: StoreKitOffer[];
+};
+
+export interface StoreKitConfigFile {
+  products?: StoreKitProduct[];
+  nonRenewingSubscriptions?: StoreKitProduct[];
+  subscriptionGroups?: {
+    id: string;
+    name?: string;
+    subscriptions?: StoreKitProduct[];
+  }[];
+  settings?: Record<string, unknown>;
+}
+
+export interface StoreKitConfigOptions {
+  /** Localization to read, e.g. `en_US`. Falls back to the first one. */
+  locale?: string;
+  /** ISO 4217 code; `.storekit` files do not store one. Defaults to `USD`. */
+  currency?: string;
+}
+
+const PRODUCT_TYPES: Record<string, ProductTypeIOS> = {
+  Consumable: 'consumable',
+  NonConsumable: 'non-consumable',
+  NonRenewingSubscription: 'non-renewing-subscription',
+  RecurringSubscription: 'auto-renewable-subscription',
+};
+
+const PAYMENT_MODES: Record<string, PaymentModeIOS> = {
+  free: 'free-trial',
+  payAsYouGo: 'pay-as-you-go',
+  payUpFront: 'pay-up-front',
+};
+
+const PERIOD_UNITS: Record<string, SubscriptionPeriodValueIOS['unit']> = {
+  D: 'day',
+  W: 'week',
+  M: 'month',
+  Y: 'year',
+};
+
+const invalid = (message: string): Error =>
+  new Error(`parseStoreKitConfig: ${message}`);
+
+const parsePeriod = (
+  period: string | undefined,
+  productId: string,
+): SubscriptionPeriodValueIOS => {
+  const match = /^P(\d+)([DWMY])$/.exec(period ?? '');
+  if (!match) {
+    throw invalid(`${productId} has an unsupported period "${period}"`);
+  }
+  return {unit: PERIOD_UNITS[match[2]!]!, value: Number(match[1])};
+};
+
+/**
+ * Parse a `.storekit` file into products.
+ *
+ * @example
+ * ```typescript
+ * import config from '../ios/Products.storekit.json';
+ *
+ * const store = createFakeStore({products: parseStoreKitConfig(config)});
+ * ```
+ */
+export const parseStoreKitConfig = (
+  config: string | StoreKitConfigFile,
+  options: StoreKitConfigOptions = {},
+): (ProductIOS | ProductSubscriptionIOS)[] => {
+  let file: StoreKitConfigFile;
+  try {
+    file = typeof config === 'string' ? JSON.parse(config) : config;
+  } catch (error) {
+    throw invalid(`invalid JSON (${(error as Error).message})`);
+  }
+  if (!file || typeof file !== 'object') {
+    throw invalid('expected a StoreKit configuration object');
+  }
+
+  const locale = options.locale ?? 'en_US';
+  const currency = options.currency ?? 'USD';
+  const formatter = new Intl.NumberFormat(locale.replace('_', '-'), {
+    style: 'currency',
+    currency,
+  });
+
+  const amountOf = (value: string | undefined) => {
+    const amount = Number(value ?? 0);
+    return Number.isFinite(amount) ? amount : 0;
+  };
+
+  const toOffer = (
+    offer: StoreKitOffer,
+    type: SubscriptionOfferIOS['type'],
+    productId: string,
+  ): SubscriptionOfferIOS => {
+    const paymentMode = PAYMENT_MODES[offer.paymentMode ?? ''];
+    if (!paymentMode) {
+      throw invalid(
+        `${productId} has an unsupported payment mode "${offer.paymentMode}"`,
+      );
+    }
+    const price =
+      paymentMode === 'free-trial' ? 0 : amountOf(offer.displayPrice);
+    return {
+      id: offer.offerID ?? offer.internalID ?? '',
+      displayPrice: formatter.format(price),
+      paymentMode,
+      period: parsePeriod(offer.subscriptionPeriod, productId),
+      periodCount: offer.numberOfPeriods ?? 1,
+      price,
+      type,
+    };
+  };
+
+  const toDiscount = (
+    offer: SubscriptionOfferIOS,
+    source: StoreKitOffer,
+  ): DiscountIOS => ({
+    identifier: offer.id,
+    localizedPrice: offer.displayPrice,
+    numberOfPeriods: offer.periodCount,
+    paymentMode: offer.paymentMode,
+    price: String(offer.price),
+    priceAmount: offer.price,
+    subscriptionPeriod: source.subscriptionPeriod ?? '',
+    type: offer.type,
+  });
+
+  const toProduct = (
+    entry: StoreKitProduct,
+  ): ProductIOS | ProductSubscriptionIOS => {
+    const typeIOS = PRODUCT_TYPES[entry.type];
+    if (!entry.productID || !typeIOS) {
+      throw invalid(
+        `${entry.productID ?? 'product'} has an unsupported type "${
+          entry.type
+        }"`,
+      );
+    }
+    const localization =
+      entry.localizations?.find((item) => item.locale === locale) ??
+      entry.localizations?.[0];
+    const displayName = localization?.displayName ?? entry.referenceName ?? '';
+    const price = amountOf(entry.displayPrice);
+    const base = {
+      id: entry.productID,
+      platform: 'ios' as const,
+      title: displayName,
+      description: localization?.description ?? '',
+      displayName,
+      displayNameIOS: displayName,
+      displayPrice: formatter.format(price),
+      price,
+      currency,
+      isFamilyShareableIOS: entry.familyShareable ?? false,
+      jsonRepresentationIOS: JSON.stringify(entry),
+      typeIOS,
+    };
+
+    if (typeIOS !== 'auto-renewable-subscription') {
+      return {...base, type: 'in-app'};
+    }
+
+    const period = parsePeriod(
+      entry.recurringSubscriptionPeriod,
+      entry.productID,
+    );
+    const introductoryOffer = entry.introductoryOffer
+      ? toOffer(entry.introductoryOffer, 'introductory', entry.productID)
+      : null;
+    const promotionalOffers = (entry.adHocOffers ?? []).map((offer) =>
+      toOffer(offer, 'promotional', entry.productID),
+    );
+
+    return {
+      ...base,
+      type: 'subs',
+      subscriptionInfoIOS: {
+        subscriptionGroupId: entry.subscriptionGroupID ?? '',
+        subscriptionPeriod: period,
+        introductoryOffer,
+        promotionalOffers,
+      },
+      subscriptionPeriodNumberIOS: String(period.value),
+      subscriptionPeriodUnitIOS: period.unit,
+      discountsIOS: promotionalOffers.map((offer, index) =>
+        toDiscount(offer, entry.adHocOffers![index]!),
+      ),
+      introductoryPricePaymentModeIOS:
+        introductoryOffer?.paymentMode ?? 'empty',
+      introductoryPriceIOS: introductoryOffer?.displayPrice ?? null,
+      introductoryPriceAsAmountIOS:
+        introductoryOffer != null ? String(introductoryOffer.price) : null,
+      introductoryPriceNumberOfPeriodsIOS:
+        introductoryOffer != null
+          ? String(introductoryOffer.periodCount)
+          : null,
+      introductoryPriceSubscriptionPeriodIOS:
+        introductoryOffer?.period.unit ?? null,
+    };
+  };
+
+  return [
+    ...(file.products ?? []),
+    ...(file.nonRenewingSubscriptions ?? []),
+    ...(file.subscriptionGroups ?? []).flatMap((group) =>
+      (group.subscriptions ?? []).map((subscription) => ({
+        ...subscription,
+        subscriptionGroupID: subscription.subscriptionGroupID ?? group.id,
+      })),
+    ),
+  ].map(toProduct);
+};
@@ -0,0 +1,370 @@
+/**
+ * Virtual clock for subscription lifecycles.
+ * Drives a fake store through renewals, lapses, grace periods, billing retry
+ * and expiry so time-dependent subscription code can be tested.
+ */
+
+// Internal modules
+import {OpenIapEvent} from '../index';
+import {DAY_MS, transactionIdOf} from '../utils/purchaseLedger';
+import {periodToMs, subscriptionPeriodOf, type FakeStore} from './fakeStore';
+
+// Types
+import type {Purchase, PurchaseAndroid, PurchaseIOS} from '../types';
+
+/**
+ * What happens when a subscription reaches the end of its period.
+ * - `renew`: the store charges the user and a new period starts
+ * - `cancel`: auto-renew was turned off, so the subscription lapses
+ * - `billing-failure`: the charge fails; grace period, then billing retry
+ */
+export type SubscriptionRenewalOutcome = 'renew' | 'cancel' | 'billing-failure';
+
+export type SubscriptionTransitionType =
+  | 'renewed'
+  | 'lapsed'
+  | 'grace-period'
+  | 'billing-retry'
+  | 'recovered'
+  | 'expired';
+
+export interface SubscriptionTransition {
+  type: SubscriptionTransitionType;
+  productId: string;
+  /** Virtual time of the transition. */
+  at: number;
+  purchase: Purchase;
+}
+
+export interface SubscriptionClockOptions {
+  /** Initial virtual time. Defaults to `Date.now()`. */
+  start?: number;
+  /** Access kept after a failed renewal. Defaults to 3 days; 0 disables it. */
+  gracePeriodMs?: number;
+  /** How long the store retries billing after the period ends. Defaults to 60 days. */
+  billingRetryMs?: number;
+  onTransition?: (transition: SubscriptionTransition) => void;
+}
+
+export interface SubscriptionClock {
+  /** Pass to `createFakeStore({now: clock.now})`. */
+  now: () => number;
+  /** Start driving the subscriptions owned by `store`. */
+  attach: (store: FakeStore) => void;
+  /** Move time forward, applying every transition that falls due. */
+  advance: (ms: number) => SubscriptionTransition[];
+  advanceTo: (time: number) => SubscriptionTransition[];
+  /** Script the next renewals of a product. Unscripted renewals follow auto-renew. */
+  queueRenewal: (
+    productId: string,
+    ...outcomes: SubscriptionRenewalOutcome[]
+  ) => void;
+  /** Fix the payment method of a subscription in grace or billing retry. */
+  resolveBillingIssue: (productId: string) => Purchase | null;
+  getTransitions: () => SubscriptionTransition[];
+}
+
+type Phase = 'active' | 'grace-period' | 'billing-retry';
+
+type TrackedSubscription = {
+  productId: string;
+  purchase: Purchase;
+  /** Removed from the store while on Android account hold. */
+  held: boolean;
+  phase: Phase;
+  expiresAt: number;
+  deadline: number;
+  renewals: number;
+};
+
+/**
+ * Create a virtual subscription clock.
+ * Renewals and recoveries create a new transaction and emit `purchase-updated`.
+ * Grace periods, billing retry, lapses and expiry change what the store reports
+ * (`getActiveSubscriptions`, `subscriptionStatusIOS`) and are reported through
+ * `onTransition`.
+ *
+ * @example
+ * ```typescript
+ * const clock = createSubscriptionClock({start: Date.UTC(2025, 0, 1)});
+ * const store = createFakeStore({products: [premium], now: clock.now});
+ * clock.attach(store);
+ *
+ * // ...purchase premium...
+ * clock.queueRenewal('premium', 'billing-failure');
+ * clock.advance(31 * DAY_MS); // enters the grace period
+ * ```
+ */
+export const createSubscriptionClock = (
+  options: SubscriptionClockOptions = {},
+): SubscriptionClock => {
+  const gracePeriodMs = options.gracePeriodMs ?? 3 * DAY_MS;
+  const billingRetryMs = options.billingRetryMs ?? 60 * DAY_MS;
+  let current = options.start ?? Date.now();
+  let store: FakeStore | null = null;
+  let tracked: TrackedSubscription[] = [];
+  const queued = new Map<string, SubscriptionRenewalOutcome[]>();
+  const transitions: SubscriptionTransition[] = [];
+
+  const attached = (): FakeStore => {
+    if (!store) {
+      throw new Error('createSubscriptionClock: attach a fake store first');
+    }
+    return store;
+  };
+
+  const periodMs = (purchase: Purchase) =>
+    periodToMs(
+      subscriptionPeriodOf(
+        attached()
+          .getProducts()
+          .find((product) => product.id === purchase.productId),
+        purchase.currentPlanId,
+      ),
+    );
+
+  const isSubscription = (productId: string) =>
+    attached()
+      .getProducts()
+      .some((product) => product.id === productId && product.type === 'subs');
+
+  const sync = () => {
+    const owned = attached().getPurchases();
+    // Drop subscriptions the test removed or replaced behind the clock's back.
+    tracked = tracked.filter(
+      (entry) =>
+        entry.held ||
+        owned.some(
+          (purchase) =>
+            transactionIdOf(purchase) === transactionIdOf(entry.purchase),
+        ),
+    );
+    owned.forEach((purchase) => {
+      if (
+        !isSubscription(purchase.productId) ||
+        purchase.purchaseState !== 'purchased' ||
+        tracked.some((entry) => entry.purchase === purchase)
+      ) {
+        return;
+      }
+      const existing = tracked.find(
+        (entry) =>
+          transactionIdOf(entry.purchase) === transactionIdOf(purchase),
+      );
+      if (existing) {
+        existing.purchase = purchase;
+        return;
+      }
+      const expiresAt =
+        (purchase as PurchaseIOS).expirationDateIOS ??
+        purchase.transactionDate + periodMs(purchase);
+      tracked.push({
+        productId: purchase.productId,
+        purchase,
+        held: false,
+        phase: 'active',
+        expiresAt,
+        deadline: expiresAt,
+        renewals: 0,
+      });
+    });
+  };
+
+  const record = (
+    type: SubscriptionTransitionType,
+    entry: TrackedSubscription,
+  ) => {
+    const transition = {
+      type,
+      productId: entry.productId,
+      at: current,
+      purchase: entry.purchase,
+    };
+    transitions.push(transition);
+    options.onTransition?.(transition);
+    return transition;
+  };
+
+  const untrack = (entry: TrackedSubscription) => {
+    tracked = tracked.filter((item) => item !== entry);
+  };
+
+  const patchRenewalInfoIOS = (
+    entry: TrackedSubscription,
+    patch: Partial<NonNullable<PurchaseIOS['renewalInfoIOS']>>,
+  ) => {
+    if (entry.purchase.platform !== 'ios' || entry.held) {
+      return;
+    }
+    const ios = entry.purchase as PurchaseIOS;
+    entry.purchase = attached().updatePurchase(transactionIdOf(ios), {
+      renewalInfoIOS: {
+        willAutoRenew: ios.isAutoRenewing,
+        autoRenewPreference: ios.productId,
+        renewalDate: entry.expiresAt,
+        ...ios.renewalInfoIOS,
+        ...patch,
+      },
+    });
+  };
+
+  const renew = (entry: TrackedSubscription, type: 'renewed' | 'recovered') => {
+    const fake = attached();
+    const previous = entry.purchase;
+    entry.renewals += 1;
+
+    if (previous.platform === 'ios') {
+      const ios = previous as PurchaseIOS;
+      if (!entry.held) {
+        fake.removePurchase(transactionIdOf(ios));
+      }
+      entry.purchase = fake.addPurchase(ios.productId, {
+        originalTransactionIdentifierIOS:
+          ios.originalTransactionIdentifierIOS ?? transactionIdOf(ios),
+        originalTransactionDateIOS:
+          ios.originalTransactionDateIOS ?? ios.transactionDate,
+        subscriptionGroupIdIOS: ios.subscriptionGroupIdIOS,
+        transactionReasonIOS: 'RENEWAL',
+      });
+      entry.expiresAt = (entry.purchase as PurchaseIOS).expirationDateIOS!;
+    } else {
+      const android = previous as PurchaseAndroid;
+      const orderId = `${transactionIdOf(android).replace(/\.\.\d+$/, '')}..${
+        entry.renewals - 1
+      }`;
+      const patch: Partial<PurchaseIOS & PurchaseAndroid> = {
+        id: orderId,
+        transactionId: orderId,
+        transactionDate: current,
+        isAcknowledgedAndroid: true,
+        dataAndroid: JSON.stringify({
+          ...JSON.parse(android.dataAndroid ?? '{}'),
+          orderId,
+          purchaseTime: current,
+        }),
+      };
+      entry.purchase = entry.held
+        ? fake.addPurchase(android.productId, {
+            ...(android as Partial<PurchaseIOS & PurchaseAndroid>),
+            ...patch,
+          })
+        : fake.updatePurchase(transactionIdOf(android), patch);
+      entry.expiresAt = current + periodMs(entry.purchase);
+    }
+
+    entry.held = false;
+    entry.phase = 'active';
+    entry.deadline = entry.expiresAt;
+    fake.emit(OpenIapEvent.PurchaseUpdated, entry.purchase);
+    return record(type, entry);
+  };
+
+  const enterBillingRetry = (entry: TrackedSubscription) => {
+    entry.phase = 'billing-retry';
+    entry.deadline = entry.expiresAt + billingRetryMs;
+    patchRenewalInfoIOS(entry, {
+      gracePeriodExpirationDate: null,
+      isInBillingRetry: true,
+      expirationReason: 'BILLING_ERROR',
+    });
+    if (entry.purchase.platform === 'android') {
+      // Play puts the subscription on account hold and stops returning it.
+      attached().removePurchase(transactionIdOf(entry.purchase));
+      entry.held = true;
+    }
+    return record('billing-retry', entry);
+  };
+
+  const end = (entry: TrackedSubscription, type: 'lapsed' | 'expired') => {
+    patchRenewalInfoIOS(entry, {
+      willAutoRenew: false,
+      isInBillingRetry: false,
+      gracePeriodExpirationDate: null,
+      expirationReason: type === 'lapsed' ? 'VOLUNTARY' : 'BILLING_ERROR',
+    });
+    if (!entry.held) {
+      attached().removePurchase(transactionIdOf(entry.purchase));
+    }
+    untrack(entry);
+    return record(type, entry);
+  };
+
+  const process = (entry: TrackedSubscription) => {
+    if (entry.phase === 'grace-period') {
+      return enterBillingRetry(entry);
+    }
+    if (entry.phase === 'billing-retry') {
+      return end(entry, 'expired');
+    }
+
+    const outcome =
+      queued.get(entry.productId)?.shift() ??
+      (entry.purchase.isAutoRenewing ? 'renew' : 'cancel');
+    if (outcome === 'renew') {
+      return renew(entry, 'renewed');
+    }
+    if (outcome === 'cancel') {
+      return end(entry, 'lapsed');
+    }
+    if (gracePeriodMs <= 0) {
+      return enterBillingRetry(entry);
+    }
+    entry.phase = 'grace-period';
+    entry.deadline = entry.expiresAt + gracePeriodMs;
+    patchRenewalInfoIOS(entry, {
+      gracePeriodExpirationDate: entry.deadline,
+      isInBillingRetry: true,
+      expirationReason: 'BILLING_ERROR',
+    });
+    return record('grace-period', entry);
+  };
+
+  const advanceTo = (time: number) => {
+    const applied: SubscriptionTransition[] = [];
+    if (store) {
+      for (;;) {
+        sync();
+        const next = [...tracked].sort((a, b) => a.deadline - b.deadline)[0];
+        if (!next || next.deadline > time) {
+          break;
+        }
+        current = Math.max(current, next.deadline);
+        applied.push(process(next));
+      }
+    }
+    current = Math.max(current, time);
+    return applied;
+  };
+
+  return {
+    now: () => current,
+    attach: (next) => {
+      store = next;
+      tracked = [];
+      sync();
+    },
+    advance: (ms) => advanceTo(current + ms),
+    advanceTo,
+    queueRenewal: (productId, ...outcomes) => {
+      queued.set(productId, [...(queued.get(productId) ?? []), ...outcomes]);
+    },
+    resolveBillingIssue: (productId) => {
+      sync();
+      const entry = tracked.find(
+        (item) => item.productId === productId && item.phase !== 'active',
+      );
+      if (!entry) {
+        return null;
+      }
+      if (entry.purchase.platform === 'ios' && !entry.held) {
+        patchRenewalInfoIOS(entry, {
+          gracePeriodExpirationDate: null,
+          isInBillingRetry: false,
+          expirationReason: null,
+        });
+      }
+      return renew(entry, 'recovered').purchase;
+    },
+    getTransitions: () => [...transitions],
+  };
+};
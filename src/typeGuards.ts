@@ -0,0 +1,619 @@
+// ============================================================================
+// AUTO-GENERATED TYPE GUARDS — DO NOT EDIT DIRECTLY
+// Run `bun run generate:types` to regenerate from src/types.ts.
+// ============================================================================
+
+import {ErrorCode} from './types';
+import type {
+  AlternativeBillingModeAndroid,
+  ExternalPurchaseNoticeAction,
+  IapEvent,
+  IapPlatform,
+  PaymentModeIOS,
+  ProductQueryType,
+  ProductSubscriptionAndroid,
+  ProductSubscriptionIOS,
+  ProductType,
+  ProductTypeIOS,
+  PurchaseAndroid,
+  PurchaseIOS,
+  PurchaseState,
+  ReceiptValidationResultAndroid,
+  ReceiptValidationResultIOS,
+  SubscriptionOfferTypeIOS,
+  SubscriptionPeriodIOS,
+} from './types';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+const ERROR_CODE_VALUES: ReadonlySet<string> = new Set(
+  Object.values(ErrorCode),
+);
+
+/** Whether `value` is a member of the `ErrorCode` enum. */
+export const isErrorCode = (value: unknown): value is ErrorCode =>
+  typeof value === 'string' && ERROR_CODE_VALUES.has(value);
+
+const ALTERNATIVE_BILLING_MODE_ANDROID_VALUES: ReadonlySet<string> = new Set([
+  'none',
+  'user-choice',
+  'alternative-only',
+]);
+
+/** Whether `value` is a valid `AlternativeBillingModeAndroid`. */
+export const isAlternativeBillingModeAndroid = (value: unknown): value is AlternativeBillingModeAndroid =>
+  typeof value === 'string' && ALTERNATIVE_BILLING_MODE_ANDROID_VALUES.has(value);
+
+const EXTERNAL_PURCHASE_NOTICE_ACTION_VALUES: ReadonlySet<string> = new Set([
+  'continue',
+  'dismissed',
+]);
+
+/** Whether `value` is a valid `ExternalPurchaseNoticeAction`. */
+export const isExternalPurchaseNoticeAction = (value: unknown): value is ExternalPurchaseNoticeAction =>
+  typeof value === 'string' && EXTERNAL_PURCHASE_NOTICE_ACTION_VALUES.has(value);
+
+const IAP_EVENT_VALUES: ReadonlySet<string> = new Set([
+  'purchase-updated',
+  'purchase-error',
+  'promoted-product-ios',
+  'user-choice-billing-android',
+]);
+
+/** Whether `value` is a valid `IapEvent`. */
+export const isIapEvent = (value: unknown): value is IapEvent =>
+  typeof value === 'string' && IAP_EVENT_VALUES.has(value);
+
+const IAP_PLATFORM_VALUES: ReadonlySet<string> = new Set([
+  'ios',
+  'android',
+]);
+
+/** Whether `value` is a valid `IapPlatform`. */
+export const isIapPlatform = (value: unknown): value is IapPlatform =>
+  typeof value === 'string' && IAP_PLATFORM_VALUES.has(value);
+
+const PAYMENT_MODE_IOS_VALUES: ReadonlySet<string> = new Set([
+  'empty',
+  'free-trial',
+  'pay-as-you-go',
+  'pay-up-front',
+]);
+
+/** Whether `value` is a valid `PaymentModeIOS`. */
+export const isPaymentModeIOS = (value: unknown): value is PaymentModeIOS =>
+  typeof value === 'string' && PAYMENT_MODE_IOS_VALUES.has(value);
+
+const PRODUCT_QUERY_TYPE_VALUES: ReadonlySet<string> = new Set([
+  'in-app',
+  'subs',
+  'all',
+]);
+
+/** Whether `value` is a valid `ProductQueryType`. */
+export const isProductQueryType = (value: unknown): value is ProductQueryType =>
+  typeof value === 'string' && PRODUCT_QUERY_TYPE_VALUES.has(value);
+
+const PRODUCT_TYPE_VALUES: ReadonlySet<string> = new Set([
+  'in-app',
+  'subs',
+]);
+
+/** Whether `value` is a valid `ProductType`. */
+export const isProductType = (value: unknown): value is ProductType =>
+  typeof value === 'string' && PRODUCT_TYPE_VALUES.has(value);
+
+const PRODUCT_TYPE_IOS_VALUES: ReadonlySet<string> = new Set([
+  'consumable',
+  'non-consumable',
+  'auto-renewable-subscription',
+  'non-renewing-subscription',
+]);
+
+/** Whether `value` is a valid `ProductTypeIOS`. */
+export const isProductTypeIOS = (value: unknown): value is ProductTypeIOS =>
+  typeof value === 'string' && PRODUCT_TYPE_IOS_VALUES.has(value);
+
+const PURCHASE_STATE_VALUES: ReadonlySet<string> = new Set([
+  'pending',
+  'purchased',
+  'failed',
+  'restored',
+  'deferred',
+  'unknown',
+]);
+
+/** Whether `value` is a valid `PurchaseState`. */
+export const isPurchaseState = (value: unknown): value is PurchaseState =>
+  typeof value === 'string' && PURCHASE_STATE_VALUES.has(value);
+
+const SUBSCRIPTION_OFFER_TYPE_IOS_VALUES: ReadonlySet<string> = new Set([
+  'introductory',
+  'promotional',
+]);
+
+/** Whether `value` is a valid `SubscriptionOfferTypeIOS`. */
+export const isSubscriptionOfferTypeIOS = (value: unknown): value is SubscriptionOfferTypeIOS =>
+  typeof value === 'string' && SUBSCRIPTION_OFFER_TYPE_IOS_VALUES.has(value);
+
+const SUBSCRIPTION_PERIOD_IOS_VALUES: ReadonlySet<string> = new Set([
+  'day',
+  'week',
+  'month',
+  'year',
+  'empty',
+]);
+
+/** Whether `value` is a valid `SubscriptionPeriodIOS`. */
+export const isSubscriptionPeriodIOS = (value: unknown): value is SubscriptionPeriodIOS =>
+  typeof value === 'string' && SUBSCRIPTION_PERIOD_IOS_VALUES.has(value);
+
+/** Whether `value` is the `ProductSubscriptionAndroid` variant of `ProductSubscription`. */
+export const isProductSubscriptionAndroid = (value: unknown): value is ProductSubscriptionAndroid =>
+  isRecord(value) &&
+  value.platform === 'android' &&
+  value.type === 'subs';
+
+/** Whether `value` is the `ProductSubscriptionIOS` variant of `ProductSubscription`. */
+export const isProductSubscriptionIOS = (value: unknown): value is ProductSubscriptionIOS =>
+  isRecord(value) &&
+  value.platform === 'ios' &&
+  value.type === 'subs';
+
+/** Whether `value` is the `PurchaseAndroid` variant of `Purchase`. */
+export const isPurchaseAndroid = (value: unknown): value is PurchaseAndroid =>
+  isRecord(value) &&
+  value.platform === 'android';
+
+/** Whether `value` is the `PurchaseIOS` variant of `Purchase`. */
+export const isPurchaseIOS = (value: unknown): value is PurchaseIOS =>
+  isRecord(value) &&
+  value.platform === 'ios';
+
+/** Whether `value` is the `ReceiptValidationResultAndroid` variant of `ReceiptValidationResult`. */
+export const isReceiptValidationResultAndroid = (value: unknown): value is ReceiptValidationResultAndroid =>
+  isRecord(value) &&
+  'autoRenewing' in value;
+
+/** Whether `value` is the `ReceiptValidationResultIOS` variant of `ReceiptValidationResult`. */
+export const isReceiptValidationResultIOS = (value: unknown): value is ReceiptValidationResultIOS =>
+  isRecord(value) &&
+  'isValid' in value;
+
+/** A value that does not match its declared type. */
+export interface TypeIssue {
+  /** JSON path of the offending field, e.g. `$[0].price`. */
+  path: string;
+  message: string;
+}
+
+type Validator = (value: unknown, path: string, issues: TypeIssue[]) => void;
+
+const typeName = (value: unknown) =>
+  value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+const primitive =
+  (type: 'string' | 'number' | 'boolean'): Validator =>
+  (value, path, issues) => {
+    if (
+      typeof value !== type ||
+      (type === 'number' && Number.isNaN(value as number))
+    ) {
+      issues.push({path, message: `expected ${type}, received ${typeName(value)}`});
+    }
+  };
+
+const checkString = primitive('string');
+const checkNumber = primitive('number');
+const checkBoolean = primitive('boolean');
+
+const oneOf =
+  (values: ReadonlySet<string>): Validator =>
+  (value, path, issues) => {
+    if (typeof value !== 'string' || !values.has(value)) {
+      issues.push({
+        path,
+        message: `expected one of ${[...values]
+          .map((item) => `'${item}'`)
+          .join(', ')}, received ${JSON.stringify(value)}`,
+      });
+    }
+  };
+
+/** Accepts `null` and `undefined`, like the `?: (T | null)` fields. */
+const optional =
+  (validator: Validator): Validator =>
+  (value, path, issues) => {
+    if (value != null) {
+      validator(value, path, issues);
+    }
+  };
+
+const arrayOf =
+  (validator: Validator): Validator =>
+  (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push({path, message: `expected array, received ${typeName(value)}`});
+      return;
+    }
+    value.forEach((item, index) => validator(item, `${path}[${index}]`, issues));
+  };
+
+const shape =
+  (fields: Record<string, Validator>): Validator =>
+  (value, path, issues) => {
+    if (!isRecord(value) || Array.isArray(value)) {
+      issues.push({path, message: `expected object, received ${typeName(value)}`});
+      return;
+    }
+    Object.entries(fields).forEach(([field, validator]) =>
+      validator(value[field], `${path}.${field}`, issues),
+    );
+  };
+
+/** Validates against the union member whose discriminator matches. */
+const variants =
+  (
+    name: string,
+    members: [(value: Record<string, unknown>) => boolean, Validator][],
+  ): Validator =>
+  (value, path, issues) => {
+    const member = isRecord(value)
+      ? members.find(([matches]) => matches(value))
+      : undefined;
+    if (!member) {
+      issues.push({
+        path,
+        message: `expected ${name}, received ${
+          isRecord(value) ? 'an object matching no variant' : typeName(value)
+        }`,
+      });
+      return;
+    }
+    member[1](value, path, issues);
+  };
+
+const productAndroidOneTimePurchaseOfferDetailValidator: Validator = shape({
+  formattedPrice: checkString,
+  priceAmountMicros: checkString,
+  priceCurrencyCode: checkString,
+});
+
+const pricingPhaseAndroidValidator: Validator = shape({
+  billingCycleCount: checkNumber,
+  billingPeriod: checkString,
+  formattedPrice: checkString,
+  priceAmountMicros: checkString,
+  priceCurrencyCode: checkString,
+  recurrenceMode: checkNumber,
+});
+
+const pricingPhasesAndroidValidator: Validator = shape({
+  pricingPhaseList: arrayOf(pricingPhaseAndroidValidator),
+});
+
+const productSubscriptionAndroidOfferDetailsValidator: Validator = shape({
+  basePlanId: checkString,
+  offerId: optional(checkString),
+  offerTags: arrayOf(checkString),
+  offerToken: checkString,
+  pricingPhases: pricingPhasesAndroidValidator,
+});
+
+const productAndroidValidator: Validator = shape({
+  currency: checkString,
+  debugDescription: optional(checkString),
+  description: checkString,
+  displayName: optional(checkString),
+  displayPrice: checkString,
+  id: checkString,
+  nameAndroid: checkString,
+  oneTimePurchaseOfferDetailsAndroid: optional(productAndroidOneTimePurchaseOfferDetailValidator),
+  platform: oneOf(new Set(['android'])),
+  price: optional(checkNumber),
+  subscriptionOfferDetailsAndroid: optional(arrayOf(productSubscriptionAndroidOfferDetailsValidator)),
+  title: checkString,
+  type: oneOf(new Set(['in-app'])),
+});
+
+const subscriptionPeriodValueIOSValidator: Validator = shape({
+  unit: oneOf(SUBSCRIPTION_PERIOD_IOS_VALUES),
+  value: checkNumber,
+});
+
+const subscriptionOfferIOSValidator: Validator = shape({
+  displayPrice: checkString,
+  id: checkString,
+  paymentMode: oneOf(PAYMENT_MODE_IOS_VALUES),
+  period: subscriptionPeriodValueIOSValidator,
+  periodCount: checkNumber,
+  price: checkNumber,
+  type: oneOf(SUBSCRIPTION_OFFER_TYPE_IOS_VALUES),
+});
+
+const subscriptionInfoIOSValidator: Validator = shape({
+  introductoryOffer: optional(subscriptionOfferIOSValidator),
+  promotionalOffers: optional(arrayOf(subscriptionOfferIOSValidator)),
+  subscriptionGroupId: checkString,
+  subscriptionPeriod: subscriptionPeriodValueIOSValidator,
+});
+
+const productIOSValidator: Validator = shape({
+  currency: checkString,
+  debugDescription: optional(checkString),
+  description: checkString,
+  displayName: optional(checkString),
+  displayNameIOS: checkString,
+  displayPrice: checkString,
+  id: checkString,
+  isFamilyShareableIOS: checkBoolean,
+  jsonRepresentationIOS: checkString,
+  platform: oneOf(new Set(['ios'])),
+  price: optional(checkNumber),
+  subscriptionInfoIOS: optional(subscriptionInfoIOSValidator),
+  title: checkString,
+  type: oneOf(new Set(['in-app'])),
+  typeIOS: oneOf(PRODUCT_TYPE_IOS_VALUES),
+});
+
+const productValidator: Validator = variants('Product', [
+  [(value) => value.platform === 'android' && value.type === 'in-app', productAndroidValidator],
+  [(value) => value.platform === 'ios' && value.type === 'in-app', productIOSValidator],
+]);
+
+const productSubscriptionAndroidValidator: Validator = shape({
+  currency: checkString,
+  debugDescription: optional(checkString),
+  description: checkString,
+  displayName: optional(checkString),
+  displayPrice: checkString,
+  id: checkString,
+  nameAndroid: checkString,
+  oneTimePurchaseOfferDetailsAndroid: optional(productAndroidOneTimePurchaseOfferDetailValidator),
+  platform: oneOf(new Set(['android'])),
+  price: optional(checkNumber),
+  subscriptionOfferDetailsAndroid: arrayOf(productSubscriptionAndroidOfferDetailsValidator),
+  title: checkString,
+  type: oneOf(new Set(['subs'])),
+});
+
+const discountIOSValidator: Validator = shape({
+  identifier: checkString,
+  localizedPrice: optional(checkString),
+  numberOfPeriods: checkNumber,
+  paymentMode: oneOf(PAYMENT_MODE_IOS_VALUES),
+  price: checkString,
+  priceAmount: checkNumber,
+  subscriptionPeriod: checkString,
+  type: checkString,
+});
+
+const productSubscriptionIOSValidator: Validator = shape({
+  currency: checkString,
+  debugDescription: optional(checkString),
+  description: checkString,
+  discountsIOS: optional(arrayOf(discountIOSValidator)),
+  displayName: optional(checkString),
+  displayNameIOS: checkString,
+  displayPrice: checkString,
+  id: checkString,
+  introductoryPriceAsAmountIOS: optional(checkString),
+  introductoryPriceIOS: optional(checkString),
+  introductoryPriceNumberOfPeriodsIOS: optional(checkString),
+  introductoryPricePaymentModeIOS: oneOf(PAYMENT_MODE_IOS_VALUES),
+  introductoryPriceSubscriptionPeriodIOS: optional(oneOf(SUBSCRIPTION_PERIOD_IOS_VALUES)),
+  isFamilyShareableIOS: checkBoolean,
+  jsonRepresentationIOS: checkString,
+  platform: oneOf(new Set(['ios'])),
+  price: optional(checkNumber),
+  subscriptionInfoIOS: optional(subscriptionInfoIOSValidator),
+  subscriptionPeriodNumberIOS: optional(checkString),
+  subscriptionPeriodUnitIOS: optional(oneOf(SUBSCRIPTION_PERIOD_IOS_VALUES)),
+  title: checkString,
+  type: oneOf(new Set(['subs'])),
+  typeIOS: oneOf(PRODUCT_TYPE_IOS_VALUES),
+});
+
+const productSubscriptionValidator: Validator = variants('ProductSubscription', [
+  [(value) => value.platform === 'android' && value.type === 'subs', productSubscriptionAndroidValidator],
+  [(value) => value.platform === 'ios' && value.type === 'subs', productSubscriptionIOSValidator],
+]);
+
+const purchaseAndroidValidator: Validator = shape({
+  autoRenewingAndroid: optional(checkBoolean),
+  currentPlanId: optional(checkString),
+  dataAndroid: optional(checkString),
+  developerPayloadAndroid: optional(checkString),
+  id: checkString,
+  ids: optional(arrayOf(checkString)),
+  isAcknowledgedAndroid: optional(checkBoolean),
+  isAutoRenewing: checkBoolean,
+  obfuscatedAccountIdAndroid: optional(checkString),
+  obfuscatedProfileIdAndroid: optional(checkString),
+  packageNameAndroid: optional(checkString),
+  platform: oneOf(IAP_PLATFORM_VALUES),
+  productId: checkString,
+  purchaseState: oneOf(PURCHASE_STATE_VALUES),
+  purchaseToken: optional(checkString),
+  quantity: checkNumber,
+  signatureAndroid: optional(checkString),
+  transactionDate: checkNumber,
+  transactionId: optional(checkString),
+});
+
+const purchaseOfferIOSValidator: Validator = shape({
+  id: checkString,
+  paymentMode: checkString,
+  type: checkString,
+});
+
+const renewalInfoIOSValidator: Validator = shape({
+  autoRenewPreference: optional(checkString),
+  expirationReason: optional(checkString),
+  gracePeriodExpirationDate: optional(checkNumber),
+  isInBillingRetry: optional(checkBoolean),
+  jsonRepresentation: optional(checkString),
+  pendingUpgradeProductId: optional(checkString),
+  priceIncreaseStatus: optional(checkString),
+  renewalDate: optional(checkNumber),
+  renewalOfferId: optional(checkString),
+  renewalOfferType: optional(checkString),
+  willAutoRenew: checkBoolean,
+});
+
+const purchaseIOSValidator: Validator = shape({
+  appAccountToken: optional(checkString),
+  appBundleIdIOS: optional(checkString),
+  countryCodeIOS: optional(checkString),
+  currencyCodeIOS: optional(checkString),
+  currencySymbolIOS: optional(checkString),
+  currentPlanId: optional(checkString),
+  environmentIOS: optional(checkString),
+  expirationDateIOS: optional(checkNumber),
+  id: checkString,
+  ids: optional(arrayOf(checkString)),
+  isAutoRenewing: checkBoolean,
+  isUpgradedIOS: optional(checkBoolean),
+  offerIOS: optional(purchaseOfferIOSValidator),
+  originalTransactionDateIOS: optional(checkNumber),
+  originalTransactionIdentifierIOS: optional(checkString),
+  ownershipTypeIOS: optional(checkString),
+  platform: oneOf(IAP_PLATFORM_VALUES),
+  productId: checkString,
+  purchaseState: oneOf(PURCHASE_STATE_VALUES),
+  purchaseToken: optional(checkString),
+  quantity: checkNumber,
+  quantityIOS: optional(checkNumber),
+  reasonIOS: optional(checkString),
+  reasonStringRepresentationIOS: optional(checkString),
+  renewalInfoIOS: optional(renewalInfoIOSValidator),
+  revocationDateIOS: optional(checkNumber),
+  revocationReasonIOS: optional(checkString),
+  storefrontCountryCodeIOS: optional(checkString),
+  subscriptionGroupIdIOS: optional(checkString),
+  transactionDate: checkNumber,
+  transactionId: checkString,
+  transactionReasonIOS: optional(checkString),
+  webOrderLineItemIdIOS: optional(checkString),
+});
+
+const purchaseValidator: Validator = variants('Purchase', [
+  [(value) => value.platform === 'android', purchaseAndroidValidator],
+  [(value) => value.platform === 'ios', purchaseIOSValidator],
+]);
+
+const activeSubscriptionValidator: Validator = shape({
+  autoRenewingAndroid: optional(checkBoolean),
+  basePlanIdAndroid: optional(checkString),
+  currentPlanId: optional(checkString),
+  daysUntilExpirationIOS: optional(checkNumber),
+  environmentIOS: optional(checkString),
+  expirationDateIOS: optional(checkNumber),
+  isActive: checkBoolean,
+  productId: checkString,
+  purchaseToken: optional(checkString),
+  purchaseTokenAndroid: optional(checkString),
+  renewalInfoIOS: optional(renewalInfoIOSValidator),
+  transactionDate: checkNumber,
+  transactionId: checkString,
+  willExpireSoon: optional(checkBoolean),
+});
+
+const receiptValidationResultAndroidValidator: Validator = shape({
+  autoRenewing: checkBoolean,
+  betaProduct: checkBoolean,
+  cancelDate: optional(checkNumber),
+  cancelReason: optional(checkString),
+  deferredDate: optional(checkNumber),
+  deferredSku: optional(checkString),
+  freeTrialEndDate: checkNumber,
+  gracePeriodEndDate: checkNumber,
+  parentProductId: checkString,
+  productId: checkString,
+  productType: checkString,
+  purchaseDate: checkNumber,
+  quantity: checkNumber,
+  receiptId: checkString,
+  renewalDate: checkNumber,
+  term: checkString,
+  termSku: checkString,
+  testTransaction: checkBoolean,
+});
+
+const receiptValidationResultIOSValidator: Validator = shape({
+  isValid: checkBoolean,
+  jwsRepresentation: checkString,
+  latestTransaction: optional(purchaseValidator),
+  receiptData: checkString,
+});
+
+const receiptValidationResultValidator: Validator = variants('ReceiptValidationResult', [
+  [(value) => 'autoRenewing' in value, receiptValidationResultAndroidValidator],
+  [(value) => 'isValid' in value, receiptValidationResultIOSValidator],
+]);
+
+/**
+ * Collect the fields of `value` that do not match `Product`.
+ * Unknown fields are allowed so newer native payloads still pass.
+ */
+export const validateProduct = (
+  value: unknown,
+  path = '$',
+  issues: TypeIssue[] = [],
+): TypeIssue[] => {
+  productValidator(value, path, issues);
+  return issues;
+};
+
+/**
+ * Collect the fields of `value` that do not match `ProductSubscription`.
+ * Unknown fields are allowed so newer native payloads still pass.
+ */
+export const validateProductSubscription = (
+  value: unknown,
+  path = '$',
+  issues: TypeIssue[] = [],
+): TypeIssue[] => {
+  productSubscriptionValidator(value, path, issues);
+  return issues;
+};
+
+/**
+ * Collect the fields of `value` that do not match `Purchase`.
+ * Unknown fields are allowed so newer native payloads still pass.
+ */
+export const validatePurchase = (
+  value: unknown,
+  path = '$',
+  issues: TypeIssue[] = [],
+): TypeIssue[] => {
+  purchaseValidator(value, path, issues);
+  return issues;
+};
+
+/**
+ * Collect the fields of `value` that do not match `ActiveSubscription`.
+ * Unknown fields are allowed so newer native payloads still pass.
+ */
+export const validateActiveSubscription = (
+  value: unknown,
+  path = '$',
+  issues: TypeIssue[] = [],
+): TypeIssue[] => {
+  activeSubscriptionValidator(value, path, issues);
+  return issues;
+};
+
+/**
+ * Collect the fields of `value` that do not match `ReceiptValidationResult`.
+ * Unknown fields are allowed so newer native payloads still pass.
+ */
+export const validateReceiptValidationResult = (
+  value: unknown,
+  path = '$',
+  issues: TypeIssue[] = [],
+): TypeIssue[] => {
+  receiptValidationResultValidator(value, path, issues);
+  return issues;
+};
@@ -0,0 +1,88 @@
+// External dependencies
+import {useCallback, useEffect, useState} from 'react';
+
+// Internal modules
+import {purchaseUpdatedListener} from './index';
+import {getEntitlementEngine} from './utils/entitlements';
+
+// Types
+import type {Entitlement, EntitlementEngine} from './utils/entitlements';
+
+export interface UseEntitlementOptions {
+  /** Engine to read from. Defaults to the one set by `configureEntitlements`. */
+  engine?: EntitlementEngine;
+  /**
+   * Refresh from the store while true. Pass `connected` from `useIAP` so the
+   * first refresh waits for the store connection. Defaults to true.
+   */
+  enabled?: boolean;
+}
+
+type UseEntitlement = Entitlement & {
+  /** Last refresh failure, cleared by the next successful refresh. */
+  error: Error | null;
+  refresh: () => Promise<void>;
+};
+
+/**
+ * React Hook that tracks one entitlement.
+ * Refreshes when enabled and after every `purchase-updated` event.
+ *
+ * @example
+ * ```tsx
+ * configureEntitlements({premium: ['premium', 'premium_year', 'lifetime']});
+ *
+ * function Paywall() {
+ *   const {connected} = useIAP();
+ *   const premium = useEntitlement('premium', {enabled: connected});
+ *   if (premium.state === 'unknown') return <Spinner />;
+ *   return premium.isActive ? <PremiumContent /> : <Offer />;
+ * }
+ * ```
+ */
+export function useEntitlement(
+  id: string,
+  options: UseEntitlementOptions = {},
+): UseEntitlement {
+  const engine = options.engine ?? getEntitlementEngine();
+  const enabled = options.enabled ?? true;
+  const [entitlement, setEntitlement] = useState<Entitlement>(() =>
+    engine.get(id),
+  );
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    setEntitlement(engine.get(id));
+    return engine.subscribe((snapshot) => {
+      setEntitlement(snapshot[id]!);
+    });
+  }, [engine, id]);
+
+  const refresh = useCallback(async () => {
+    try {
+      await engine.refresh();
+      setError(null);
+    } catch (refreshError) {
+      setError(
+        refreshError instanceof Error
+          ? refreshError
+          : new Error(String(refreshError)),
+      );
+    }
+  }, [engine]);
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+    refresh();
+    const subscription = purchaseUpdatedListener(() => {
+      refresh();
+    });
+    return () => {
+      subscription.remove();
+    };
+  }, [enabled, refresh]);
+
+  return {...entitlement, error, refresh};
+}
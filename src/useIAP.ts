@@ -21,6 +21,20 @@ import {
   type ProductTypeInput,
 } from './index';
 import {ExpoIapConsole} from './utils/debug';
+import {createPendingPurchaseTracker} from './utils/pendingPurchases';
+import {finishPurchase, getProductKindRegistry} from './utils/productKinds';
+import {
+  getPurchaseCoordinator,
+  subscribeToPurchasing,
+} from './utils/purchaseCoordinator';
+import {
+  createPurchaseDeduplicator,
+  deliverOnce,
+  resolveDeduplicator,
+} from './utils/purchaseDedup';
+import {recoverUnfinishedTransactions} from './utils/transactionRecovery';
+import {createVerificationPipeline} from './utils/verificationPipeline';
+import {requestPurchaseExclusive} from './utils/purchaseFlow';
 import {
   getPromotedProductIOS,
   requestPurchaseOnPromotedProductIOS,
@@ -44,10 +58,23 @@ import type {
   ReceiptValidationProps,
   ReceiptValidationResult,
   ProductAndroid,
+  PurchaseAndroid,
   ProductSubscriptionIOS,
 } from './types';
 import {ErrorCode} from './types';
 import type {PurchaseError} from './utils/errorMapping';
+import type {
+  PendingPurchase,
+  PendingPurchaseEvent,
+  PendingResolution,
+} from './utils/pendingPurchases';
+import type {ConcurrentPurchasePolicy} from './utils/purchaseCoordinator';
+import type {PurchaseDeduplicator} from './utils/purchaseDedup';
+import type {RecoveredTransaction} from './utils/transactionRecovery';
+import type {
+  VerificationPipeline,
+  VerifyPurchase,
+} from './utils/verificationPipeline';
 import {
   getUserFriendlyErrorMessage,
   isUserCancelledError,
@@ -61,6 +88,10 @@ type UseIap = {
   availablePurchases: Purchase[];
   promotedProductIOS?: Product;
   activeSubscriptions: ActiveSubscription[];
+  /** Whether a purchase flow is in flight anywhere in the app. */
+  isPurchasing: boolean;
+  /** Android pending payments and iOS Ask to Buy requests awaiting an outcome. */
+  pendingPurchases: PendingPurchase[];
   finishTransaction: ({
     purchase,
     isConsumable,
@@ -93,7 +124,7 @@ type UseIap = {
 };
 
 export interface UseIAPOptions {
-  onPurchaseSuccess?: (purchase: Purchase) => void;
+  onPurchaseSuccess?: (purchase: Purchase) => void | Promise<void>;
   onPurchaseError?: (error: PurchaseError) => void;
   onPromotedProductIOS?: (product: Product) => void;
   /**
@@ -101,6 +132,48 @@ export interface UseIAPOptions {
    * If not specified, defaults to NONE (standard Google Play billing)
    */
   alternativeBillingModeAndroid?: 'none' | 'user-choice' | 'alternative-only';
+  /**
+   * Run `requestPurchase` through the app-wide purchase coordinator, with
+   * this policy for calls made while another purchase is in flight. Off by
+   * default: requests are passed straight to the store.
+   */
+  concurrentPurchasePolicy?: ConcurrentPurchasePolicy;
+  /**
+   * Finish purchases after `onPurchaseSuccess` returns, consuming,
+   * acknowledging or finishing them according to their product kind.
+   * Kinds come from `configureProductKinds` and from fetched products.
+   */
+  autoFinishTransactions?: boolean;
+  /**
+   * After connecting, pass transactions left unfinished by earlier sessions
+   * through `onPurchaseSuccess` (and auto-finish, when enabled).
+   */
+  recoverUnfinishedTransactions?: boolean;
+  /** Results of that recovery, with Android acknowledgement deadlines. */
+  onTransactionsRecovered?: (results: RecoveredTransaction[]) => void;
+  /**
+   * Verify each purchase with your backend first. Only verified purchases
+   * reach `onPurchaseSuccess`, after which the hook finishes them by product
+   * kind. Failed verifications stay unfinished and are retried on the next
+   * connect, together with other unfinished transactions.
+   */
+  verifyPurchase?: VerifyPurchase;
+  /**
+   * Deliver each transaction to `onPurchaseSuccess` once, remembered across
+   * sessions. `true` uses the app-wide deduplicator (see
+   * `configurePurchaseDeduplication`). Duplicates are still finished when
+   * auto-finish or `verifyPurchase` is on.
+   */
+  dedupePurchases?: boolean | PurchaseDeduplicator;
+  /** Called with each duplicate that was not delivered. */
+  onDuplicatePurchase?: (purchase: Purchase) => void;
+  /** A purchase became pending (Android) or deferred (iOS Ask to Buy). */
+  onPurchasePending?: (pending: PendingPurchase) => void;
+  /** A pending purchase completed or failed. */
+  onPendingResolved?: (
+    pending: PendingPurchase,
+    resolution: PendingResolution,
+  ) => void;
 }
 
 /**
@@ -117,6 +190,16 @@ export function useIAP(options?: UseIAPOptions): UseIap {
   const [activeSubscriptions, setActiveSubscriptions] = useState<
     ActiveSubscription[]
   >([]);
+  const [isPurchasing, setIsPurchasing] = useState<boolean>(() =>
+    getPurchaseCoordinator().isPurchasing(),
+  );
+  const [pendingTracker] = useState(createPendingPurchaseTracker);
+  // Used when recovery runs without `dedupePurchases`: StoreKit also replays
+  // recovered transactions through the listener.
+  const [sessionDeduplicator] = useState(() => createPurchaseDeduplicator());
+  const [pendingPurchases, setPendingPurchases] = useState<PendingPurchase[]>(
+    [],
+  );
 
   const optionsRef = useRef<UseIAPOptions | undefined>(options);
   const connectedRef = useRef<boolean>(false);
@@ -211,6 +294,7 @@ export function useIAP(options?: UseIAPOptions): UseIap {
         const items = (result ?? []) as (Product | ProductSubscription)[];
 
         ExpoIapConsole.debug('Fetched products:', items);
+        getProductKindRegistry().registerProducts(items);
 
         if (queryType === 'subs') {
           const subscriptionsResult = items as ProductSubscription[];
@@ -344,9 +428,14 @@ export function useIAP(options?: UseIAPOptions): UseIap {
 
   const requestPurchaseWithReset = useCallback(
     (requestObj: MutationRequestPurchaseArgs) => {
-      return requestPurchaseInternal(requestObj);
+      pendingTracker.trackRequest(requestObj);
+      const concurrency = optionsRef.current?.concurrentPurchasePolicy;
+      if (!concurrency) {
+        return requestPurchaseInternal(requestObj);
+      }
+      return requestPurchaseExclusive(requestObj, {concurrency});
     },
-    [],
+    [pendingTracker],
   );
 
   const refreshSubscriptionStatus = useCallback(
@@ -387,18 +476,109 @@ export function useIAP(options?: UseIAPOptions): UseIap {
     return validateReceiptInternal(props);
   }, []);
 
+  const verificationRef = useRef<VerificationPipeline | null>(null);
+
+  // Grant via onPurchaseSuccess, then finish by product kind when enabled.
+  // With verifyPurchase, the verification pipeline runs all three steps.
+  const handlePurchase = useCallback(async (purchase: Purchase) => {
+    if (optionsRef.current?.verifyPurchase) {
+      if (!verificationRef.current) {
+        verificationRef.current = createVerificationPipeline({
+          verifyPurchase: (next) =>
+            optionsRef.current?.verifyPurchase?.(next) ?? false,
+          grant: (next) => optionsRef.current?.onPurchaseSuccess?.(next),
+        });
+      }
+      const result = await verificationRef.current.process(purchase);
+      if (result.status === 'retry') {
+        throw result.error;
+      }
+      return;
+    }
+
+    if (optionsRef.current?.onPurchaseSuccess) {
+      await optionsRef.current.onPurchaseSuccess(purchase);
+    }
+
+    if (optionsRef.current?.autoFinishTransactions) {
+      await finishPurchase(purchase);
+    }
+  }, []);
+
+  const handlePendingEvent = useCallback(
+    (event: PendingPurchaseEvent | null) => {
+      if (!event) {
+        return;
+      }
+      setPendingPurchases(pendingTracker.getPending());
+      if (event.type === 'pending') {
+        optionsRef.current?.onPurchasePending?.(event.pending);
+      } else {
+        optionsRef.current?.onPendingResolved?.(
+          event.pending,
+          event.resolution,
+        );
+      }
+    },
+    [pendingTracker],
+  );
+
+  // A duplicate was granted before; only make sure it gets finished.
+  const handleDuplicate = useCallback(async (purchase: Purchase) => {
+    optionsRef.current?.onDuplicatePurchase?.(purchase);
+    const finishes =
+      optionsRef.current?.autoFinishTransactions ||
+      optionsRef.current?.verifyPurchase;
+    if (!finishes || (purchase as PurchaseAndroid).isAcknowledgedAndroid) {
+      return;
+    }
+    try {
+      await finishPurchase(purchase);
+    } catch (error) {
+      ExpoIapConsole.warn('[useIAP] Failed to finish duplicate:', error);
+    }
+  }, []);
+
+  // Listener events and recovered transactions both go through the
+  // deduplicator, so a transaction is granted once whichever arrives first.
+  const deliverPurchase = useCallback(
+    async (purchase: Purchase) => {
+      const recovers =
+        optionsRef.current?.recoverUnfinishedTransactions ||
+        optionsRef.current?.verifyPurchase;
+      const deduplicator =
+        resolveDeduplicator(optionsRef.current?.dedupePurchases) ??
+        (recovers ? sessionDeduplicator : null);
+      if (!deduplicator) {
+        await handlePurchase(purchase);
+        return;
+      }
+      await deliverOnce(
+        deduplicator,
+        purchase,
+        handlePurchase,
+        handleDuplicate,
+      );
+    },
+    [handleDuplicate, handlePurchase, sessionDeduplicator],
+  );
+
   const initIapWithSubscriptions = useCallback(async (): Promise<void> => {
     // CRITICAL: Register listeners BEFORE initConnection to avoid race condition
     // Events might fire immediately after initConnection, so listeners must be ready
     // Register purchase update listener BEFORE initConnection to avoid race conditions.
     subscriptionsRef.current.purchaseUpdate = purchaseUpdatedListener(
       async (purchase: Purchase) => {
+        handlePendingEvent(pendingTracker.handlePurchase(purchase));
+
         if ('expirationDateIOS' in purchase) {
           await refreshSubscriptionStatus(purchase.id);
         }
 
-        if (optionsRef.current?.onPurchaseSuccess) {
-          optionsRef.current.onPurchaseSuccess(purchase);
+        try {
+          await deliverPurchase(purchase);
+        } catch (error) {
+          ExpoIapConsole.warn('[useIAP] Failed to process purchase:', error);
         }
       },
     );
@@ -409,6 +589,7 @@ export function useIAP(options?: UseIAPOptions): UseIap {
         if (!connectedRef.current && error.code === ErrorCode.InitConnection) {
           return; // Ignore initialization error before connected
         }
+        handlePendingEvent(pendingTracker.handleError(error));
         const friendly = getUserFriendlyErrorMessage(error);
         if (!isUserCancelledError(error) && !isRecoverableError(error)) {
           ExpoIapConsole.warn('[useIAP] Purchase error:', friendly);
@@ -454,7 +635,28 @@ export function useIAP(options?: UseIAPOptions): UseIap {
       // Keep purchaseError listener registered to capture subsequent retries
       return;
     }
-  }, [refreshSubscriptionStatus]);
+
+    if (
+      optionsRef.current?.recoverUnfinishedTransactions ||
+      optionsRef.current?.verifyPurchase
+    ) {
+      try {
+        const recovered = await recoverUnfinishedTransactions({
+          handler: deliverPurchase,
+        });
+        optionsRef.current?.onTransactionsRecovered?.(recovered);
+      } catch (error) {
+        ExpoIapConsole.warn('[useIAP] Failed to recover transactions:', error);
+      }
+    }
+  }, [
+    deliverPurchase,
+    handlePendingEvent,
+    pendingTracker,
+    refreshSubscriptionStatus,
+  ]);
+
+  useEffect(() => subscribeToPurchasing(setIsPurchasing), []);
 
   useEffect(() => {
     initIapWithSubscriptions();
@@ -477,6 +679,8 @@ export function useIAP(options?: UseIAPOptions): UseIap {
     availablePurchases,
     promotedProductIOS,
     activeSubscriptions,
+    isPurchasing,
+    pendingPurchases,
     getAvailablePurchases: getAvailablePurchasesInternal,
     fetchProducts: fetchProductsInternal,
     requestPurchase: requestPurchaseWithReset,
@@ -0,0 +1,181 @@
+import {
+  androidPurchase,
+  flushPromises,
+  setPlatform,
+} from '../../__mocks__/purchases';
+import ExpoIapModule from '../../ExpoIapModule';
+import {createCurrencyLedger} from '../currencyLedger';
+import {createMemoryStorage} from '../storage';
+
+setPlatform('android');
+
+const amounts = {coins_100: 100, coins_500: 550};
+
+describe('createCurrencyLedger', () => {
+  it('should credit each transaction once and persist the balance', async () => {
+    const storage = createMemoryStorage();
+    const finish = jest.fn().mockResolvedValue(undefined);
+    const ledger = createCurrencyLedger({amounts, storage, finish});
+
+    await expect(ledger.credit(androidPurchase())).resolves.toEqual({
+      status: 'credited',
+      amount: 100,
+      balance: 100,
+      finished: true,
+    });
+    await expect(ledger.credit(androidPurchase())).resolves.toMatchObject({
+      status: 'duplicate',
+      amount: 0,
+      balance: 100,
+    });
+    await ledger.credit(
+      androidPurchase({productId: 'coins_500', purchaseToken: 'token-2'}),
+    );
+    expect(finish).toHaveBeenCalledTimes(2);
+
+    const restored = createCurrencyLedger({amounts, storage, finish});
+    await expect(restored.getBalance()).resolves.toBe(650);
+    await expect(restored.credit(androidPurchase())).resolves.toMatchObject({
+      status: 'duplicate',
+    });
+  });
+
+  it('should record the credit before finishing', async () => {
+    const storage = createMemoryStorage();
+    const finish = jest.fn(async () => {
+      const stored = JSON.parse((await storage.getItem('coins'))!);
+      expect(stored.balance).toBe(100);
+      expect(stored.credits['token-1'].finished).toBe(false);
+    });
+    const ledger = createCurrencyLedger({
+      amounts,
+      storage,
+      storageKey: 'coins',
+      finish,
+    });
+
+    await ledger.credit(androidPurchase());
+
+    expect(finish).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry finishing without crediting twice', async () => {
+    const finish = jest
+      .fn()
+      .mockRejectedValueOnce(new Error('Network'))
+      .mockResolvedValue(undefined);
+    const ledger = createCurrencyLedger({amounts, finish});
+
+    await expect(ledger.credit(androidPurchase())).resolves.toMatchObject({
+      status: 'credited',
+      balance: 100,
+      finished: false,
+    });
+    await expect(ledger.credit(androidPurchase())).resolves.toMatchObject({
+      status: 'duplicate',
+      balance: 100,
+      finished: true,
+    });
+    expect(finish).toHaveBeenCalledTimes(2);
+  });
+
+  it('should credit concurrent replays once', async () => {
+    const ledger = createCurrencyLedger({
+      amounts,
+      finish: jest.fn().mockResolvedValue(undefined),
+    });
+
+    const results = await Promise.all([
+      ledger.credit(androidPurchase()),
+      ledger.credit(androidPurchase()),
+    ]);
+
+    expect(results.map((result) => result.status)).toEqual([
+      'credited',
+      'duplicate',
+    ]);
+    await expect(ledger.getBalance()).resolves.toBe(100);
+  });
+
+  it('should ignore pending purchases and unknown products', async () => {
+    const finish = jest.fn();
+    const ledger = createCurrencyLedger({amounts, finish});
+
+    await expect(
+      ledger.credit(androidPurchase({purchaseState: 'pending'})),
+    ).resolves.toMatchObject({status: 'ignored'});
+    await expect(
+      ledger.credit(androidPurchase({productId: 'premium'})),
+    ).resolves.toMatchObject({status: 'ignored'});
+    expect(finish).not.toHaveBeenCalled();
+  });
+
+  it('should multiply by the purchased quantity', async () => {
+    const ledger = createCurrencyLedger({
+      amounts,
+      finish: jest.fn().mockResolvedValue(undefined),
+    });
+
+    await expect(
+      ledger.credit(
+        androidPurchase({
+          platform: 'ios',
+          transactionId: '1001',
+          quantityIOS: 3,
+        }),
+      ),
+    ).resolves.toMatchObject({amount: 300});
+  });
+
+  it('should spend and reconcile against the server balance', async () => {
+    const ledger = createCurrencyLedger({
+      amounts,
+      finish: jest.fn().mockResolvedValue(undefined),
+    });
+    await ledger.credit(androidPurchase());
+
+    await expect(ledger.spend(30)).resolves.toBe(70);
+    await expect(ledger.spend(100)).rejects.toThrow('spend:');
+    await expect(ledger.reconcile(90)).resolves.toBe(20);
+    await expect(ledger.getBalance()).resolves.toBe(90);
+  });
+
+  it('should keep the previous state when saving fails', async () => {
+    const storage = createMemoryStorage();
+    const ledger = createCurrencyLedger({
+      amounts,
+      storage,
+      finish: jest.fn().mockResolvedValue(undefined),
+    });
+    await ledger.credit(androidPurchase());
+    jest
+      .spyOn(storage, 'setItem')
+      .mockRejectedValueOnce(new Error('disk full'));
+
+    await expect(ledger.spend(30)).rejects.toThrow('disk full');
+    await expect(ledger.getBalance()).resolves.toBe(100);
+  });
+
+  it('should report credits that fail while listening', async () => {
+    let emit: (purchase: unknown) => void = () => undefined;
+    (ExpoIapModule.addListener as jest.Mock) = jest.fn((_, listener) => {
+      emit = listener;
+      return {remove: jest.fn()};
+    });
+    const storage = createMemoryStorage();
+    jest.spyOn(storage, 'setItem').mockRejectedValue(new Error('disk full'));
+    const onError = jest.fn();
+    const onCredit = jest.fn();
+    const ledger = createCurrencyLedger({amounts, storage, onError});
+
+    ledger.listen(onCredit);
+    emit(androidPurchase());
+    await flushPromises();
+
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({message: 'disk full'}),
+      expect.objectContaining({productId: 'coins_100'}),
+    );
+    expect(onCredit).not.toHaveBeenCalled();
+  });
+});
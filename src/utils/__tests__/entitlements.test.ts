@@ -0,0 +1,174 @@
+import {DAY_MS, NOW, setPlatform} from '../../__mocks__/purchases';
+import ExpoIapModule from '../../ExpoIapModule';
+import {
+  configureEntitlements,
+  createEntitlementEngine,
+  getEntitlementEngine,
+} from '../entitlements';
+import type {ActiveSubscription, Purchase} from '../../types';
+
+jest.mock('../../ExpoIapModule');
+setPlatform('ios');
+
+const purchase = (overrides: Partial<Purchase> & Record<string, unknown>) =>
+  ({
+    id: 'tx-1',
+    transactionId: 'tx-1',
+    productId: 'lifetime',
+    platform: 'ios',
+    purchaseState: 'purchased',
+    isAutoRenewing: false,
+    quantity: 1,
+    transactionDate: NOW - DAY_MS,
+    ...overrides,
+  } as Purchase);
+
+const subscription = (
+  overrides: Partial<ActiveSubscription>,
+): ActiveSubscription => ({
+  productId: 'premium',
+  transactionId: 'tx-2',
+  transactionDate: NOW - DAY_MS,
+  isActive: true,
+  ...overrides,
+});
+
+describe('createEntitlementEngine', () => {
+  const createEngine = () =>
+    createEntitlementEngine({
+      entitlements: {
+        premium: ['premium', 'premium_year', 'lifetime'],
+        noAds: ['remove_ads', 'lifetime'],
+      },
+      now: () => NOW,
+    });
+
+  it('should start unknown and become inactive when nothing grants access', () => {
+    const engine = createEngine();
+
+    expect(engine.get('premium').state).toBe('unknown');
+    engine.evaluate({purchases: [purchase({productId: 'coins'})]});
+    expect(engine.get('premium')).toEqual({
+      id: 'premium',
+      isActive: false,
+      state: 'inactive',
+      productId: null,
+      transactionId: null,
+      expiresAt: null,
+      willAutoRenew: false,
+    });
+  });
+
+  it('should prefer lifetime access over an expiring subscription', () => {
+    const engine = createEngine();
+
+    const snapshot = engine.evaluate({
+      purchases: [purchase({})],
+      activeSubscriptions: [
+        subscription({expirationDateIOS: NOW + 30 * DAY_MS}),
+      ],
+    });
+
+    expect(snapshot.premium).toMatchObject({
+      isActive: true,
+      state: 'active',
+      productId: 'lifetime',
+      expiresAt: null,
+    });
+    expect(snapshot.noAds?.productId).toBe('lifetime');
+    expect(engine.entitlementsFor('lifetime')).toEqual(['premium', 'noAds']);
+  });
+
+  it('should report grace periods, expiry and revocation', () => {
+    const engine = createEngine();
+
+    engine.evaluate({
+      activeSubscriptions: [
+        subscription({
+          expirationDateIOS: NOW - DAY_MS,
+          renewalInfoIOS: {
+            willAutoRenew: true,
+            gracePeriodExpirationDate: NOW + 2 * DAY_MS,
+          },
+        }),
+      ],
+    });
+    expect(engine.get('premium')).toMatchObject({
+      isActive: true,
+      state: 'grace-period',
+      expiresAt: NOW + 2 * DAY_MS,
+      willAutoRenew: true,
+    });
+
+    engine.evaluate({
+      purchases: [
+        purchase({productId: 'premium', expirationDateIOS: NOW - DAY_MS}),
+        purchase({productId: 'remove_ads', revocationDateIOS: NOW - DAY_MS}),
+      ],
+    });
+    expect(engine.get('premium').state).toBe('expired');
+    expect(engine.get('noAds')).toMatchObject({
+      isActive: false,
+      state: 'revoked',
+    });
+  });
+
+  it('should keep pending Android purchases inactive', () => {
+    const engine = createEngine();
+
+    engine.evaluate({
+      purchases: [
+        purchase({
+          platform: 'android',
+          productId: 'remove_ads',
+          purchaseState: 'pending',
+        }),
+      ],
+    });
+
+    expect(engine.get('noAds')).toMatchObject({
+      isActive: false,
+      state: 'pending',
+      productId: 'remove_ads',
+    });
+  });
+
+  it('should refresh from the store and notify subscribers', async () => {
+    const engine = createEngine();
+    const listener = jest.fn();
+    const unsubscribe = engine.subscribe(listener);
+    (ExpoIapModule.getAvailableItems as jest.Mock) = jest
+      .fn()
+      .mockResolvedValue([]);
+    (ExpoIapModule.getActiveSubscriptions as jest.Mock) = jest
+      .fn()
+      .mockResolvedValue([
+        subscription({productId: 'premium_year', isActive: true}),
+      ]);
+
+    await engine.refresh();
+    unsubscribe();
+    engine.evaluate({});
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener.mock.calls[0][0].premium).toMatchObject({
+      isActive: true,
+      productId: 'premium_year',
+    });
+  });
+
+  it('should reject unknown entitlement ids', () => {
+    expect(() => createEngine().get('gold')).toThrow(
+      'createEntitlementEngine: unknown entitlement "gold"',
+    );
+  });
+});
+
+describe('configureEntitlements', () => {
+  it('should replace the app-wide engine', () => {
+    const engine = configureEntitlements({premium: ['premium']});
+
+    expect(getEntitlementEngine()).toBe(engine);
+    expect(getEntitlementEngine().get('premium').state).toBe('unknown');
+  });
+});
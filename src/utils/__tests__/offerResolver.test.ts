@@ -0,0 +1,149 @@
+import {createOfferResolver} from '../offerResolver';
+import type {
+  ProductSubscriptionAndroid,
+  ProductSubscriptionIOS,
+} from '../../types';
+
+const phase = (micros: string, period: string, recurrenceMode = 1) => ({
+  billingCycleCount: recurrenceMode === 1 ? 0 : 1,
+  billingPeriod: period,
+  formattedPrice: micros === '0' ? 'Free' : `$${Number(micros) / 1_000_000}`,
+  priceAmountMicros: micros,
+  priceCurrencyCode: 'USD',
+  recurrenceMode,
+});
+
+const offer = (
+  offerId: string | null,
+  phases: ReturnType<typeof phase>[],
+  offerTags: string[] = [],
+) => ({
+  basePlanId: 'monthly',
+  offerId,
+  offerTags,
+  offerToken: `${offerId ?? 'base'}-token`,
+  pricingPhases: {pricingPhaseList: phases},
+});
+
+const androidPremium = {
+  id: 'premium',
+  platform: 'android',
+  type: 'subs',
+  displayPrice: '$9.99',
+  subscriptionOfferDetailsAndroid: [
+    offer(null, [phase('9990000', 'P1M')]),
+    offer('intro', [phase('4990000', 'P1M', 2), phase('9990000', 'P1M')]),
+    offer('trial', [phase('0', 'P1W', 2), phase('9990000', 'P1M')]),
+    offer(
+      'comeback',
+      [phase('2990000', 'P1M', 2), phase('9990000', 'P1M')],
+      ['winback'],
+    ),
+  ],
+} as unknown as ProductSubscriptionAndroid;
+
+const iosPremium = {
+  id: 'premium',
+  platform: 'ios',
+  type: 'subs',
+  displayPrice: '$9.99',
+  price: 9.99,
+  subscriptionInfoIOS: {
+    subscriptionGroupId: 'group-1',
+    subscriptionPeriod: {unit: 'month', value: 1},
+    introductoryOffer: {
+      id: 'intro',
+      displayPrice: '$0.00',
+      price: 0,
+      paymentMode: 'free-trial',
+      period: {unit: 'week', value: 1},
+      periodCount: 1,
+      type: 'introductory',
+    },
+    promotionalOffers: [
+      {
+        id: 'winback',
+        displayPrice: '$4.99',
+        price: 4.99,
+        paymentMode: 'pay-as-you-go',
+        period: {unit: 'month', value: 1},
+        periodCount: 3,
+        type: 'promotional',
+      },
+    ],
+  },
+} as unknown as ProductSubscriptionIOS;
+
+describe('createOfferResolver', () => {
+  it('should classify and rank Android offers', async () => {
+    const offers = await createOfferResolver().resolve(androidPremium);
+
+    expect(offers.map((o) => [o.offerId, o.kind])).toEqual([
+      ['trial', 'free-trial'],
+      ['comeback', 'intro-price'],
+      ['intro', 'intro-price'],
+      [null, 'base'],
+    ]);
+    expect(offers[0]).toMatchObject({
+      offerTokenAndroid: 'trial-token',
+      basePlanIdAndroid: 'monthly',
+      displayPrice: 'Free',
+      price: 0,
+    });
+    expect(offers[0].phases.map((p) => p.type)).toEqual([
+      'free-trial',
+      'regular',
+    ]);
+  });
+
+  it('should rank preferred tags first and honor promotional tags', async () => {
+    const resolver = createOfferResolver({
+      preferTags: ['winback'],
+      promotionalTagsAndroid: ['winback'],
+    });
+
+    await expect(resolver.best(androidPremium)).resolves.toMatchObject({
+      offerId: 'comeback',
+      kind: 'promotional',
+      tags: ['winback'],
+    });
+  });
+
+  it('should include the iOS intro offer only when eligible', async () => {
+    const isEligibleForIntroOfferIOS = jest
+      .fn()
+      .mockResolvedValueOnce(true)
+      .mockResolvedValueOnce(false);
+    const resolver = createOfferResolver({isEligibleForIntroOfferIOS});
+
+    const eligible = await resolver.resolve(iosPremium);
+    const ineligible = await resolver.resolve(iosPremium);
+
+    expect(isEligibleForIntroOfferIOS).toHaveBeenCalledWith('group-1');
+    expect(eligible.map((o) => [o.offerId, o.kind])).toEqual([
+      ['intro', 'free-trial'],
+      ['winback', 'promotional'],
+      [null, 'base'],
+    ]);
+    expect(ineligible.map((o) => o.kind)).toEqual(['promotional', 'base']);
+    expect(eligible[0].offerTokenAndroid).toBeNull();
+  });
+
+  it('should apply kind order, offer ID preferences and filters', async () => {
+    const resolver = createOfferResolver({
+      kindOrder: ['promotional', 'base'],
+      filter: (o) => o.kind !== 'base',
+      isEligibleForIntroOfferIOS: jest.fn().mockResolvedValue(true),
+    });
+
+    const offers = await resolver.resolve(iosPremium);
+
+    expect(offers.map((o) => o.offerId)).toEqual(['winback', 'intro']);
+    await expect(
+      createOfferResolver({
+        preferTags: ['winback'],
+        isEligibleForIntroOfferIOS: jest.fn().mockResolvedValue(true),
+      }).best(iosPremium),
+    ).resolves.toMatchObject({offerId: 'winback'});
+  });
+});
@@ -0,0 +1,184 @@
+jest.mock('../../ExpoIapModule');
+jest.mock('react-native', () => ({
+  Platform: {OS: 'ios', select: jest.fn((obj) => obj.ios)},
+}));
+
+/* eslint-disable import/first */
+import ExpoIapModule from '../../ExpoIapModule';
+import {
+  fetchProducts,
+  getActiveSubscriptions,
+  getAvailablePurchases,
+} from '../../index';
+import {
+  configurePayloadValidation,
+  isValidPayload,
+  validatePayload,
+} from '../payloadValidation';
+/* eslint-enable import/first */
+
+const product = {
+  id: 'coins_100',
+  platform: 'ios',
+  type: 'in-app',
+  typeIOS: 'consumable',
+  title: '100 Coins',
+  description: 'A pile of coins',
+  displayNameIOS: '100 Coins',
+  displayPrice: '$0.99',
+  price: 0.99,
+  currency: 'USD',
+  isFamilyShareableIOS: false,
+  jsonRepresentationIOS: '{}',
+};
+
+const androidSubscription = {
+  id: 'premium',
+  platform: 'android',
+  type: 'subs',
+  title: 'Premium',
+  description: 'Premium plan',
+  displayPrice: '$4.99',
+  currency: 'USD',
+  nameAndroid: 'Premium',
+  subscriptionOfferDetailsAndroid: [
+    {
+      basePlanId: 'monthly',
+      offerTags: [],
+      offerToken: 'token',
+      pricingPhases: {
+        pricingPhaseList: [
+          {
+            billingCycleCount: 0,
+            billingPeriod: 'P1M',
+            formattedPrice: '$4.99',
+            priceAmountMicros: 4990000,
+            priceCurrencyCode: 'USD',
+            recurrenceMode: 1,
+          },
+        ],
+      },
+    },
+  ],
+};
+
+const purchase = {
+  id: '2000000000000001',
+  transactionId: '2000000000000001',
+  productId: 'coins_100',
+  platform: 'ios',
+  purchaseState: 'purchased',
+  isAutoRenewing: false,
+  quantity: 1,
+  transactionDate: 1700000000000,
+};
+
+describe('validatePayload', () => {
+  it('should accept well-formed payloads', () => {
+    expect(validatePayload('Product', product)).toEqual([]);
+    expect(validatePayload('Purchase', purchase)).toEqual([]);
+    expect(
+      isValidPayload('Purchase', {...purchase, expirationDateIOS: null}),
+    ).toBe(true);
+  });
+
+  it('should report nested field paths', () => {
+    expect(validatePayload('ProductSubscription', androidSubscription)).toEqual(
+      [
+        {
+          path: '$.subscriptionOfferDetailsAndroid[0].pricingPhases.pricingPhaseList[0].priceAmountMicros',
+          message: 'expected string, received number',
+        },
+      ],
+    );
+  });
+
+  it('should validate each platform variant and the receipt union', () => {
+    expect(validatePayload('Purchase', {...purchase, platform: 'web'})).toEqual(
+      [
+        {
+          path: '$',
+          message: 'expected Purchase, received an object matching no variant',
+        },
+      ],
+    );
+    expect(
+      validatePayload('ReceiptValidationResult', {
+        isValid: true,
+        jwsRepresentation: 'jws',
+        receiptData: 'data',
+        latestTransaction: {...purchase, quantity: '1'},
+      }),
+    ).toEqual([
+      {
+        path: '$.latestTransaction.quantity',
+        message: 'expected number, received string',
+      },
+    ]);
+  });
+});
+
+describe('configurePayloadValidation', () => {
+  const onInvalidPayload = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  afterEach(() => {
+    configurePayloadValidation({mode: 'off', onInvalidPayload: undefined});
+  });
+
+  it('should pass payloads through unchecked by default', async () => {
+    (ExpoIapModule.getAvailableItems as jest.Mock) = jest
+      .fn()
+      .mockResolvedValue([{productId: 42}]);
+
+    await expect(getAvailablePurchases()).resolves.toEqual([{productId: 42}]);
+  });
+
+  it('should report invalid payloads and keep them in report mode', async () => {
+    configurePayloadValidation({mode: 'report', onInvalidPayload});
+    (ExpoIapModule.getActiveSubscriptions as jest.Mock) = jest
+      .fn()
+      .mockResolvedValue([{productId: 'premium', isActive: 'yes'}]);
+
+    const result = await getActiveSubscriptions();
+
+    expect(result).toHaveLength(1);
+    expect(onInvalidPayload).toHaveBeenCalledWith(
+      expect.objectContaining({
+        kind: 'ActiveSubscription',
+        source: 'getActiveSubscriptions',
+        issues: expect.arrayContaining([
+          {path: '$[0].isActive', message: 'expected boolean, received string'},
+        ]),
+      }),
+    );
+  });
+
+  it('should reject invalid payloads in strict mode', async () => {
+    configurePayloadValidation({mode: 'strict', onInvalidPayload});
+    (ExpoIapModule.fetchProducts as jest.Mock).mockResolvedValueOnce([
+      {...product, price: '0.99'},
+    ]);
+
+    await expect(
+      fetchProducts({skus: ['coins_100'], type: 'in-app'}),
+    ).rejects.toMatchObject({
+      code: 'billing-response-json-parse-error',
+      message:
+        'Invalid Product payload from fetchProducts: $[0].price expected number, received string',
+    });
+    expect(onInvalidPayload).toHaveBeenCalledTimes(1);
+  });
+
+  it('should resolve valid payloads in strict mode', async () => {
+    configurePayloadValidation({mode: 'strict'});
+    (ExpoIapModule.fetchProducts as jest.Mock).mockResolvedValueOnce([product]);
+
+    await expect(
+      fetchProducts({skus: ['coins_100'], type: 'in-app'}),
+    ).resolves.toEqual([product]);
+  });
+});
@@ -0,0 +1,109 @@
+import {androidPurchase, NOW, setPlatform} from '../../__mocks__/purchases';
+import {createPendingPurchaseTracker} from '../pendingPurchases';
+import {createPurchaseError} from '../errorMapping';
+import {ErrorCode} from '../../types';
+
+jest.mock('../../ExpoIapModule');
+setPlatform('android');
+
+const pendingPurchase = (overrides: Record<string, unknown> = {}) =>
+  androidPurchase({purchaseState: 'pending', ...overrides});
+
+const request = {
+  request: {ios: {sku: 'coins_100'}, android: {skus: ['coins_100']}},
+  type: 'in-app' as const,
+};
+
+describe('createPendingPurchaseTracker', () => {
+  afterEach(() => {
+    setPlatform('android');
+  });
+
+  it('should match a completed pending purchase to its request', () => {
+    const tracker = createPendingPurchaseTracker({now: () => NOW});
+    tracker.trackRequest(request);
+
+    expect(tracker.handlePurchase(pendingPurchase())).toEqual({
+      type: 'pending',
+      pending: {
+        productId: 'coins_100',
+        reason: 'pending',
+        request,
+        purchase: expect.objectContaining({purchaseState: 'pending'}),
+        since: NOW,
+      },
+    });
+    expect(tracker.handlePurchase(pendingPurchase())).toBeNull();
+    expect(tracker.getPending()).toHaveLength(1);
+
+    const completed = pendingPurchase({purchaseState: 'purchased'});
+    expect(tracker.handlePurchase(completed)).toEqual({
+      type: 'resolved',
+      pending: expect.objectContaining({request}),
+      resolution: {status: 'purchased', purchase: completed},
+    });
+    expect(tracker.getPending()).toEqual([]);
+  });
+
+  it('should track Ask to Buy and its failure on iOS', () => {
+    setPlatform('ios');
+    const tracker = createPendingPurchaseTracker({now: () => NOW});
+    tracker.trackRequest(request);
+
+    const deferred = tracker.handleError(
+      createPurchaseError({
+        message: 'Ask to Buy',
+        code: ErrorCode.DeferredPayment,
+        productId: 'coins_100',
+      }),
+    );
+    expect(deferred).toMatchObject({
+      type: 'pending',
+      pending: {productId: 'coins_100', reason: 'deferred', purchase: null},
+    });
+
+    const declined = createPurchaseError({
+      message: 'Declined',
+      code: ErrorCode.UserCancelled,
+      productId: 'coins_100',
+    });
+    expect(tracker.handleError(declined)).toMatchObject({
+      type: 'resolved',
+      pending: {reason: 'deferred', request},
+      resolution: {status: 'failed', error: declined},
+    });
+  });
+
+  it('should ignore errors that do not name a product', () => {
+    const tracker = createPendingPurchaseTracker({now: () => NOW});
+    tracker.trackRequest(request);
+    tracker.handlePurchase(pendingPurchase());
+
+    expect(
+      tracker.handleError(
+        createPurchaseError({
+          message: 'Cancelled',
+          code: ErrorCode.UserCancelled,
+        }),
+      ),
+    ).toBeNull();
+    expect(tracker.getPending()).toHaveLength(1);
+  });
+
+  it('should ignore outcomes of purchases that were never pending', () => {
+    const tracker = createPendingPurchaseTracker();
+    tracker.trackRequest(request);
+
+    expect(
+      tracker.handlePurchase(pendingPurchase({purchaseState: 'purchased'})),
+    ).toBeNull();
+    expect(
+      tracker.handleError(
+        createPurchaseError({
+          message: 'Cancelled',
+          code: ErrorCode.UserCancelled,
+        }),
+      ),
+    ).toBeNull();
+  });
+});
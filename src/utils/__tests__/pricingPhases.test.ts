@@ -0,0 +1,207 @@
+import {getPricingPhases} from '../pricingPhases';
+import type {
+  ProductSubscriptionAndroid,
+  ProductSubscriptionIOS,
+} from '../../types';
+
+const phase = (
+  micros: string,
+  billingPeriod: string,
+  recurrenceMode: number,
+  billingCycleCount = 0,
+) => ({
+  billingCycleCount,
+  billingPeriod,
+  formattedPrice: micros === '0' ? 'Free' : `$${Number(micros) / 1_000_000}`,
+  priceAmountMicros: micros,
+  priceCurrencyCode: 'USD',
+  recurrenceMode,
+});
+
+const androidPremium = {
+  id: 'premium',
+  platform: 'android',
+  type: 'subs',
+  subscriptionOfferDetailsAndroid: [
+    {
+      basePlanId: 'monthly',
+      offerId: null,
+      offerTags: [],
+      offerToken: 'base-token',
+      pricingPhases: {pricingPhaseList: [phase('4990000', 'P1M', 1)]},
+    },
+    {
+      basePlanId: 'monthly',
+      offerId: 'trial',
+      offerTags: [],
+      offerToken: 'trial-token',
+      pricingPhases: {
+        pricingPhaseList: [
+          phase('0', 'P3D', 2, 1),
+          phase('1990000', 'P1M', 2, 3),
+          phase('4990000', 'P1M', 1),
+        ],
+      },
+    },
+    {
+      basePlanId: 'yearly',
+      offerId: null,
+      offerTags: [],
+      offerToken: 'yearly-token',
+      pricingPhases: {pricingPhaseList: [phase('49990000', 'P1Y', 1)]},
+    },
+    {
+      basePlanId: 'yearly',
+      offerId: 'trial',
+      offerTags: [],
+      offerToken: 'yearly-trial-token',
+      pricingPhases: {
+        pricingPhaseList: [
+          phase('0', 'P7D', 2, 1),
+          phase('49990000', 'P1Y', 1),
+        ],
+      },
+    },
+    {
+      basePlanId: 'prepaid',
+      offerId: 'prepaid-year',
+      offerTags: [],
+      offerToken: 'prepaid-token',
+      pricingPhases: {pricingPhaseList: [phase('39990000', 'P1Y', 3)]},
+    },
+  ],
+} as unknown as ProductSubscriptionAndroid;
+
+const iosOffer = (id: string, paymentMode: string, price: number) => ({
+  id,
+  displayPrice: price === 0 ? '$0.00' : `$${price}`,
+  price,
+  paymentMode,
+  period: {unit: 'month', value: 1},
+  periodCount: 3,
+  type: 'promotional',
+});
+
+const iosPremium = {
+  id: 'premium',
+  platform: 'ios',
+  type: 'subs',
+  currency: 'USD',
+  displayPrice: '$4.99',
+  price: 4.99,
+  subscriptionInfoIOS: {
+    subscriptionGroupId: 'group-1',
+    subscriptionPeriod: {unit: 'month', value: 1},
+    introductoryOffer: {
+      ...iosOffer('intro', 'free-trial', 0),
+      period: {unit: 'day', value: 3},
+      periodCount: 1,
+      type: 'introductory',
+    },
+    promotionalOffers: [
+      iosOffer('winback', 'pay-as-you-go', 1.99),
+      iosOffer('upfront', 'pay-up-front', 9.99),
+    ],
+  },
+} as unknown as ProductSubscriptionIOS;
+
+describe('getPricingPhases', () => {
+  it('should normalize Android pricing phases', () => {
+    expect(getPricingPhases(androidPremium, 'trial', 'monthly')).toEqual([
+      {
+        type: 'free-trial',
+        billingPeriod: {unit: 'day', value: 3},
+        cycleCount: 1,
+        duration: {unit: 'day', value: 3},
+        price: 0,
+        displayPrice: 'Free',
+        currency: 'USD',
+        recurrence: 'finite',
+      },
+      expect.objectContaining({
+        type: 'discount',
+        cycleCount: 3,
+        duration: {unit: 'month', value: 3},
+        price: 1.99,
+      }),
+      expect.objectContaining({
+        type: 'regular',
+        billingPeriod: {unit: 'month', value: 1},
+        cycleCount: null,
+        duration: null,
+        price: 4.99,
+        recurrence: 'infinite',
+      }),
+    ]);
+  });
+
+  it('should return the Android base plan and prepaid phases', () => {
+    expect(getPricingPhases(androidPremium)).toEqual([
+      expect.objectContaining({type: 'regular', price: 4.99}),
+    ]);
+    expect(getPricingPhases(androidPremium, 'prepaid-year')).toEqual([
+      expect.objectContaining({
+        type: 'regular',
+        billingPeriod: {unit: 'year', value: 1},
+        cycleCount: 1,
+        recurrence: 'non-recurring',
+      }),
+    ]);
+    expect(getPricingPhases(androidPremium, 'missing')).toEqual([]);
+  });
+
+  it('should match Android offers on the base plan as well as the offer ID', () => {
+    expect(getPricingPhases(androidPremium, 'trial', 'yearly')).toEqual([
+      expect.objectContaining({
+        type: 'free-trial',
+        duration: {unit: 'day', value: 7},
+      }),
+      expect.objectContaining({type: 'regular', price: 49.99}),
+    ]);
+    expect(getPricingPhases(androidPremium, null, 'yearly')).toEqual([
+      expect.objectContaining({
+        type: 'regular',
+        billingPeriod: {unit: 'year', value: 1},
+      }),
+    ]);
+    expect(getPricingPhases(androidPremium, 'trial')).toEqual([]);
+    expect(getPricingPhases(androidPremium, 'trial', 'prepaid')).toEqual([]);
+  });
+
+  it('should normalize iOS offers followed by the regular price', () => {
+    const regular = {
+      type: 'regular',
+      billingPeriod: {unit: 'month', value: 1},
+      cycleCount: null,
+      duration: null,
+      price: 4.99,
+      displayPrice: '$4.99',
+      currency: 'USD',
+      recurrence: 'infinite',
+    };
+
+    expect(getPricingPhases(iosPremium)).toEqual([regular]);
+    expect(getPricingPhases(iosPremium, 'intro')).toEqual([
+      expect.objectContaining({
+        type: 'free-trial',
+        duration: {unit: 'day', value: 3},
+        price: 0,
+        currency: 'USD',
+      }),
+      regular,
+    ]);
+    expect(getPricingPhases(iosPremium, 'winback')[0]).toMatchObject({
+      type: 'discount',
+      billingPeriod: {unit: 'month', value: 1},
+      cycleCount: 3,
+      recurrence: 'finite',
+    });
+    expect(getPricingPhases(iosPremium, 'upfront')[0]).toMatchObject({
+      type: 'discount',
+      billingPeriod: {unit: 'month', value: 3},
+      cycleCount: 1,
+      price: 9.99,
+      recurrence: 'non-recurring',
+    });
+  });
+});
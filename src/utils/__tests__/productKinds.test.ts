@@ -0,0 +1,138 @@
+import {androidPurchase, setPlatform} from '../../__mocks__/purchases';
+import ExpoIapModule from '../../ExpoIapModule';
+import {finishTransaction} from '../../index';
+import {
+  configureProductKinds,
+  createProductKindRegistry,
+  finishPurchase,
+} from '../productKinds';
+import type {Product} from '../../types';
+
+jest.mock('../../ExpoIapModule');
+setPlatform('android');
+
+describe('productKinds', () => {
+  beforeEach(() => {
+    (ExpoIapModule.consumePurchaseAndroid as jest.Mock) = jest
+      .fn()
+      .mockResolvedValue(true);
+    (ExpoIapModule.acknowledgePurchaseAndroid as jest.Mock) = jest
+      .fn()
+      .mockResolvedValue(true);
+  });
+
+  describe('createProductKindRegistry', () => {
+    it('should infer kinds from products and prefer declared kinds', () => {
+      const registry = createProductKindRegistry({pass: 'consumable'});
+      registry.registerProducts([
+        {id: 'pass', platform: 'ios', typeIOS: 'non-consumable'},
+        {id: 'season', platform: 'ios', typeIOS: 'non-renewing-subscription'},
+        {id: 'premium', platform: 'android', type: 'subs'},
+        {id: 'coins_100', platform: 'android', type: 'in-app'},
+      ] as unknown as Product[]);
+
+      expect(registry.kindOf('pass')).toBe('consumable');
+      expect(registry.kindOf('season')).toBe('non-renewing');
+      expect(registry.kindOf('premium')).toBe('subscription');
+      expect(registry.kindOf('coins_100')).toBeNull();
+    });
+
+    it('should pick the finish action per platform and kind', () => {
+      const registry = createProductKindRegistry({
+        coins_100: 'consumable',
+        remove_ads: 'non-consumable',
+        season: 'non-renewing',
+      });
+
+      expect(registry.finishActionOf(androidPurchase())).toBe('consume');
+      expect(
+        registry.finishActionOf(androidPurchase({productId: 'season'})),
+      ).toBe('consume');
+      expect(
+        registry.finishActionOf(androidPurchase({productId: 'remove_ads'})),
+      ).toBe('acknowledge');
+      expect(registry.finishActionOf(androidPurchase({platform: 'ios'}))).toBe(
+        'finish',
+      );
+      expect(
+        registry.finishActionOf(androidPurchase({productId: 'unknown'})),
+      ).toBeNull();
+    });
+  });
+
+  describe('finishPurchase', () => {
+    const registry = createProductKindRegistry({
+      coins_100: 'consumable',
+      remove_ads: 'non-consumable',
+    });
+
+    it('should consume consumables and acknowledge the rest', async () => {
+      await expect(finishPurchase(androidPurchase(), {registry})).resolves.toBe(
+        'consume',
+      );
+      await expect(
+        finishPurchase(androidPurchase({productId: 'remove_ads'}), {registry}),
+      ).resolves.toBe('acknowledge');
+
+      expect(ExpoIapModule.consumePurchaseAndroid).toHaveBeenCalledWith(
+        'token-1',
+      );
+      expect(ExpoIapModule.acknowledgePurchaseAndroid).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not finish pending or unverified purchases', async () => {
+      const verify = jest.fn().mockResolvedValue(false);
+
+      await expect(
+        finishPurchase(androidPurchase({purchaseState: 'pending'}), {
+          registry,
+          verify,
+        }),
+      ).resolves.toBeNull();
+      await expect(
+        finishPurchase(androidPurchase(), {registry, verify}),
+      ).resolves.toBeNull();
+
+      expect(verify).toHaveBeenCalledTimes(1);
+      expect(ExpoIapModule.consumePurchaseAndroid).not.toHaveBeenCalled();
+    });
+
+    it('should warn and skip products of unknown kind', async () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      await expect(
+        finishPurchase(androidPurchase({productId: 'unknown'}), {registry}),
+      ).resolves.toBeNull();
+
+      expect(warnSpy).toHaveBeenCalledWith(
+        '[Expo-IAP]',
+        expect.stringContaining('unknown product kind for unknown'),
+      );
+      expect(ExpoIapModule.acknowledgePurchaseAndroid).not.toHaveBeenCalled();
+      warnSpy.mockRestore();
+    });
+
+    it('should skip incomplete purchases before looking up their kind', async () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      await expect(
+        finishPurchase(
+          androidPurchase({productId: 'unknown', purchaseState: 'pending'}),
+          {registry},
+        ),
+      ).resolves.toBeNull();
+
+      expect(warnSpy).not.toHaveBeenCalled();
+      warnSpy.mockRestore();
+    });
+  });
+
+  it('should leave finishTransaction independent of declared kinds', async () => {
+    configureProductKinds({coins_100: 'consumable'});
+
+    await finishTransaction({purchase: androidPurchase()});
+
+    expect(ExpoIapModule.consumePurchaseAndroid).not.toHaveBeenCalled();
+    expect(ExpoIapModule.acknowledgePurchaseAndroid).toHaveBeenCalledTimes(1);
+  });
+});
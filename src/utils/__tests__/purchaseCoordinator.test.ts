@@ -0,0 +1,110 @@
+import {
+  configurePurchaseCoordinator,
+  createPurchaseCoordinator,
+  getPurchaseCoordinator,
+  isPurchaseInProgressError,
+  subscribeToPurchasing,
+} from '../purchaseCoordinator';
+
+const deferred = <T>() => {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return {promise, resolve, reject};
+};
+
+describe('purchaseCoordinator', () => {
+  it('should reject overlapping flows with a typed error by default', async () => {
+    const coordinator = createPurchaseCoordinator();
+    const first = deferred<string>();
+    const running = coordinator.run('coins_100', () => first.promise);
+
+    const overlapping = coordinator.run('coins_100', async () => 'second');
+    await expect(overlapping).rejects.toMatchObject({
+      code: 'purchase-error',
+      inProgressKey: 'coins_100',
+    });
+    await overlapping.catch((error) => {
+      expect(isPurchaseInProgressError(error)).toBe(true);
+    });
+
+    first.resolve('first');
+    await expect(running).resolves.toBe('first');
+    expect(coordinator.isPurchasing()).toBe(false);
+  });
+
+  it('should queue flows and run them in order', async () => {
+    const coordinator = createPurchaseCoordinator({policy: 'queue'});
+    const first = deferred<string>();
+    const second = jest.fn(async () => 'second');
+
+    const running = coordinator.run('coins_100', () => first.promise);
+    const queued = coordinator.run('premium', second);
+    expect(second).not.toHaveBeenCalled();
+
+    first.reject(new Error('cancelled'));
+    await expect(running).rejects.toThrow('cancelled');
+    await expect(queued).resolves.toBe('second');
+    expect(second).toHaveBeenCalledTimes(1);
+  });
+
+  it('should join flows for the same products only', async () => {
+    const coordinator = createPurchaseCoordinator({policy: 'join'});
+    const first = deferred<string>();
+    const second = jest.fn(async () => 'second');
+
+    const running = coordinator.run('coins_100', () => first.promise);
+    const joined = coordinator.run('coins_100', second);
+    const other = coordinator.run('premium', second);
+    await other.catch((error) => {
+      expect(isPurchaseInProgressError(error)).toBe(true);
+    });
+
+    first.resolve('first');
+    await expect(running).resolves.toBe('first');
+    await expect(joined).resolves.toBe('first');
+    expect(second).not.toHaveBeenCalled();
+  });
+
+  it('should notify listeners when purchasing starts and stops', async () => {
+    const coordinator = createPurchaseCoordinator({policy: 'queue'});
+    const listener = jest.fn();
+    const unsubscribe = coordinator.subscribe(listener);
+    const first = deferred<void>();
+
+    const running = coordinator.run('coins_100', () => first.promise);
+    const queued = coordinator.run('premium', async () => undefined);
+    expect(coordinator.isPurchasing()).toBe(true);
+
+    first.resolve();
+    await running;
+    await queued;
+    await Promise.resolve();
+
+    expect(listener.mock.calls).toEqual([[true], [false]]);
+    unsubscribe();
+  });
+
+  it('should replace the app-wide coordinator', () => {
+    const configured = configurePurchaseCoordinator({policy: 'queue'});
+    expect(getPurchaseCoordinator()).toBe(configured);
+  });
+
+  it('should follow coordinators configured after subscribing', async () => {
+    const listener = jest.fn();
+    const unsubscribe = subscribeToPurchasing(listener);
+    const flow = deferred<void>();
+
+    const configured = configurePurchaseCoordinator({policy: 'reject'});
+    const running = configured.run('coins_100', () => flow.promise);
+    flow.resolve();
+    await running;
+    await Promise.resolve();
+
+    expect(listener.mock.calls).toEqual([[false], [false], [true], [false]]);
+    unsubscribe();
+  });
+});
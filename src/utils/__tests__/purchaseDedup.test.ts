@@ -0,0 +1,142 @@
+import {
+  DAY_MS,
+  flushPromises,
+  iosPurchase,
+  NOW,
+  setPlatform,
+} from '../../__mocks__/purchases';
+import ExpoIapModule from '../../ExpoIapModule';
+import {purchaseUpdatedListener} from '../../index';
+import {createPurchaseDeduplicator} from '../purchaseDedup';
+import {createMemoryStorage} from '../storage';
+import type {Purchase} from '../../types';
+
+jest.mock('../../ExpoIapModule');
+setPlatform('ios');
+
+describe('createPurchaseDeduplicator', () => {
+  it('should let each transaction through once across sessions', async () => {
+    const storage = createMemoryStorage();
+    const first = createPurchaseDeduplicator({storage, now: () => NOW});
+
+    await expect(first.claim(iosPurchase())).resolves.toBe(true);
+    await expect(first.claim(iosPurchase())).resolves.toBe(false);
+    await first.commit(iosPurchase());
+
+    const next = createPurchaseDeduplicator({storage, now: () => NOW});
+    await expect(next.claim(iosPurchase())).resolves.toBe(false);
+    await expect(
+      next.claim(iosPurchase({id: '1002', transactionId: '1002'})),
+    ).resolves.toBe(true);
+  });
+
+  it('should forget transactions after the TTL', async () => {
+    let time = NOW;
+    const deduplicator = createPurchaseDeduplicator({
+      ttlMs: DAY_MS,
+      now: () => time,
+    });
+    await deduplicator.claim(iosPurchase());
+    await deduplicator.commit(iosPurchase());
+
+    time = NOW + DAY_MS;
+    await expect(deduplicator.claim(iosPurchase())).resolves.toBe(true);
+  });
+
+  it('should let a released purchase through again', async () => {
+    const deduplicator = createPurchaseDeduplicator();
+    await deduplicator.claim(iosPurchase());
+    deduplicator.release(iosPurchase());
+
+    await expect(deduplicator.claim(iosPurchase())).resolves.toBe(true);
+  });
+
+  it('should never record pending purchases', async () => {
+    const deduplicator = createPurchaseDeduplicator();
+    const pending = iosPurchase({purchaseState: 'pending'});
+    await deduplicator.claim(pending);
+    await deduplicator.commit(pending);
+
+    await expect(deduplicator.claim(pending)).resolves.toBe(true);
+    await expect(deduplicator.claim(iosPurchase())).resolves.toBe(true);
+  });
+
+  describe('purchaseUpdatedListener', () => {
+    let emit: (purchase: Purchase) => void;
+
+    beforeEach(() => {
+      (ExpoIapModule.addListener as jest.Mock) = jest.fn((_, listener) => {
+        emit = listener;
+        return {remove: jest.fn()};
+      });
+    });
+
+    it('should drop duplicates and report them', async () => {
+      const listener = jest.fn();
+      const onDuplicate = jest.fn();
+      purchaseUpdatedListener(listener, {
+        dedupe: createPurchaseDeduplicator(),
+        onDuplicate,
+      });
+
+      emit(iosPurchase());
+      await flushPromises();
+      emit(iosPurchase());
+      await flushPromises();
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(onDuplicate).toHaveBeenCalledWith(
+        expect.objectContaining({transactionId: '1001'}),
+      );
+    });
+
+    it('should release a purchase whose listener throws', async () => {
+      const listener = jest
+        .fn()
+        .mockRejectedValueOnce(new Error('grant failed'))
+        .mockResolvedValue(undefined);
+      purchaseUpdatedListener(listener, {dedupe: createPurchaseDeduplicator()});
+
+      emit(iosPurchase());
+      await flushPromises();
+      expect(listener).toHaveBeenCalledTimes(1);
+
+      emit(iosPurchase());
+      await flushPromises();
+      emit(iosPurchase());
+      await flushPromises();
+      expect(listener).toHaveBeenCalledTimes(2);
+    });
+
+    it('should treat a purchase as seen while its listener runs', async () => {
+      let finish: () => void = () => undefined;
+      const listener = jest.fn(
+        () => new Promise<void>((resolve) => (finish = resolve)),
+      );
+      const onDuplicate = jest.fn();
+      purchaseUpdatedListener(listener, {
+        dedupe: createPurchaseDeduplicator(),
+        onDuplicate,
+      });
+
+      emit(iosPurchase());
+      await flushPromises();
+      emit(iosPurchase());
+      await flushPromises();
+      finish();
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(onDuplicate).toHaveBeenCalledTimes(1);
+    });
+
+    it('should deliver raw events without dedupe', () => {
+      const listener = jest.fn();
+      purchaseUpdatedListener(listener);
+
+      emit(iosPurchase());
+      emit(iosPurchase());
+
+      expect(listener).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,179 @@
+import {setPlatform} from '../../__mocks__/purchases';
+import ExpoIapModule from '../../ExpoIapModule';
+import {initConnection, OpenIapEvent} from '../../index';
+import {createFakeStore, installFakeStore} from '../../testing/fakeStore';
+import {getPurchaseCoordinator} from '../purchaseCoordinator';
+import {
+  EXCLUSIVE_PURCHASE_TIMEOUT_MS,
+  purchase,
+  requestPurchaseExclusive,
+} from '../purchaseFlow';
+import type {ProductAndroid, ProductIOS} from '../../types';
+
+const iosCoins = {
+  id: 'coins_100',
+  platform: 'ios',
+  type: 'in-app',
+  typeIOS: 'consumable',
+  title: '100 Coins',
+  description: 'A pile of coins',
+  displayNameIOS: '100 Coins',
+  displayPrice: '$0.99',
+  price: 0.99,
+  currency: 'USD',
+  isFamilyShareableIOS: false,
+  jsonRepresentationIOS: '{}',
+} as ProductIOS;
+
+const androidCoins = {
+  id: 'coins_100',
+  platform: 'android',
+  type: 'in-app',
+  title: '100 Coins',
+  description: 'A pile of coins',
+  displayPrice: '$0.99',
+  price: 0.99,
+  currency: 'USD',
+  nameAndroid: '100 Coins',
+} as ProductAndroid;
+
+const request = {
+  request: {ios: {sku: 'coins_100'}, android: {skus: ['coins_100']}},
+  type: 'in-app' as const,
+};
+
+describe('purchase', () => {
+  let uninstall: () => void;
+
+  const setup = async (os: 'ios' | 'android') => {
+    setPlatform(os);
+    const store = createFakeStore({
+      platform: os,
+      products: [os === 'ios' ? iosCoins : androidCoins],
+    });
+    uninstall = installFakeStore(store);
+    await initConnection();
+    return store;
+  };
+
+  afterEach(() => {
+    uninstall?.();
+  });
+
+  it.each(['ios', 'android'] as const)(
+    'should resolve with the purchase on %s',
+    async (os) => {
+      const store = await setup(os);
+
+      const outcome = await purchase(request);
+
+      expect(outcome).toEqual({
+        status: 'purchased',
+        purchase: expect.objectContaining({productId: 'coins_100'}),
+      });
+      expect(store.listenerCount()).toBe(0);
+    },
+  );
+
+  it('should reject with the matching purchase error', async () => {
+    const store = await setup('android');
+    store.queuePurchaseOutcome('cancelled');
+
+    await expect(purchase(request)).rejects.toMatchObject({
+      code: 'user-cancelled',
+      productId: 'coins_100',
+    });
+  });
+
+  it('should report pending and deferred outcomes', async () => {
+    const android = await setup('android');
+    android.queuePurchaseOutcome('pending');
+    await expect(purchase(request)).resolves.toEqual({
+      status: 'pending',
+      purchase: expect.objectContaining({purchaseState: 'pending'}),
+    });
+    uninstall();
+
+    const ios = await setup('ios');
+    ios.queuePurchaseOutcome('pending');
+    await expect(purchase(request)).resolves.toEqual({
+      status: 'deferred',
+      purchase: null,
+    });
+  });
+
+  it('should ignore events for other products and time out', async () => {
+    jest.useFakeTimers();
+    try {
+      const store = await setup('android');
+      (ExpoIapModule as any).requestPurchase = jest.fn(async () => {
+        store.emit(OpenIapEvent.PurchaseUpdated, {productId: 'other'} as any);
+        return [];
+      });
+
+      const outcome = purchase({...request, timeoutMs: 1000});
+      await Promise.resolve();
+      jest.advanceTimersByTime(1000);
+
+      await expect(outcome).resolves.toEqual({
+        status: 'timed-out',
+        purchase: null,
+      });
+      expect(store.listenerCount()).toBe(0);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should time out by default and release the coordinator', async () => {
+    jest.useFakeTimers();
+    try {
+      await setup('android');
+      (ExpoIapModule as any).requestPurchase = jest.fn(async () => []);
+
+      const outcome = purchase(request);
+      await Promise.resolve();
+      expect(getPurchaseCoordinator().isPurchasing()).toBe(true);
+      jest.advanceTimersByTime(EXCLUSIVE_PURCHASE_TIMEOUT_MS);
+
+      await expect(outcome).resolves.toEqual({
+        status: 'timed-out',
+        purchase: null,
+      });
+      expect(getPurchaseCoordinator().isPurchasing()).toBe(false);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  describe('requestPurchaseExclusive', () => {
+    it('should release the coordinator when the request fails', async () => {
+      await setup('android');
+      (ExpoIapModule as any).requestPurchase = jest.fn(async () => {
+        throw new Error('billing unavailable');
+      });
+
+      await expect(requestPurchaseExclusive(request)).rejects.toThrow(
+        'billing unavailable',
+      );
+      expect(getPurchaseCoordinator().isPurchasing()).toBe(false);
+    });
+
+    it('should release the coordinator after the default timeout', async () => {
+      jest.useFakeTimers();
+      try {
+        await setup('android');
+        (ExpoIapModule as any).requestPurchase = jest.fn(async () => []);
+
+        await expect(requestPurchaseExclusive(request)).resolves.toEqual([]);
+        expect(getPurchaseCoordinator().isPurchasing()).toBe(true);
+
+        jest.advanceTimersByTime(EXCLUSIVE_PURCHASE_TIMEOUT_MS);
+        await Promise.resolve();
+        expect(getPurchaseCoordinator().isPurchasing()).toBe(false);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+  });
+});
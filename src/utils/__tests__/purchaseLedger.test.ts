@@ -0,0 +1,157 @@
+import {
+  androidPurchase,
+  DAY_MS,
+  iosPurchase,
+  NOW,
+  setPlatform,
+} from '../../__mocks__/purchases';
+import ExpoIapModule from '../../ExpoIapModule';
+import {createPurchaseLedger} from '../purchaseLedger';
+import type {Purchase} from '../../types';
+
+jest.mock('../../ExpoIapModule');
+setPlatform('ios');
+
+const lifetimePurchase = (overrides: Record<string, unknown> = {}) =>
+  iosPurchase({
+    productId: 'lifetime',
+    transactionDate: NOW - DAY_MS,
+    ...overrides,
+  });
+
+const premiumPurchase = (overrides: Record<string, unknown> = {}) =>
+  androidPurchase({
+    transactionId: 'GPA.1',
+    productId: 'premium',
+    isAutoRenewing: true,
+    transactionDate: NOW - DAY_MS,
+    dataAndroid: JSON.stringify({orderId: 'GPA.1', autoRenewing: true}),
+    ...overrides,
+  });
+
+const types = (changes: {type: string; productId: string}[]) =>
+  changes.map((change) => `${change.type}:${change.productId}`);
+
+describe('createPurchaseLedger', () => {
+  it('should report new purchases once', () => {
+    const onChange = jest.fn();
+    const ledger = createPurchaseLedger({now: () => NOW, onChange});
+
+    expect(types(ledger.reconcile([lifetimePurchase()]))).toEqual([
+      'new:lifetime',
+    ]);
+    expect(ledger.reconcile([lifetimePurchase()])).toEqual([]);
+    expect(onChange).toHaveBeenCalledWith({
+      type: 'new',
+      transactionId: '1001',
+      productId: 'lifetime',
+      purchase: lifetimePurchase(),
+      at: NOW,
+    });
+  });
+
+  it('should report revocations and refunds', () => {
+    const ledger = createPurchaseLedger({
+      initial: [
+        lifetimePurchase(),
+        lifetimePurchase({
+          id: '1002',
+          transactionId: '1002',
+          productId: 'no_ads',
+        }),
+      ],
+      now: () => NOW,
+    });
+
+    const changes = ledger.reconcile([
+      lifetimePurchase({revocationDateIOS: NOW - 1000}),
+    ]);
+
+    expect(types(changes)).toEqual(['revoked:lifetime', 'refunded:no_ads']);
+    expect(ledger.reconcile([])).toEqual([]);
+  });
+
+  it('should tell expiry from refunds and ignore renewals and consumables', () => {
+    const subscription = lifetimePurchase({
+      productId: 'premium',
+      isAutoRenewing: true,
+      originalTransactionIdentifierIOS: '1001',
+      expirationDateIOS: NOW + 30 * DAY_MS,
+    });
+    const renewal = {
+      ...subscription,
+      id: '1003',
+      transactionId: '1003',
+      expirationDateIOS: NOW + 60 * DAY_MS,
+    } as Purchase;
+    const coins = lifetimePurchase({
+      id: '1004',
+      transactionId: '1004',
+      productId: 'coins',
+    });
+    let now = NOW;
+    const ledger = createPurchaseLedger({
+      initial: [subscription, coins],
+      consumables: ['coins'],
+      now: () => now,
+    });
+
+    now = NOW + 31 * DAY_MS;
+    expect(ledger.reconcile([renewal])).toEqual([
+      expect.objectContaining({type: 'new', transactionId: '1003'}),
+    ]);
+    expect(types(ledger.reconcile([]))).toEqual(['refunded:premium']);
+
+    ledger.reconcile([renewal]);
+    now = NOW + 61 * DAY_MS;
+    expect(types(ledger.reconcile([]))).toEqual(['expired:premium']);
+  });
+
+  it('should key Android purchases by token', () => {
+    const ledger = createPurchaseLedger({now: () => NOW});
+
+    expect(
+      ledger.reconcile([
+        premiumPurchase({purchaseState: 'pending', transactionId: null}),
+      ]),
+    ).toEqual([]);
+    expect(types(ledger.reconcile([premiumPurchase()]))).toEqual([
+      'new:premium',
+    ]);
+    expect(
+      ledger.reconcile([premiumPurchase({transactionId: 'GPA.1..0'})]),
+    ).toEqual([]);
+
+    ledger.reconcile([premiumPurchase({isAutoRenewing: false})]);
+    expect(types(ledger.reconcile([]))).toEqual(['expired:premium']);
+  });
+
+  it('should not report held Android subscriptions as refunded', () => {
+    const ledger = createPurchaseLedger({
+      initial: [premiumPurchase()],
+      now: () => NOW,
+    });
+
+    // Play drops a subscription on account hold while it still auto-renews.
+    expect(types(ledger.reconcile([]))).toEqual(['removed:premium']);
+    expect(types(ledger.reconcile([premiumPurchase()]))).toEqual([
+      'new:premium',
+    ]);
+  });
+
+  it('should refresh from getAvailablePurchases', async () => {
+    const ledger = createPurchaseLedger({now: () => NOW});
+    const listener = jest.fn();
+    ledger.subscribe(listener);
+    (ExpoIapModule.getAvailableItems as jest.Mock) = jest
+      .fn()
+      .mockResolvedValue([lifetimePurchase()]);
+
+    await ledger.refresh();
+    ledger.forget('1001');
+    await ledger.refresh();
+
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(ledger.getPurchases()).toEqual([lifetimePurchase()]);
+  });
+});
@@ -0,0 +1,152 @@
+import {androidPurchase, NOW, setPlatform} from '../../__mocks__/purchases';
+import ExpoIapModule from '../../ExpoIapModule';
+import {createPurchaseOutbox} from '../purchaseOutbox';
+import {createMemoryStorage} from '../storage';
+import type {Purchase} from '../../types';
+
+jest.mock('../../ExpoIapModule');
+setPlatform('android');
+
+describe('createPurchaseOutbox', () => {
+  let time: number;
+  const now = () => time;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    time = NOW;
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should persist purchases before delivering them', async () => {
+    const storage = createMemoryStorage();
+    const send = jest.fn(async () => {
+      const stored = JSON.parse((await storage.getItem('outbox'))!);
+      expect(stored[0]).toMatchObject({
+        transactionId: 'token-1',
+        status: 'queued',
+      });
+      return true;
+    });
+    const outbox = createPurchaseOutbox({
+      send,
+      storage,
+      storageKey: 'outbox',
+      now,
+    });
+
+    await outbox.add(androidPurchase());
+    await outbox.add(androidPurchase());
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(await outbox.getEntries()).toEqual([
+      expect.objectContaining({status: 'delivered', deliveredAt: NOW}),
+    ]);
+    outbox.dispose();
+  });
+
+  it('should retry unconfirmed deliveries with backoff', async () => {
+    const send = jest
+      .fn()
+      .mockRejectedValueOnce(new Error('offline'))
+      .mockResolvedValueOnce(false)
+      .mockResolvedValueOnce(true);
+    const outbox = createPurchaseOutbox({send, now, initialBackoffMs: 1000});
+
+    await outbox.add(androidPurchase());
+    expect(await outbox.getEntries()).toEqual([
+      expect.objectContaining({
+        attempts: 1,
+        lastError: 'offline',
+        nextAttemptAt: NOW + 1000,
+      }),
+    ]);
+
+    await expect(outbox.flush()).resolves.toHaveLength(1);
+    expect(send).toHaveBeenCalledTimes(1);
+
+    time = NOW + 1000;
+    await outbox.flush();
+    expect(await outbox.getEntries()).toEqual([
+      expect.objectContaining({attempts: 2, nextAttemptAt: NOW + 3000}),
+    ]);
+
+    time = NOW + 3000;
+    await expect(outbox.flush()).resolves.toEqual([]);
+    expect(send).toHaveBeenCalledTimes(3);
+    outbox.dispose();
+  });
+
+  it('should resume entries stored by an earlier session', async () => {
+    const storage = createMemoryStorage();
+    const failing = createPurchaseOutbox({
+      send: jest.fn().mockResolvedValue(false),
+      storage,
+      now,
+    });
+    await failing.add(androidPurchase());
+    failing.dispose();
+
+    const send = jest.fn().mockResolvedValue(true);
+    const outbox = createPurchaseOutbox({send, storage, now});
+    time = NOW + 60_000;
+    await outbox.flush();
+
+    expect(send).toHaveBeenCalledWith(
+      expect.objectContaining({purchaseToken: 'token-1'}),
+    );
+    outbox.dispose();
+  });
+
+  it('should record purchases from purchaseUpdatedListener', async () => {
+    let emit: (purchase: Purchase) => void = () => undefined;
+    (ExpoIapModule.addListener as jest.Mock) = jest.fn((_, listener) => {
+      emit = listener;
+      return {remove: jest.fn()};
+    });
+    const send = jest.fn().mockResolvedValue(true);
+    const outbox = createPurchaseOutbox({send, now});
+    const subscription = outbox.listen();
+
+    emit(androidPurchase({purchaseState: 'pending'}));
+    emit(androidPurchase());
+    await jest.runAllTimersAsync();
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(await outbox.getEntries()).toEqual([
+      expect.objectContaining({status: 'delivered'}),
+    ]);
+    subscription.remove();
+    outbox.dispose();
+  });
+
+  it('should report purchases it fails to record', async () => {
+    let emit: (purchase: Purchase) => void = () => undefined;
+    (ExpoIapModule.addListener as jest.Mock) = jest.fn((_, listener) => {
+      emit = listener;
+      return {remove: jest.fn()};
+    });
+    const storage = createMemoryStorage();
+    jest.spyOn(storage, 'setItem').mockRejectedValue(new Error('disk full'));
+    const onError = jest.fn();
+    const outbox = createPurchaseOutbox({
+      send: jest.fn().mockResolvedValue(true),
+      storage,
+      now,
+      onError,
+    });
+    const subscription = outbox.listen();
+
+    emit(androidPurchase());
+    await jest.runAllTimersAsync();
+
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({message: 'disk full'}),
+      expect.objectContaining({productId: 'coins_100'}),
+    );
+    subscription.remove();
+    outbox.dispose();
+  });
+});
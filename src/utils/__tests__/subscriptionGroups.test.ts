@@ -0,0 +1,224 @@
+import {
+  classifyPlanChange,
+  createSubscriptionGroups,
+} from '../subscriptionGroups';
+import type {
+  ActiveSubscription,
+  ProductSubscriptionAndroid,
+  ProductSubscriptionIOS,
+} from '../../types';
+
+const iosSubscription = (
+  id: string,
+  price: number,
+  unit: 'month' | 'year' = 'month',
+  groupId = 'group-1',
+) =>
+  ({
+    id,
+    platform: 'ios',
+    type: 'subs',
+    price,
+    subscriptionInfoIOS: {
+      subscriptionGroupId: groupId,
+      subscriptionPeriod: {unit, value: 1},
+    },
+  } as ProductSubscriptionIOS);
+
+const basePlan = (basePlanId: string, micros: string, period: string) => ({
+  basePlanId,
+  offerId: null,
+  offerTags: [],
+  offerToken: `${basePlanId}-token`,
+  pricingPhases: {
+    pricingPhaseList: [
+      {
+        billingCycleCount: 0,
+        billingPeriod: period,
+        formattedPrice: '',
+        priceAmountMicros: micros,
+        priceCurrencyCode: 'USD',
+        recurrenceMode: 1,
+      },
+    ],
+  },
+});
+
+const androidPremium = {
+  id: 'premium',
+  platform: 'android',
+  type: 'subs',
+  subscriptionOfferDetailsAndroid: [
+    basePlan('monthly', '9990000', 'P1M'),
+    basePlan('yearly', '99990000', 'P1Y'),
+    {...basePlan('yearly', '49990000', 'P1Y'), offerId: 'intro'},
+  ],
+} as unknown as ProductSubscriptionAndroid;
+
+const androidBasic = {
+  id: 'basic',
+  platform: 'android',
+  type: 'subs',
+  subscriptionOfferDetailsAndroid: [basePlan('monthly', '4990000', 'P1M')],
+} as unknown as ProductSubscriptionAndroid;
+
+describe('createSubscriptionGroups', () => {
+  it('should group iOS plans by subscription group and rank them', () => {
+    const groups = createSubscriptionGroups([
+      iosSubscription('basic', 4.99),
+      iosSubscription('premium', 9.99),
+      iosSubscription('other', 1.99, 'month', 'group-2'),
+    ]);
+
+    expect(groups.getGroup('group-1')?.plans.map((plan) => plan.id)).toEqual([
+      'premium',
+      'basic',
+    ]);
+    expect(groups.getGroups()).toHaveLength(2);
+  });
+
+  it('should create one Android plan per base plan', () => {
+    const groups = createSubscriptionGroups([androidPremium, androidBasic]);
+
+    expect(groups.getGroup('android')?.plans).toEqual([
+      expect.objectContaining({
+        id: 'premium:monthly',
+        rank: null,
+        billingPeriod: 'P1M',
+        price: 9.99,
+      }),
+      expect.objectContaining({id: 'basic:monthly', price: 4.99}),
+      expect.objectContaining({
+        id: 'premium:yearly',
+        billingPeriod: 'P1Y',
+        price: 99.99,
+      }),
+    ]);
+    expect(groups.getPlan('premium')?.basePlanId).toBe('monthly');
+  });
+
+  it('should resolve the current plan of an active subscription', () => {
+    const groups = createSubscriptionGroups([androidPremium]);
+    const active: ActiveSubscription = {
+      productId: 'premium',
+      basePlanIdAndroid: 'yearly',
+      purchaseToken: 'token-1',
+      transactionId: 'GPA.1',
+      transactionDate: 0,
+      isActive: true,
+    };
+
+    expect(groups.planOf(active)).toMatchObject({
+      id: 'premium:yearly',
+      purchaseToken: 'token-1',
+    });
+    expect(groups.planOf({...active, productId: 'unknown'})).toBeNull();
+  });
+});
+
+describe('classifyPlanChange', () => {
+  it('should classify iOS changes by rank', () => {
+    const groups = createSubscriptionGroups(
+      [
+        iosSubscription('premium_monthly', 9.99),
+        iosSubscription('premium_yearly', 99.99, 'year'),
+        iosSubscription('basic', 4.99),
+      ],
+      {ranks: {premium_monthly: 2, premium_yearly: 2, basic: 1}},
+    );
+    const plan = (id: string) => groups.getPlan(id)!;
+
+    expect(classifyPlanChange(plan('basic'), plan('premium_monthly'))).toEqual({
+      kind: 'upgrade',
+      from: plan('basic'),
+      to: plan('premium_monthly'),
+      replacementModeAndroid: null,
+      purchaseTokenAndroid: null,
+    });
+    expect(classifyPlanChange(plan('premium_yearly'), plan('basic')).kind).toBe(
+      'downgrade',
+    );
+    expect(
+      classifyPlanChange(plan('premium_monthly'), plan('premium_yearly')).kind,
+    ).toBe('crossgrade');
+    expect(classifyPlanChange(plan('basic'), plan('basic')).kind).toBe(
+      'same-plan',
+    );
+  });
+
+  it('should return the replacement mode and token on Android', () => {
+    const groups = createSubscriptionGroups([androidPremium, androidBasic], {
+      ranks: {basic: 1, premium: 2},
+    });
+    const current = {...groups.getPlan('basic')!, purchaseToken: 'token-1'};
+
+    expect(
+      classifyPlanChange(current, groups.getPlan('premium', 'yearly')!),
+    ).toMatchObject({
+      kind: 'upgrade',
+      replacementModeAndroid: 2,
+      purchaseTokenAndroid: 'token-1',
+    });
+    expect(
+      classifyPlanChange(
+        {...groups.getPlan('premium')!, purchaseToken: 'token-2'},
+        groups.getPlan('basic')!,
+      ).replacementModeAndroid,
+    ).toBe(6);
+    expect(
+      classifyPlanChange(
+        groups.getPlan('premium', 'monthly')!,
+        groups.getPlan('premium', 'yearly')!,
+        {replacementModesAndroid: {crossgrade: 3}},
+      ),
+    ).toMatchObject({kind: 'crossgrade', replacementModeAndroid: 3});
+  });
+
+  it('should compare prices only within one billing period without ranks', () => {
+    const groups = createSubscriptionGroups([androidPremium, androidBasic]);
+    const monthly = {
+      ...groups.getPlan('premium', 'monthly')!,
+      purchaseToken: 'token-1',
+    };
+
+    expect(
+      classifyPlanChange(monthly, groups.getPlan('premium', 'yearly')!),
+    ).toMatchObject({kind: 'crossgrade', replacementModeAndroid: 1});
+    expect(classifyPlanChange(monthly, groups.getPlan('basic')!)).toMatchObject(
+      {kind: 'downgrade', replacementModeAndroid: 6},
+    );
+    expect(classifyPlanChange(groups.getPlan('basic')!, monthly).kind).toBe(
+      'upgrade',
+    );
+  });
+
+  it('should rank declared tiers before price', () => {
+    const groups = createSubscriptionGroups(
+      [
+        iosSubscription('premium_yearly', 49.99, 'year'),
+        iosSubscription('basic_yearly', 59.99, 'year'),
+      ],
+      {ranks: {premium_yearly: 2, basic_yearly: 1}},
+    );
+
+    expect(
+      classifyPlanChange(
+        groups.getPlan('basic_yearly')!,
+        groups.getPlan('premium_yearly')!,
+      ).kind,
+    ).toBe('upgrade');
+  });
+
+  it('should reject plans from different groups', () => {
+    const groups = createSubscriptionGroups([
+      iosSubscription('a', 1),
+      iosSubscription('b', 2, 'month', 'group-2'),
+    ]);
+
+    expect(() =>
+      classifyPlanChange(groups.getPlan('a')!, groups.getPlan('b')!),
+    ).toThrow(
+      'classifyPlanChange: a and b are in different subscription groups',
+    );
+  });
+});
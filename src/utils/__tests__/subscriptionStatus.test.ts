@@ -0,0 +1,172 @@
+import {androidPurchase, DAY_MS, NOW} from '../../__mocks__/purchases';
+import {
+  getSubscriptionStatus,
+  hasSubscriptionAccess,
+} from '../subscriptionStatus';
+import type {
+  ActiveSubscription,
+  Purchase,
+  ReceiptValidationResultAndroid,
+} from '../../types';
+
+const subscriptionPurchase = (overrides: Record<string, unknown> = {}) =>
+  androidPurchase({
+    id: 'GPA.1234',
+    productId: 'premium',
+    isAutoRenewing: true,
+    autoRenewingAndroid: true,
+    transactionDate: NOW - 10 * DAY_MS,
+    ...overrides,
+  });
+
+const iosSubscription = (
+  overrides: Partial<ActiveSubscription> = {},
+): ActiveSubscription => ({
+  productId: 'premium',
+  transactionId: '2000000000000001',
+  transactionDate: NOW - 10 * DAY_MS,
+  isActive: true,
+  expirationDateIOS: NOW + 20 * DAY_MS,
+  renewalInfoIOS: {willAutoRenew: true},
+  ...overrides,
+});
+
+const androidReceipt = (
+  overrides: Partial<ReceiptValidationResultAndroid> = {},
+) =>
+  ({
+    autoRenewing: true,
+    freeTrialEndDate: 0,
+    gracePeriodEndDate: 0,
+    renewalDate: NOW + 20 * DAY_MS,
+    ...overrides,
+  } as ReceiptValidationResultAndroid);
+
+describe('getSubscriptionStatus', () => {
+  it('should report active and cancelled subscriptions on iOS', () => {
+    expect(getSubscriptionStatus(iosSubscription(), {now: NOW})).toEqual({
+      state: 'active',
+      productId: 'premium',
+      hasAccess: true,
+      expiresAt: NOW + 20 * DAY_MS,
+      willAutoRenew: true,
+    });
+    expect(
+      getSubscriptionStatus(
+        iosSubscription({renewalInfoIOS: {willAutoRenew: false}}),
+        {now: NOW},
+      ),
+    ).toMatchObject({state: 'cancelled_but_active', hasAccess: true});
+  });
+
+  it('should derive grace period and billing retry from renewal info', () => {
+    const failed = iosSubscription({
+      expirationDateIOS: NOW - DAY_MS,
+      renewalInfoIOS: {
+        willAutoRenew: true,
+        isInBillingRetry: true,
+        gracePeriodExpirationDate: NOW + 2 * DAY_MS,
+      },
+    });
+
+    expect(getSubscriptionStatus(failed, {now: NOW})).toMatchObject({
+      state: 'in_grace_period',
+      hasAccess: true,
+      expiresAt: NOW + 2 * DAY_MS,
+    });
+    expect(
+      getSubscriptionStatus(failed, {now: NOW + 3 * DAY_MS}),
+    ).toMatchObject({state: 'in_billing_retry', hasAccess: false});
+  });
+
+  it('should prefer the StoreKit status when given', () => {
+    expect(
+      getSubscriptionStatus(iosSubscription(), {
+        now: NOW,
+        statusIOS: {state: 'inGracePeriod', renewalInfo: null},
+      }).state,
+    ).toBe('in_grace_period');
+    expect(
+      getSubscriptionStatus(iosSubscription(), {
+        now: NOW,
+        statusIOS: {state: 'subscribed', renewalInfo: {willAutoRenew: false}},
+      }).state,
+    ).toBe('cancelled_but_active');
+  });
+
+  it('should detect trials, expiry and revocation from purchases', () => {
+    const purchase = {
+      ...iosSubscription(),
+      id: '2000000000000001',
+      platform: 'ios',
+      purchaseState: 'purchased',
+      isAutoRenewing: true,
+      quantity: 1,
+      offerIOS: {id: 'trial', paymentMode: 'FreeTrial', type: 'introductory'},
+    } as Purchase;
+
+    expect(getSubscriptionStatus(purchase, {now: NOW}).state).toBe('in_trial');
+    expect(
+      getSubscriptionStatus(purchase, {now: NOW + 30 * DAY_MS}).state,
+    ).toBe('expired');
+    expect(
+      getSubscriptionStatus({...purchase, revocationDateIOS: NOW} as Purchase, {
+        now: NOW,
+      }),
+    ).toMatchObject({state: 'revoked', hasAccess: false});
+  });
+
+  it('should use purchase data and receipts on Android', () => {
+    expect(getSubscriptionStatus(subscriptionPurchase(), {now: NOW})).toEqual({
+      state: 'active',
+      productId: 'premium',
+      hasAccess: true,
+      expiresAt: null,
+      willAutoRenew: true,
+    });
+    expect(
+      getSubscriptionStatus(
+        subscriptionPurchase({autoRenewingAndroid: false}),
+        {
+          now: NOW,
+        },
+      ).state,
+    ).toBe('cancelled_but_active');
+    expect(
+      getSubscriptionStatus(subscriptionPurchase(), {
+        now: NOW,
+        receiptAndroid: androidReceipt({freeTrialEndDate: NOW + DAY_MS}),
+      }),
+    ).toMatchObject({state: 'in_trial', expiresAt: NOW + 20 * DAY_MS});
+    expect(
+      getSubscriptionStatus(subscriptionPurchase(), {
+        now: NOW,
+        receiptAndroid: androidReceipt({
+          renewalDate: NOW - DAY_MS,
+          gracePeriodEndDate: NOW + 2 * DAY_MS,
+        }),
+      }).state,
+    ).toBe('in_grace_period');
+  });
+
+  it('should map Play Developer API states', () => {
+    expect(
+      getSubscriptionStatus(subscriptionPurchase(), {
+        now: NOW,
+        subscriptionStateAndroid: 'SUBSCRIPTION_STATE_ON_HOLD',
+      }),
+    ).toMatchObject({state: 'on_hold', hasAccess: false});
+    expect(
+      getSubscriptionStatus(subscriptionPurchase(), {
+        subscriptionStateAndroid: 'SUBSCRIPTION_STATE_PAUSED',
+      }).state,
+    ).toBe('paused');
+  });
+});
+
+describe('hasSubscriptionAccess', () => {
+  it('should grant access only while the user is entitled', () => {
+    expect(hasSubscriptionAccess('cancelled_but_active')).toBe(true);
+    expect(hasSubscriptionAccess('in_billing_retry')).toBe(false);
+  });
+});
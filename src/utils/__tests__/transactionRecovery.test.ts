@@ -0,0 +1,140 @@
+import {
+  androidPurchase,
+  DAY_MS,
+  NOW,
+  setPlatform,
+} from '../../__mocks__/purchases';
+import ExpoIapModule from '../../ExpoIapModule';
+import {configureProductKinds} from '../productKinds';
+import {
+  ACKNOWLEDGE_WINDOW_MS_ANDROID,
+  recoverUnfinishedTransactions,
+} from '../transactionRecovery';
+
+jest.mock('../../ExpoIapModule');
+setPlatform('android');
+
+const unacknowledgedPurchase = (overrides: Record<string, unknown> = {}) =>
+  androidPurchase({
+    productId: 'remove_ads',
+    isAcknowledgedAndroid: false,
+    transactionDate: NOW - DAY_MS,
+    ...overrides,
+  });
+
+describe('recoverUnfinishedTransactions', () => {
+  afterEach(() => {
+    setPlatform('android');
+  });
+
+  it('should recover unacknowledged Android purchases, most urgent first', async () => {
+    configureProductKinds({coins_100: 'consumable'});
+    (ExpoIapModule.getAvailableItems as jest.Mock) = jest
+      .fn()
+      .mockResolvedValue([
+        unacknowledgedPurchase(),
+        unacknowledgedPurchase({
+          id: 'GPA.2',
+          purchaseToken: 'token-2',
+          transactionDate: NOW - 2 * DAY_MS,
+        }),
+        unacknowledgedPurchase({
+          id: 'GPA.3',
+          productId: 'coins_100',
+          purchaseToken: 'token-3',
+          isAcknowledgedAndroid: true,
+        }),
+        unacknowledgedPurchase({
+          id: 'GPA.4',
+          purchaseToken: 'token-4',
+          isAcknowledgedAndroid: true,
+        }),
+        unacknowledgedPurchase({
+          id: 'GPA.5',
+          purchaseToken: 'token-5',
+          purchaseState: 'pending',
+        }),
+      ]);
+    const handler = jest.fn();
+
+    const results = await recoverUnfinishedTransactions({
+      handler,
+      now: () => NOW,
+    });
+
+    expect(results.map((result) => result.purchase.purchaseToken)).toEqual([
+      'token-2',
+      'token-1',
+      'token-3',
+    ]);
+    expect(results[0]).toMatchObject({
+      status: 'recovered',
+      acknowledgeDeadlineAndroid:
+        NOW - 2 * DAY_MS + ACKNOWLEDGE_WINDOW_MS_ANDROID,
+      timeLeftMsAndroid: DAY_MS,
+    });
+    expect(handler).toHaveBeenCalledTimes(3);
+  });
+
+  it('should report failures and keep going', async () => {
+    (ExpoIapModule.getAvailableItems as jest.Mock) = jest
+      .fn()
+      .mockResolvedValue([
+        unacknowledgedPurchase({transactionDate: NOW - 4 * DAY_MS}),
+        unacknowledgedPurchase({id: 'GPA.2', purchaseToken: 'token-2'}),
+      ]);
+    const failure = new Error('verification failed');
+    const handler = jest
+      .fn()
+      .mockRejectedValueOnce(failure)
+      .mockResolvedValueOnce(undefined);
+
+    const results = await recoverUnfinishedTransactions({
+      handler,
+      now: () => NOW,
+    });
+
+    expect(results[0]).toMatchObject({
+      status: 'failed',
+      error: failure,
+      timeLeftMsAndroid: -DAY_MS,
+    });
+    expect(results[1]!.status).toBe('recovered');
+  });
+
+  it('should recover pending StoreKit transactions on iOS', async () => {
+    setPlatform('ios');
+    const transaction = {
+      id: '1001',
+      transactionId: '1001',
+      productId: 'remove_ads',
+      platform: 'ios',
+      purchaseState: 'purchased',
+      transactionDate: NOW,
+    };
+    const owned = {...transaction, id: '1002', transactionId: '1002'};
+    (ExpoIapModule.getPendingTransactionsIOS as jest.Mock) = jest
+      .fn()
+      .mockResolvedValue([transaction]);
+    (ExpoIapModule.getAvailableItems as jest.Mock) = jest
+      .fn()
+      .mockResolvedValue([transaction, owned]);
+    const handler = jest.fn();
+
+    const results = await recoverUnfinishedTransactions({handler});
+
+    expect(ExpoIapModule.getAvailableItems).toHaveBeenCalledWith(false, true);
+    expect(handler.mock.calls.map(([purchase]) => purchase.id)).toEqual([
+      '1001',
+      '1002',
+    ]);
+    expect(results).toEqual([
+      expect.objectContaining({
+        status: 'recovered',
+        acknowledgeDeadlineAndroid: null,
+        timeLeftMsAndroid: null,
+      }),
+      expect.objectContaining({status: 'recovered'}),
+    ]);
+  });
+});
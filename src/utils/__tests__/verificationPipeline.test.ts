@@ -0,0 +1,129 @@
+import {androidPurchase, setPlatform} from '../../__mocks__/purchases';
+import ExpoIapModule from '../../ExpoIapModule';
+import {createVerificationPipeline} from '../verificationPipeline';
+
+jest.mock('../../ExpoIapModule');
+setPlatform('android');
+
+const unacknowledgedPurchase = (overrides: Record<string, unknown> = {}) =>
+  androidPurchase({
+    productId: 'remove_ads',
+    isAcknowledgedAndroid: false,
+    transactionDate: Date.now(),
+    ...overrides,
+  });
+
+describe('createVerificationPipeline', () => {
+  beforeEach(() => {
+    (ExpoIapModule.getAvailableItems as jest.Mock) = jest
+      .fn()
+      .mockResolvedValue([]);
+  });
+
+  it('should verify, grant and finish in order', async () => {
+    const calls: string[] = [];
+    const pipeline = createVerificationPipeline({
+      verifyPurchase: async () => {
+        calls.push('verify');
+        return true;
+      },
+      grant: () => {
+        calls.push('grant');
+      },
+      finish: async () => {
+        calls.push('finish');
+      },
+    });
+
+    const result = await pipeline.process(unacknowledgedPurchase());
+
+    expect(result.status).toBe('verified');
+    expect(calls).toEqual(['verify', 'grant', 'finish']);
+    expect(pipeline.getRetrying()).toEqual([]);
+  });
+
+  it('should keep failed verifications unfinished for a retry', async () => {
+    const verifyPurchase = jest
+      .fn()
+      .mockResolvedValueOnce(false)
+      .mockRejectedValueOnce(new Error('offline'))
+      .mockResolvedValueOnce(true);
+    const finish = jest.fn().mockResolvedValue(undefined);
+    const pipeline = createVerificationPipeline({verifyPurchase, finish});
+
+    await expect(
+      pipeline.process(unacknowledgedPurchase()),
+    ).resolves.toMatchObject({
+      status: 'retry',
+      error: expect.objectContaining({code: 'transaction-validation-failed'}),
+    });
+    await expect(pipeline.retry()).resolves.toEqual([
+      expect.objectContaining({status: 'retry'}),
+    ]);
+    expect(finish).not.toHaveBeenCalled();
+
+    await expect(pipeline.retry()).resolves.toEqual([
+      expect.objectContaining({status: 'verified'}),
+    ]);
+    expect(finish).toHaveBeenCalledTimes(1);
+    expect(pipeline.getRetrying()).toEqual([]);
+  });
+
+  it('should retry unfinished transactions from earlier sessions', async () => {
+    (ExpoIapModule.getAvailableItems as jest.Mock) = jest
+      .fn()
+      .mockResolvedValue([unacknowledgedPurchase()]);
+    const verifyPurchase = jest.fn().mockResolvedValue(true);
+    const finish = jest.fn().mockResolvedValue(undefined);
+    const pipeline = createVerificationPipeline({verifyPurchase, finish});
+
+    const results = await pipeline.retry();
+
+    expect(results).toEqual([expect.objectContaining({status: 'verified'})]);
+    expect(verifyPurchase).toHaveBeenCalledTimes(1);
+  });
+
+  it('should only finish on retry when granting already happened', async () => {
+    const verifyPurchase = jest.fn().mockResolvedValue(true);
+    const grant = jest.fn();
+    const finish = jest
+      .fn()
+      .mockRejectedValueOnce(new Error('service-disconnected'))
+      .mockResolvedValueOnce(undefined);
+    const pipeline = createVerificationPipeline({
+      verifyPurchase,
+      grant,
+      finish,
+    });
+
+    await expect(
+      pipeline.process(unacknowledgedPurchase()),
+    ).resolves.toMatchObject({
+      status: 'retry',
+    });
+    await expect(
+      pipeline.process(unacknowledgedPurchase()),
+    ).resolves.toMatchObject({
+      status: 'verified',
+    });
+    expect(verifyPurchase).toHaveBeenCalledTimes(1);
+    expect(grant).toHaveBeenCalledTimes(1);
+  });
+
+  it('should skip pending purchases and share concurrent runs', async () => {
+    const verifyPurchase = jest.fn().mockResolvedValue(true);
+    const finish = jest.fn().mockResolvedValue(undefined);
+    const pipeline = createVerificationPipeline({verifyPurchase, finish});
+
+    await expect(
+      pipeline.process(unacknowledgedPurchase({purchaseState: 'pending'})),
+    ).resolves.toMatchObject({status: 'pending'});
+
+    const [first, second] = await Promise.all([
+      pipeline.process(unacknowledgedPurchase()),
+      pipeline.process(unacknowledgedPurchase()),
+    ]);
+    expect(first).toBe(second);
+    expect(verifyPurchase).toHaveBeenCalledTimes(1);
+  });
+});
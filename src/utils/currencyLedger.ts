@@ -0,0 +1,237 @@
+/**
+ * Virtual currency ledger for consumables.
+ * Credits coin packs and similar consumables exactly once per transaction,
+ * persists the balance, and only consumes the purchase after the credit is
+ * stored, so a crash can never lose paid currency.
+ */
+
+// Internal modules
+import {finishTransaction, purchaseUpdatedListener} from '../index';
+import {ExpoIapConsole} from './debug';
+import {ledgerKeyOf} from './purchaseLedger';
+import {createMemoryStorage, readJson} from './storage';
+
+// Types
+import type {Purchase, PurchaseIOS} from '../types';
+import type {KeyValueStorage} from './storage';
+
+export interface CurrencyCredit {
+  /** Transaction ID (purchase token for Android). */
+  transactionId: string;
+  productId: string;
+  amount: number;
+  creditedAt: number;
+  /** Whether the purchase has been consumed/finished with the store. */
+  finished: boolean;
+}
+
+/**
+ * - `credited`: the amount was added to the balance
+ * - `duplicate`: the transaction was credited before; only finishing was retried
+ * - `ignored`: not a completed purchase of a product in `amounts`
+ */
+export interface CreditResult {
+  status: 'credited' | 'duplicate' | 'ignored';
+  amount: number;
+  balance: number;
+  /**
+   * Whether the purchase was consumed. When finishing fails the credit is
+   * kept and finishing is retried the next time the purchase is credited.
+   */
+  finished: boolean;
+}
+
+export interface CurrencyLedgerOptions {
+  /** Currency per unit of each product, e.g. `{coins_100: 100}`. */
+  amounts: Record<string, number>;
+  /** Defaults to in-memory storage. */
+  storage?: KeyValueStorage;
+  /** Storage key. Defaults to `expo-iap/currency-ledger`. */
+  storageKey?: string;
+  /** Defaults to `finishTransaction` with `isConsumable: true`. */
+  finish?: (purchase: Purchase) => Promise<unknown>;
+  /** Defaults to `Date.now`. */
+  now?: () => number;
+  /** Credits that fail inside `listen`. Defaults to logging a warning. */
+  onError?: (error: unknown, purchase: Purchase) => void;
+}
+
+export interface CurrencyLedger {
+  /** Credit a purchase once, persist it, then consume it. */
+  credit: (purchase: Purchase) => Promise<CreditResult>;
+  getBalance: () => Promise<number>;
+  /** Deduct from the balance. Throws when the balance is too low. */
+  spend: (amount: number) => Promise<number>;
+  /**
+   * Adopt the balance reported by your server. Resolves with the difference
+   * between the server and local balances before adopting it.
+   */
+  reconcile: (serverBalance: number) => Promise<number>;
+  getCredits: () => Promise<CurrencyCredit[]>;
+  /** Credit purchases from `purchaseUpdatedListener` events. */
+  listen: (onCredit?: (result: CreditResult) => void) => {remove: () => void};
+}
+
+interface LedgerState {
+  balance: number;
+  credits: Record<string, CurrencyCredit>;
+}
+
+/** StoreKit reports the purchased quantity in `quantityIOS`. */
+const quantityOf = (purchase: Purchase) =>
+  Math.max(1, (purchase as PurchaseIOS).quantityIOS ?? purchase.quantity ?? 1);
+
+/**
+ * Create a currency ledger.
+ *
+ * @example
+ * ```typescript
+ * const coins = createCurrencyLedger({
+ *   amounts: {coins_100: 100, coins_500: 550},
+ *   storage: AsyncStorage,
+ * });
+ * const subscription = coins.listen(({balance}) => setCoins(balance));
+ * await coins.reconcile(await api.fetchCoinBalance());
+ * ```
+ */
+export const createCurrencyLedger = (
+  options: CurrencyLedgerOptions,
+): CurrencyLedger => {
+  const storage = options.storage ?? createMemoryStorage();
+  const storageKey = options.storageKey ?? 'expo-iap/currency-ledger';
+  const now = options.now ?? Date.now;
+  const onError =
+    options.onError ??
+    ((error: unknown) => {
+      ExpoIapConsole.warn('[currencyLedger] Failed to credit purchase:', error);
+    });
+  const finish =
+    options.finish ??
+    ((purchase: Purchase) => finishTransaction({purchase, isConsumable: true}));
+
+  let state: LedgerState | null = null;
+  // Operations run one at a time so concurrent credits cannot race.
+  let chain: Promise<unknown> = Promise.resolve();
+
+  const exclusive = <T>(operation: (current: LedgerState) => Promise<T>) => {
+    const run = chain.then(async () => {
+      if (!state) {
+        state = await readJson<LedgerState>(storage, storageKey, {
+          balance: 0,
+          credits: {},
+        });
+      }
+      return operation(state);
+    });
+    chain = run.catch(() => undefined);
+    return run;
+  };
+
+  // Adopt a new state only once it is stored, so a failed write leaves the
+  // in-memory ledger matching storage.
+  const commit = async (next: LedgerState) => {
+    await storage.setItem(storageKey, JSON.stringify(next));
+    state = next;
+  };
+
+  const finishCredit = async (
+    current: LedgerState,
+    entry: CurrencyCredit,
+    purchase: Purchase,
+  ) => {
+    try {
+      await finish(purchase);
+    } catch {
+      return false;
+    }
+    await commit({
+      ...current,
+      credits: {
+        ...current.credits,
+        [entry.transactionId]: {...entry, finished: true},
+      },
+    });
+    return true;
+  };
+
+  const credit = (purchase: Purchase) =>
+    exclusive(async (current): Promise<CreditResult> => {
+      const perUnit = options.amounts[purchase.productId];
+      if (perUnit === undefined || purchase.purchaseState !== 'purchased') {
+        return {
+          status: 'ignored',
+          amount: 0,
+          balance: current.balance,
+          finished: false,
+        };
+      }
+
+      const transactionId = ledgerKeyOf(purchase);
+      const existing = current.credits[transactionId];
+      if (existing) {
+        const finished =
+          existing.finished ||
+          (await finishCredit(current, existing, purchase));
+        return {
+          status: 'duplicate',
+          amount: 0,
+          balance: current.balance,
+          finished,
+        };
+      }
+
+      const entry: CurrencyCredit = {
+        transactionId,
+        productId: purchase.productId,
+        amount: perUnit * quantityOf(purchase),
+        creditedAt: now(),
+        finished: false,
+      };
+      const next: LedgerState = {
+        balance: current.balance + entry.amount,
+        credits: {...current.credits, [transactionId]: entry},
+      };
+      // Persist the credit before consuming: the store forgets it afterwards.
+      await commit(next);
+      const finished = await finishCredit(next, entry, purchase);
+      return {
+        status: 'credited',
+        amount: entry.amount,
+        balance: next.balance,
+        finished,
+      };
+    });
+
+  return {
+    credit,
+    getBalance: () => exclusive(async (current) => current.balance),
+    spend: (amount) =>
+      exclusive(async (current) => {
+        if (amount > current.balance) {
+          throw new Error(
+            `spend: balance ${current.balance} is lower than ${amount}`,
+          );
+        }
+        const balance = current.balance - amount;
+        await commit({...current, balance});
+        return balance;
+      }),
+    reconcile: (serverBalance) =>
+      exclusive(async (current) => {
+        await commit({...current, balance: serverBalance});
+        return serverBalance - current.balance;
+      }),
+    getCredits: () =>
+      exclusive(async (current) => Object.values(current.credits)),
+    listen: (onCredit) =>
+      purchaseUpdatedListener((purchase) => {
+        credit(purchase)
+          .then((result) => {
+            if (result.status !== 'ignored') {
+              onCredit?.(result);
+            }
+          })
+          .catch((error) => onError(error, purchase));
+      }),
+  };
+};
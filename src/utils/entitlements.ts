@@ -0,0 +1,273 @@
+/**
+ * Declarative entitlements.
+ * Maps feature entitlements (e.g. `premium`) to the products that grant them
+ * and evaluates the map against what the store reports on either platform.
+ */
+
+// Internal modules
+import {getActiveSubscriptions, getAvailablePurchases} from '../index';
+
+// Types
+import type {ActiveSubscription, Purchase, PurchaseIOS} from '../types';
+
+/** Entitlement id → product ids that grant it, e.g. `{premium: ['premium', 'lifetime']}`. */
+export type EntitlementMap = Record<string, string[]>;
+
+/**
+ * - `active`: granted by a current purchase or subscription
+ * - `grace-period`: renewal failed but the store still grants access
+ * - `pending`: a granting purchase is waiting for payment (Ask to Buy, slow cards)
+ * - `expired` / `revoked`: previously granted, no longer valid
+ * - `inactive`: nothing grants it
+ * - `unknown`: not evaluated yet
+ */
+export type EntitlementState =
+  | 'active'
+  | 'grace-period'
+  | 'pending'
+  | 'expired'
+  | 'revoked'
+  | 'inactive'
+  | 'unknown';
+
+export interface Entitlement {
+  id: string;
+  /** True for `active` and `grace-period`. */
+  isActive: boolean;
+  state: EntitlementState;
+  /** Product that grants (or last granted) the entitlement. */
+  productId: string | null;
+  transactionId: string | null;
+  /** End of access in ms since epoch; null for lifetime purchases or when the store does not say. */
+  expiresAt: number | null;
+  willAutoRenew: boolean;
+}
+
+export interface EntitlementInput {
+  /** Result of `getAvailablePurchases()`. */
+  purchases?: Purchase[];
+  /** Result of `getActiveSubscriptions()`. */
+  activeSubscriptions?: ActiveSubscription[];
+}
+
+export type EntitlementSnapshot = Record<string, Entitlement>;
+
+export interface EntitlementEngineOptions {
+  entitlements: EntitlementMap;
+  /** Clock used for expiry checks. Defaults to `Date.now`. */
+  now?: () => number;
+}
+
+export interface EntitlementEngine {
+  /** Evaluate store results and make them the current snapshot. */
+  evaluate: (input: EntitlementInput) => EntitlementSnapshot;
+  /** Fetch purchases and active subscriptions from the store, then evaluate. */
+  refresh: () => Promise<EntitlementSnapshot>;
+  /** Entitlement from the current snapshot. */
+  get: (id: string) => Entitlement;
+  getSnapshot: () => EntitlementSnapshot;
+  /** Entitlement ids a product grants. */
+  entitlementsFor: (productId: string) => string[];
+  subscribe: (listener: (snapshot: EntitlementSnapshot) => void) => () => void;
+}
+
+const STATE_RANK: Record<EntitlementState, number> = {
+  active: 0,
+  'grace-period': 1,
+  pending: 2,
+  expired: 3,
+  revoked: 4,
+  inactive: 5,
+  unknown: 6,
+};
+
+const emptyEntitlement = (
+  id: string,
+  state: 'inactive' | 'unknown',
+): Entitlement => ({
+  id,
+  isActive: false,
+  state,
+  productId: null,
+  transactionId: null,
+  expiresAt: null,
+  willAutoRenew: false,
+});
+
+const fromActiveSubscription = (
+  id: string,
+  subscription: ActiveSubscription,
+  now: number,
+): Entitlement => {
+  const expiration = subscription.expirationDateIOS ?? null;
+  const grace = subscription.renewalInfoIOS?.gracePeriodExpirationDate ?? null;
+  const inGrace =
+    grace != null && grace > now && (expiration == null || expiration <= now);
+  const state: EntitlementState = !subscription.isActive
+    ? 'expired'
+    : inGrace
+    ? 'grace-period'
+    : 'active';
+  return {
+    id,
+    isActive: state === 'active' || state === 'grace-period',
+    state,
+    productId: subscription.productId,
+    transactionId: subscription.transactionId,
+    expiresAt: inGrace ? grace : expiration,
+    willAutoRenew:
+      subscription.renewalInfoIOS?.willAutoRenew ??
+      subscription.autoRenewingAndroid ??
+      false,
+  };
+};
+
+const fromPurchase = (
+  id: string,
+  purchase: Purchase,
+  now: number,
+): Entitlement | null => {
+  const ios = purchase as PurchaseIOS;
+  const expiration = ios.expirationDateIOS ?? null;
+  const grace = ios.renewalInfoIOS?.gracePeriodExpirationDate ?? null;
+  let state: EntitlementState;
+  if (purchase.purchaseState === 'pending') {
+    state = 'pending';
+  } else if (
+    purchase.purchaseState !== 'purchased' &&
+    purchase.purchaseState !== 'restored'
+  ) {
+    return null;
+  } else if (ios.revocationDateIOS != null) {
+    state = 'revoked';
+  } else if (expiration == null || expiration > now) {
+    state = 'active';
+  } else {
+    state = grace != null && grace > now ? 'grace-period' : 'expired';
+  }
+  return {
+    id,
+    isActive: state === 'active' || state === 'grace-period',
+    state,
+    productId: purchase.productId,
+    transactionId: ios.transactionId ?? purchase.id,
+    expiresAt: state === 'grace-period' ? grace : expiration,
+    willAutoRenew:
+      ios.renewalInfoIOS?.willAutoRenew ?? purchase.isAutoRenewing ?? false,
+  };
+};
+
+/** Better state first; then lifetime access, then the latest expiry. */
+const compareEntitlements = (a: Entitlement, b: Entitlement) =>
+  STATE_RANK[a.state] - STATE_RANK[b.state] ||
+  (b.expiresAt ?? Infinity) - (a.expiresAt ?? Infinity);
+
+/**
+ * Create an entitlement engine.
+ * Active subscriptions and available purchases are both considered, so the
+ * same map works for iOS (expiry dates, grace periods, revocations) and
+ * Android (purchase state only).
+ *
+ * @example
+ * ```typescript
+ * const engine = createEntitlementEngine({
+ *   entitlements: {premium: ['premium', 'premium_year', 'lifetime']},
+ * });
+ *
+ * await engine.refresh();
+ * engine.get('premium'); // {isActive: true, state: 'active', productId: 'lifetime', ...}
+ * ```
+ */
+export const createEntitlementEngine = ({
+  entitlements,
+  now = Date.now,
+}: EntitlementEngineOptions): EntitlementEngine => {
+  const ids = Object.keys(entitlements);
+  const listeners = new Set<(snapshot: EntitlementSnapshot) => void>();
+  let snapshot: EntitlementSnapshot = Object.fromEntries(
+    ids.map((id) => [id, emptyEntitlement(id, 'unknown')]),
+  );
+
+  const assertKnown = (id: string) => {
+    if (!entitlements[id]) {
+      throw new Error(`createEntitlementEngine: unknown entitlement "${id}"`);
+    }
+  };
+
+  const evaluate = ({
+    purchases = [],
+    activeSubscriptions = [],
+  }: EntitlementInput) => {
+    const time = now();
+    snapshot = Object.fromEntries(
+      ids.map((id) => {
+        const productIds = new Set(entitlements[id]);
+        const candidates = [
+          ...activeSubscriptions
+            .filter((subscription) => productIds.has(subscription.productId))
+            .map((subscription) =>
+              fromActiveSubscription(id, subscription, time),
+            ),
+          ...purchases
+            .filter((purchase) => productIds.has(purchase.productId))
+            .map((purchase) => fromPurchase(id, purchase, time)),
+        ].filter((candidate): candidate is Entitlement => candidate !== null);
+        const [best] = candidates.sort(compareEntitlements);
+        return [id, best ?? emptyEntitlement(id, 'inactive')];
+      }),
+    );
+    listeners.forEach((listener) => listener(snapshot));
+    return snapshot;
+  };
+
+  return {
+    evaluate,
+    refresh: async () => {
+      const [purchases, activeSubscriptions] = await Promise.all([
+        getAvailablePurchases(),
+        getActiveSubscriptions(),
+      ]);
+      return evaluate({purchases, activeSubscriptions});
+    },
+    get: (id) => {
+      assertKnown(id);
+      return snapshot[id]!;
+    },
+    getSnapshot: () => snapshot,
+    entitlementsFor: (productId) =>
+      ids.filter((id) => entitlements[id]!.includes(productId)),
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
+
+let defaultEngine: EntitlementEngine | null = null;
+
+/**
+ * Configure the app-wide entitlement map used by `useEntitlement`.
+ *
+ * @example
+ * ```typescript
+ * configureEntitlements({premium: ['premium', 'premium_year', 'lifetime']});
+ * ```
+ */
+export const configureEntitlements = (
+  entitlements: EntitlementMap,
+  options: Omit<EntitlementEngineOptions, 'entitlements'> = {},
+): EntitlementEngine => {
+  defaultEngine = createEntitlementEngine({...options, entitlements});
+  return defaultEngine;
+};
+
+export const getEntitlementEngine = (): EntitlementEngine => {
+  if (!defaultEngine) {
+    throw new Error(
+      'getEntitlementEngine: call configureEntitlements() before using entitlements',
+    );
+  }
+  return defaultEngine;
+};
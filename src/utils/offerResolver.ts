@@ -0,0 +1,244 @@
+/**
+ * Subscription offer resolver.
+ * Lists the offers a user can get for a subscription on either platform,
+ * classified as free trial, intro price or promotional, and ranks them so the
+ * paywall can show the best one.
+ */
+
+// Internal modules
+import {isEligibleForIntroOfferIOS} from '../modules/ios';
+import {getPricingPhasesAndroid, getPricingPhasesIOS} from './pricingPhases';
+
+// Types
+import type {
+  IapPlatform,
+  ProductSubscription,
+  ProductSubscriptionAndroid,
+  ProductSubscriptionAndroidOfferDetails,
+  ProductSubscriptionIOS,
+  SubscriptionOfferIOS,
+} from '../types';
+import type {PricingPhase} from './pricingPhases';
+
+/** `base` is the regular price, listed last unless ranked otherwise. */
+export type OfferKind = 'free-trial' | 'intro-price' | 'promotional' | 'base';
+
+export interface ResolvedOffer {
+  kind: OfferKind;
+  productId: string;
+  platform: IapPlatform;
+  /** iOS offer ID or Android `offerId`; null for base plans. */
+  offerId: string | null;
+  basePlanIdAndroid: string | null;
+  /** Pass in `subscriptionOffers` when requesting the purchase; null on iOS. */
+  offerTokenAndroid: string | null;
+  /** Android `offerTags`; empty on iOS. */
+  tags: string[];
+  /** Price of the first billing period, e.g. `Free` or `$0.99`. */
+  displayPrice: string;
+  /** Price of the first billing period in the product's currency. */
+  price: number;
+  /** The offer's pricing, ending with the regular price. */
+  phases: PricingPhase[];
+}
+
+export interface OfferResolverOptions {
+  /**
+   * Offers matching these tags, or offer IDs on iOS, rank first in the given
+   * order, e.g. `['winback']`.
+   */
+  preferTags?: string[];
+  /** Defaults to free-trial, intro-price, promotional, base. */
+  kindOrder?: OfferKind[];
+  /**
+   * Android offers with these tags are `promotional` whatever their price.
+   * Other offers are classified by their pricing phases.
+   */
+  promotionalTagsAndroid?: string[];
+  /**
+   * Drop offers the app does not want to show, e.g. iOS promotional offers
+   * for users who never subscribed. All offers are kept by default.
+   */
+  filter?: (offer: ResolvedOffer) => boolean;
+  /** Defaults to `isEligibleForIntroOfferIOS`. */
+  isEligibleForIntroOfferIOS?: (groupId: string) => Promise<boolean>;
+}
+
+export interface OfferResolver {
+  /** Eligible offers, best first. */
+  resolve: (product: ProductSubscription) => Promise<ResolvedOffer[]>;
+  /** The best eligible offer; null when the product has none. */
+  best: (product: ProductSubscription) => Promise<ResolvedOffer | null>;
+}
+
+const DEFAULT_KIND_ORDER: OfferKind[] = [
+  'free-trial',
+  'intro-price',
+  'promotional',
+  'base',
+];
+
+/**
+ * Classify an Android offer from its pricing phases: a free first phase is a
+ * trial and a cheaper phase before the regular price is an intro price.
+ */
+const androidOfferKind = (
+  offer: ProductSubscriptionAndroidOfferDetails,
+  phases: PricingPhase[],
+  promotionalTags: string[],
+): OfferKind => {
+  if (!offer.offerId) {
+    return 'base';
+  }
+  if (offer.offerTags.some((tag) => promotionalTags.includes(tag))) {
+    return 'promotional';
+  }
+  if (phases[0]?.type === 'free-trial') {
+    return 'free-trial';
+  }
+  if (phases.some((phase) => phase.type === 'discount')) {
+    return 'intro-price';
+  }
+  return 'promotional';
+};
+
+// Play only returns offers the user is eligible for.
+const resolveAndroidOffers = (
+  product: ProductSubscriptionAndroid,
+  promotionalTags: string[],
+): ResolvedOffer[] =>
+  product.subscriptionOfferDetailsAndroid.map((offer) => {
+    const phases = getPricingPhasesAndroid(offer);
+    return {
+      kind: androidOfferKind(offer, phases, promotionalTags),
+      productId: product.id,
+      platform: 'android',
+      offerId: offer.offerId ?? null,
+      basePlanIdAndroid: offer.basePlanId,
+      offerTokenAndroid: offer.offerToken,
+      tags: offer.offerTags,
+      displayPrice: phases[0]?.displayPrice ?? product.displayPrice,
+      price: phases[0]?.price ?? product.price ?? 0,
+      phases,
+    };
+  });
+
+const iosOffer = (
+  product: ProductSubscriptionIOS,
+  offer: SubscriptionOfferIOS,
+  kind: OfferKind,
+): ResolvedOffer => ({
+  kind,
+  productId: product.id,
+  platform: 'ios',
+  offerId: offer.id,
+  basePlanIdAndroid: null,
+  offerTokenAndroid: null,
+  tags: [],
+  displayPrice: offer.displayPrice,
+  price: offer.price,
+  phases: getPricingPhasesIOS(product, offer),
+});
+
+const resolveIosOffers = async (
+  product: ProductSubscriptionIOS,
+  isEligible: (groupId: string) => Promise<boolean>,
+): Promise<ResolvedOffer[]> => {
+  const info = product.subscriptionInfoIOS;
+  const offers: ResolvedOffer[] = [];
+  // StoreKit lists the intro offer even after the user has used it.
+  if (info?.introductoryOffer && (await isEligible(info.subscriptionGroupId))) {
+    offers.push(
+      iosOffer(
+        product,
+        info.introductoryOffer,
+        info.introductoryOffer.paymentMode === 'free-trial'
+          ? 'free-trial'
+          : 'intro-price',
+      ),
+    );
+  }
+  (info?.promotionalOffers ?? []).forEach((offer) => {
+    offers.push(iosOffer(product, offer, 'promotional'));
+  });
+  offers.push({
+    kind: 'base',
+    productId: product.id,
+    platform: 'ios',
+    offerId: null,
+    basePlanIdAndroid: null,
+    offerTokenAndroid: null,
+    tags: [],
+    displayPrice: product.displayPrice,
+    price: product.price ?? 0,
+    phases: getPricingPhasesIOS(product),
+  });
+  return offers;
+};
+
+/**
+ * Create an offer resolver.
+ *
+ * @example
+ * ```typescript
+ * const offers = createOfferResolver({preferTags: ['winback']});
+ * const offer = await offers.best(subscription);
+ * const offerToken = offer?.offerTokenAndroid;
+ *
+ * await requestPurchase({
+ *   request: {
+ *     ios: {sku: subscription.id},
+ *     android: {
+ *       skus: [subscription.id],
+ *       subscriptionOffers: offerToken
+ *         ? [{sku: subscription.id, offerToken}]
+ *         : null,
+ *     },
+ *   },
+ *   type: 'subs',
+ * });
+ * ```
+ */
+export const createOfferResolver = (
+  options: OfferResolverOptions = {},
+): OfferResolver => {
+  const preferTags = options.preferTags ?? [];
+  const kindOrder = options.kindOrder ?? DEFAULT_KIND_ORDER;
+  const promotionalTags = options.promotionalTagsAndroid ?? [];
+  const isEligible =
+    options.isEligibleForIntroOfferIOS ?? isEligibleForIntroOfferIOS;
+
+  const tagRank = (offer: ResolvedOffer) => {
+    const ranks = preferTags
+      .map((tag, index) =>
+        offer.tags.includes(tag) || offer.offerId === tag ? index : -1,
+      )
+      .filter((index) => index >= 0);
+    return ranks.length > 0 ? Math.min(...ranks) : preferTags.length;
+  };
+
+  const kindRank = (offer: ResolvedOffer) => {
+    const index = kindOrder.indexOf(offer.kind);
+    return index >= 0 ? index : kindOrder.length;
+  };
+
+  const resolve = async (product: ProductSubscription) => {
+    const offers =
+      product.platform === 'android'
+        ? resolveAndroidOffers(product, promotionalTags)
+        : await resolveIosOffers(product, isEligible);
+    return offers
+      .filter((offer) => !options.filter || options.filter(offer))
+      .sort(
+        (a, b) =>
+          tagRank(a) - tagRank(b) ||
+          kindRank(a) - kindRank(b) ||
+          a.price - b.price,
+      );
+  };
+
+  return {
+    resolve,
+    best: async (product) => (await resolve(product))[0] ?? null,
+  };
+};
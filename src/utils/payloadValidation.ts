@@ -0,0 +1,180 @@
+/**
+ * Runtime validation of native payloads.
+ * The native module returns untyped JSON; the validators generated into
+ * `src/typeGuards.ts` check it against the OpenIAP types at the `src/index.ts`
+ * boundary and report field paths.
+ */
+
+// Internal modules
+import {
+  validateActiveSubscription,
+  validateProduct,
+  validateProductSubscription,
+  validatePurchase,
+  validateReceiptValidationResult,
+} from '../typeGuards';
+import {ExpoIapConsole} from './debug';
+import {createPurchaseError} from './errorMapping';
+
+// Types
+import type {
+  ActiveSubscription,
+  Product,
+  ProductSubscription,
+  Purchase,
+  ReceiptValidationResult,
+} from '../types';
+import type {TypeIssue} from '../typeGuards';
+import {ErrorCode} from '../types';
+
+export type PayloadIssue = TypeIssue;
+
+export type PayloadTypes = {
+  Product: Product;
+  ProductSubscription: ProductSubscription;
+  Purchase: Purchase;
+  ActiveSubscription: ActiveSubscription;
+  ReceiptValidationResult: ReceiptValidationResult;
+};
+
+export type PayloadKind = keyof PayloadTypes;
+
+export interface InvalidPayloadReport {
+  kind: PayloadKind;
+  /** Public API that received the payload, e.g. `fetchProducts`. */
+  source: string;
+  issues: PayloadIssue[];
+  payload: unknown;
+}
+
+/**
+ * - `off`: payloads are passed through unchecked (default)
+ * - `report`: invalid payloads are reported and passed through
+ * - `strict`: invalid payloads are reported and the call rejects
+ */
+export type PayloadValidationMode = 'off' | 'report' | 'strict';
+
+export interface PayloadValidationConfig {
+  mode: PayloadValidationMode;
+  /** Called for every invalid payload. Defaults to a console warning. */
+  onInvalidPayload?: (report: InvalidPayloadReport) => void;
+}
+
+const VALIDATORS: Record<
+  PayloadKind,
+  (value: unknown, path: string, issues: PayloadIssue[]) => PayloadIssue[]
+> = {
+  Product: validateProduct,
+  ProductSubscription: validateProductSubscription,
+  Purchase: validatePurchase,
+  ActiveSubscription: validateActiveSubscription,
+  ReceiptValidationResult: validateReceiptValidationResult,
+};
+
+const typeName = (value: unknown) =>
+  value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+/**
+ * Validate a payload against an OpenIAP type.
+ *
+ * @example
+ * ```typescript
+ * validatePayload('Purchase', {platform: 'ios', productId: 1});
+ * // [{path: '$.id', message: 'expected string, received undefined'}, ...]
+ * ```
+ */
+export const validatePayload = (
+  kind: PayloadKind,
+  value: unknown,
+): PayloadIssue[] => VALIDATORS[kind](value, '$', []);
+
+export const isValidPayload = <K extends PayloadKind>(
+  kind: K,
+  value: unknown,
+): value is PayloadTypes[K] => validatePayload(kind, value).length === 0;
+
+let config: PayloadValidationConfig = {mode: 'off'};
+
+/**
+ * Opt in to runtime validation of native payloads.
+ *
+ * @example
+ * ```typescript
+ * configurePayloadValidation({
+ *   mode: __DEV__ ? 'strict' : 'report',
+ *   onInvalidPayload: (report) => Sentry.captureMessage(JSON.stringify(report)),
+ * });
+ * ```
+ */
+export const configurePayloadValidation = (
+  next: Partial<PayloadValidationConfig>,
+): void => {
+  config = {...config, ...next};
+};
+
+const formatIssues = (issues: PayloadIssue[]) =>
+  issues.map((issue) => `${issue.path}: ${issue.message}`).join('; ');
+
+/**
+ * Check native results at the API boundary according to the configured mode.
+ * `kindOf` picks the type per item, e.g. `Product` vs `ProductSubscription`.
+ */
+export const checkNativePayload = <T>(
+  source: string,
+  payload: T,
+  kindOf: PayloadKind | ((item: unknown) => PayloadKind),
+  {list = false}: {list?: boolean} = {},
+): T => {
+  if (config.mode === 'off') {
+    return payload;
+  }
+
+  const issues: PayloadIssue[] = [];
+  let kind = typeof kindOf === 'function' ? undefined : kindOf;
+  const check = (item: unknown, path: string) => {
+    const itemKind = typeof kindOf === 'function' ? kindOf(item) : kindOf;
+    const before = issues.length;
+    VALIDATORS[itemKind](item, path, issues);
+    if (issues.length > before) {
+      kind = kind ?? itemKind;
+    }
+  };
+  if (!list) {
+    check(payload, '$');
+  } else if (!Array.isArray(payload)) {
+    issues.push({
+      path: '$',
+      message: `expected array, received ${typeName(payload)}`,
+    });
+  } else {
+    payload.forEach((item, index) => check(item, `$[${index}]`));
+  }
+  if (issues.length === 0) {
+    return payload;
+  }
+
+  const report: InvalidPayloadReport = {
+    kind: kind ?? (kindOf as (item: unknown) => PayloadKind)(payload),
+    source,
+    issues,
+    payload,
+  };
+  if (config.onInvalidPayload) {
+    config.onInvalidPayload(report);
+  } else {
+    ExpoIapConsole.warn(
+      `Invalid ${report.kind} payload from ${source}: ${formatIssues(issues)}`,
+    );
+  }
+
+  if (config.mode === 'strict') {
+    throw createPurchaseError({
+      code: ErrorCode.BillingResponseJsonParseError,
+      message: `Invalid ${report.kind} payload from ${source}: ${
+        issues[0]!.path
+      } ${issues[0]!.message}`,
+      debugMessage: formatIssues(issues),
+    });
+  }
+  return payload;
+};
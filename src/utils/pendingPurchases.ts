@@ -0,0 +1,146 @@
+/**
+ * Pending and deferred purchase tracking.
+ * Android slow payment methods report a `pending` purchase and StoreKit's Ask
+ * to Buy reports a `deferred-payment` error; both complete or fail later. The
+ * tracker remembers them and matches the late outcome to the original request.
+ */
+
+// Internal modules
+import {requestedSkus} from './purchaseFlow';
+
+// Types
+import {ErrorCode} from '../types';
+import type {MutationRequestPurchaseArgs, Purchase} from '../types';
+import type {PurchaseError} from './errorMapping';
+
+export interface PendingPurchase {
+  productId: string;
+  /** `deferred` for Ask to Buy, `pending` for Android pending payments. */
+  reason: 'pending' | 'deferred';
+  /** The request that started the purchase, when it was tracked. */
+  request: MutationRequestPurchaseArgs | null;
+  /** The pending purchase; null when the store only reported an error. */
+  purchase: Purchase | null;
+  /** When the purchase became pending, in ms since epoch. */
+  since: number;
+}
+
+export type PendingResolution =
+  | {status: 'purchased'; purchase: Purchase}
+  | {status: 'failed'; error: PurchaseError};
+
+export type PendingPurchaseEvent =
+  | {type: 'pending'; pending: PendingPurchase}
+  | {type: 'resolved'; pending: PendingPurchase; resolution: PendingResolution};
+
+export interface PendingPurchaseTracker {
+  /** Remember a request so a later pending purchase can be matched to it. */
+  trackRequest: (args: MutationRequestPurchaseArgs) => void;
+  /** Feed a `purchase-updated` event. */
+  handlePurchase: (purchase: Purchase) => PendingPurchaseEvent | null;
+  /** Feed a `purchase-error` event. Errors without a `productId` are ignored. */
+  handleError: (error: PurchaseError) => PendingPurchaseEvent | null;
+  getPending: () => PendingPurchase[];
+}
+
+const PENDING_ERRORS: Partial<Record<string, PendingPurchase['reason']>> = {
+  [ErrorCode.DeferredPayment]: 'deferred',
+  [ErrorCode.Pending]: 'pending',
+};
+
+/**
+ * Create a pending purchase tracker.
+ *
+ * @example
+ * ```typescript
+ * const tracker = createPendingPurchaseTracker();
+ * tracker.trackRequest(args);
+ * await requestPurchase(args);
+ *
+ * purchaseUpdatedListener((purchase) => {
+ *   const event = tracker.handlePurchase(purchase);
+ *   if (event?.type === 'resolved') {
+ *     showApproved(event.pending.productId);
+ *   }
+ * });
+ * ```
+ */
+export const createPendingPurchaseTracker = (
+  options: {now?: () => number} = {},
+): PendingPurchaseTracker => {
+  const now = options.now ?? Date.now;
+  const requests = new Map<string, MutationRequestPurchaseArgs>();
+  const pending = new Map<string, PendingPurchase>();
+
+  const markPending = (
+    productId: string,
+    reason: PendingPurchase['reason'],
+    purchase: Purchase | null,
+  ): PendingPurchaseEvent | null => {
+    const existing = pending.get(productId);
+    if (existing) {
+      existing.purchase = purchase ?? existing.purchase;
+      return null;
+    }
+    const entry: PendingPurchase = {
+      productId,
+      reason,
+      request: requests.get(productId) ?? null,
+      purchase,
+      since: now(),
+    };
+    pending.set(productId, entry);
+    return {type: 'pending', pending: entry};
+  };
+
+  const resolve = (
+    productId: string,
+    resolution: PendingResolution,
+  ): PendingPurchaseEvent | null => {
+    requests.delete(productId);
+    const entry = pending.get(productId);
+    if (!entry) {
+      return null;
+    }
+    pending.delete(productId);
+    return {type: 'resolved', pending: entry, resolution};
+  };
+
+  return {
+    trackRequest: (args) => {
+      requestedSkus(args).forEach((sku) => requests.set(sku, args));
+    },
+    handlePurchase: (purchase) => {
+      if (
+        purchase.purchaseState === 'pending' ||
+        purchase.purchaseState === 'deferred'
+      ) {
+        return markPending(
+          purchase.productId,
+          purchase.purchaseState,
+          purchase,
+        );
+      }
+      if (
+        purchase.purchaseState === 'purchased' ||
+        purchase.purchaseState === 'restored'
+      ) {
+        return resolve(purchase.productId, {status: 'purchased', purchase});
+      }
+      return null;
+    },
+    handleError: (error) => {
+      // Guessing the product could resolve an unrelated pending purchase.
+      const productId = error.productId;
+      if (!productId) {
+        return null;
+      }
+      const reason = error.code ? PENDING_ERRORS[error.code] : undefined;
+      if (reason) {
+        return markPending(productId, reason, null);
+      }
+      return resolve(productId, {status: 'failed', error});
+    },
+    getPending: () => [...pending.values()],
+  };
+};
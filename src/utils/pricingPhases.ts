@@ -0,0 +1,234 @@
+/**
+ * Normalized subscription pricing phases.
+ * Maps Play's `PricingPhaseAndroid` list and StoreKit's offer fields onto one
+ * `PricingPhase[]` shape, so a paywall can render "3 days free, then
+ * $4.99/month" the same way on both stores.
+ */
+
+// Types
+import type {
+  PricingPhaseAndroid,
+  ProductSubscription,
+  ProductSubscriptionAndroidOfferDetails,
+  ProductSubscriptionIOS,
+  SubscriptionOfferIOS,
+} from '../types';
+
+export type PricingPeriodUnit = 'day' | 'week' | 'month' | 'year';
+
+export interface PricingPeriod {
+  unit: PricingPeriodUnit;
+  value: number;
+}
+
+/**
+ * - `free-trial`: nothing is charged
+ * - `discount`: a reduced price before the regular one
+ * - `regular`: the price the subscription renews at
+ */
+export type PricingPhaseType = 'free-trial' | 'discount' | 'regular';
+
+/**
+ * - `infinite`: renews until cancelled
+ * - `finite`: renews for `cycleCount` billing periods
+ * - `non-recurring`: charged once for the whole phase
+ */
+export type PricingPhaseRecurrence = 'infinite' | 'finite' | 'non-recurring';
+
+export interface PricingPhase {
+  type: PricingPhaseType;
+  /** Length of one billing cycle. */
+  billingPeriod: PricingPeriod;
+  /** Billing cycles in the phase; null when it renews until cancelled. */
+  cycleCount: number | null;
+  /** Total length of the phase; null when it renews until cancelled. */
+  duration: PricingPeriod | null;
+  /** Price per billing cycle. */
+  price: number;
+  displayPrice: string;
+  currency: string;
+  recurrence: PricingPhaseRecurrence;
+}
+
+/** Play Billing `RecurrenceMode` values. */
+const RECURRENCE_MODE_ANDROID: Record<number, PricingPhaseRecurrence> = {
+  1: 'infinite',
+  2: 'finite',
+  3: 'non-recurring',
+};
+
+/**
+ * A period from an ISO 8601 duration such as `P3D` or `P1Y`. Mixed units
+ * collapse into months, or into days when days or weeks are involved.
+ */
+const periodOfIso = (iso: string): PricingPeriod => {
+  const counts: Record<string, number> = {};
+  [...iso.matchAll(/(\d+)([DWMY])/g)].forEach(([, count, unit]) => {
+    counts[unit!] = Number(count);
+  });
+  const {Y = 0, M = 0, W = 0, D = 0} = counts;
+  if (W + D === 0) {
+    return Y > 0 && M === 0
+      ? {unit: 'year', value: Y}
+      : {unit: 'month', value: Y * 12 + M};
+  }
+  if (Y + M === 0) {
+    return W > 0 && D === 0
+      ? {unit: 'week', value: W}
+      : {unit: 'day', value: W * 7 + D};
+  }
+  return {unit: 'day', value: (Y * 12 + M) * 30 + W * 7 + D};
+};
+
+const repeat = (period: PricingPeriod, count: number): PricingPeriod => ({
+  unit: period.unit,
+  value: period.value * count,
+});
+
+const phaseOfAndroid = (
+  phase: PricingPhaseAndroid,
+  isLast: boolean,
+): PricingPhase => {
+  const recurrence = RECURRENCE_MODE_ANDROID[phase.recurrenceMode] ?? 'finite';
+  const price = Number(phase.priceAmountMicros) / 1_000_000;
+  const billingPeriod = periodOfIso(phase.billingPeriod);
+  const cycleCount =
+    recurrence === 'infinite'
+      ? null
+      : recurrence === 'non-recurring'
+      ? 1
+      : phase.billingCycleCount;
+  return {
+    type: isLast ? 'regular' : price === 0 ? 'free-trial' : 'discount',
+    billingPeriod,
+    cycleCount,
+    duration: cycleCount === null ? null : repeat(billingPeriod, cycleCount),
+    price,
+    displayPrice: phase.formattedPrice,
+    currency: phase.priceCurrencyCode,
+    recurrence,
+  };
+};
+
+/**
+ * Pricing phases of one Play offer, in billing order. The last phase is the
+ * regular price.
+ *
+ * @platform Android
+ */
+export const getPricingPhasesAndroid = (
+  offer: ProductSubscriptionAndroidOfferDetails,
+): PricingPhase[] => {
+  const phases = offer.pricingPhases.pricingPhaseList;
+  return phases.map((phase, index) =>
+    phaseOfAndroid(phase, index === phases.length - 1),
+  );
+};
+
+const regularPhaseIOS = (product: ProductSubscriptionIOS): PricingPhase => {
+  const period = product.subscriptionInfoIOS?.subscriptionPeriod;
+  const unit = period?.unit ?? product.subscriptionPeriodUnitIOS;
+  return {
+    type: 'regular',
+    billingPeriod: {
+      unit: unit && unit !== 'empty' ? unit : 'month',
+      value:
+        period?.value ?? (Number(product.subscriptionPeriodNumberIOS) || 1),
+    },
+    cycleCount: null,
+    duration: null,
+    price: product.price ?? 0,
+    displayPrice: product.displayPrice,
+    currency: product.currency,
+    recurrence: 'infinite',
+  };
+};
+
+const offerPhaseIOS = (
+  product: ProductSubscriptionIOS,
+  offer: SubscriptionOfferIOS,
+): PricingPhase => {
+  const period: PricingPeriod = {
+    unit: offer.period.unit !== 'empty' ? offer.period.unit : 'month',
+    value: offer.period.value,
+  };
+  const base = {
+    price: offer.price,
+    displayPrice: offer.displayPrice,
+    currency: product.currency,
+  };
+  // Pay up front charges once for every period of the offer.
+  if (offer.paymentMode === 'pay-up-front') {
+    const duration = repeat(period, offer.periodCount);
+    return {
+      ...base,
+      type: 'discount',
+      billingPeriod: duration,
+      cycleCount: 1,
+      duration,
+      recurrence: 'non-recurring',
+    };
+  }
+  return {
+    ...base,
+    type: offer.paymentMode === 'free-trial' ? 'free-trial' : 'discount',
+    billingPeriod: period,
+    cycleCount: offer.periodCount,
+    duration: repeat(period, offer.periodCount),
+    recurrence: 'finite',
+  };
+};
+
+/**
+ * Pricing phases of an iOS subscription: the offer's phase, if any, followed
+ * by the regular price.
+ *
+ * @platform iOS
+ */
+export const getPricingPhasesIOS = (
+  product: ProductSubscriptionIOS,
+  offer?: SubscriptionOfferIOS | null,
+): PricingPhase[] =>
+  offer
+    ? [offerPhaseIOS(product, offer), regularPhaseIOS(product)]
+    : [regularPhaseIOS(product)];
+
+/**
+ * Pricing phases of a subscription offer on either platform. `offerId` picks
+ * the iOS introductory or promotional offer, or the Android offer; without it
+ * the regular price is returned. On Android, `basePlanIdAndroid` picks the
+ * base plan the offer belongs to; it is required when an offer ID is reused
+ * across base plans, and defaults to the first base plan for the regular
+ * price. Returns an empty list when the offer does not exist or is ambiguous.
+ *
+ * @example
+ * ```typescript
+ * const [first, ...rest] = getPricingPhases(subscription, 'trial', 'monthly');
+ * // first: {type: 'free-trial', duration: {unit: 'day', value: 3}, ...}
+ * // rest[0]: {type: 'regular', displayPrice: '$4.99', billingPeriod: {unit: 'month', value: 1}, ...}
+ * ```
+ */
+export const getPricingPhases = (
+  product: ProductSubscription,
+  offerId?: string | null,
+  basePlanIdAndroid?: string | null,
+): PricingPhase[] => {
+  if (product.platform === 'android') {
+    const offers = product.subscriptionOfferDetailsAndroid.filter(
+      (details) =>
+        (offerId ? details.offerId === offerId : !details.offerId) &&
+        (!basePlanIdAndroid || details.basePlanId === basePlanIdAndroid),
+    );
+    const isAmbiguous = Boolean(offerId) && offers.length > 1;
+    return offers[0] && !isAmbiguous ? getPricingPhasesAndroid(offers[0]) : [];
+  }
+  if (!offerId) {
+    return getPricingPhasesIOS(product);
+  }
+  const info = product.subscriptionInfoIOS;
+  const offer = [
+    info?.introductoryOffer,
+    ...(info?.promotionalOffers ?? []),
+  ].find((candidate) => candidate?.id === offerId);
+  return offer ? getPricingPhasesIOS(product, offer) : [];
+};
@@ -0,0 +1,202 @@
+/**
+ * Product kind registry.
+ * Records whether each product is consumable, non-consumable, a subscription
+ * or a non-renewing subscription, so finishing a purchase can pick between
+ * consuming, acknowledging and finishing without per-call `isConsumable` flags.
+ */
+
+// Internal modules
+import {finishTransaction} from '../index';
+import {ExpoIapConsole} from './debug';
+
+// Types
+import type {
+  Product,
+  ProductIOS,
+  ProductSubscription,
+  ProductTypeIOS,
+  Purchase,
+  PurchaseState,
+} from '../types';
+
+export type ProductKind =
+  | 'consumable'
+  | 'non-consumable'
+  | 'subscription'
+  | 'non-renewing';
+
+/**
+ * - `consume`: Android `consumePurchaseAndroid`; the product can be bought again
+ * - `acknowledge`: Android `acknowledgePurchaseAndroid`; the product stays owned
+ * - `finish`: iOS `finishTransaction`
+ */
+export type FinishAction = 'consume' | 'acknowledge' | 'finish';
+
+export interface ProductKindRegistry {
+  /** Declare kinds per product ID. Declared kinds win over inferred ones. */
+  register: (kinds: Record<string, ProductKind>) => void;
+  /**
+   * Infer kinds from fetched products. iOS reports all four kinds. Android
+   * in-app products are never inferred: Play does not say whether they are
+   * consumable, so declare them with `register` or `configureProductKinds`.
+   */
+  registerProducts: (products: (Product | ProductSubscription)[]) => void;
+  kindOf: (productId: string) => ProductKind | null;
+  /** Consumables and non-renewing subscriptions are consumed on Android. */
+  isConsumable: (productId: string) => boolean;
+  /** How a purchase should be finished, or null for unknown products. */
+  finishActionOf: (purchase: Purchase) => FinishAction | null;
+}
+
+export interface FinishPurchaseOptions {
+  /** Defaults to the app-wide registry. */
+  registry?: ProductKindRegistry;
+  /** Runs before finishing; return false to leave the purchase unfinished. */
+  verify?: (purchase: Purchase) => boolean | Promise<boolean>;
+}
+
+const INCOMPLETE_STATES: ReadonlySet<PurchaseState> = new Set([
+  'pending',
+  'deferred',
+  'failed',
+]);
+
+const IOS_KINDS: Record<ProductTypeIOS, ProductKind> = {
+  consumable: 'consumable',
+  'non-consumable': 'non-consumable',
+  'auto-renewable-subscription': 'subscription',
+  'non-renewing-subscription': 'non-renewing',
+};
+
+const inferKind = (
+  product: Product | ProductSubscription,
+): ProductKind | null => {
+  if (product.platform === 'ios') {
+    return IOS_KINDS[(product as ProductIOS).typeIOS] ?? null;
+  }
+  return product.type === 'subs' ? 'subscription' : null;
+};
+
+/**
+ * Create a product kind registry.
+ *
+ * @example
+ * ```typescript
+ * const registry = createProductKindRegistry({
+ *   coins_100: 'consumable',
+ *   remove_ads: 'non-consumable',
+ * });
+ * registry.registerProducts(await fetchProducts({skus, type: 'all'}));
+ * registry.finishActionOf(purchase); // 'consume' on Android
+ * ```
+ */
+export const createProductKindRegistry = (
+  kinds: Record<string, ProductKind> = {},
+): ProductKindRegistry => {
+  const declared = new Map(Object.entries(kinds));
+  const inferred = new Map<string, ProductKind>();
+
+  const kindOf = (productId: string) =>
+    declared.get(productId) ?? inferred.get(productId) ?? null;
+
+  const isConsumable = (productId: string) => {
+    const kind = kindOf(productId);
+    return kind === 'consumable' || kind === 'non-renewing';
+  };
+
+  return {
+    register: (next) => {
+      Object.entries(next).forEach(([productId, kind]) => {
+        declared.set(productId, kind);
+      });
+    },
+    registerProducts: (products) => {
+      products.forEach((product) => {
+        const kind = inferKind(product);
+        if (kind) {
+          inferred.set(product.id, kind);
+        }
+      });
+    },
+    kindOf,
+    isConsumable,
+    finishActionOf: (purchase) => {
+      if (!kindOf(purchase.productId)) {
+        return null;
+      }
+      if (purchase.platform === 'ios') {
+        return 'finish';
+      }
+      return isConsumable(purchase.productId) ? 'consume' : 'acknowledge';
+    },
+  };
+};
+
+let defaultRegistry: ProductKindRegistry = createProductKindRegistry();
+
+/**
+ * Replace the app-wide registry used by `finishPurchase` and `useIAP`.
+ *
+ * @example
+ * ```typescript
+ * configureProductKinds({coins_100: 'consumable', premium: 'subscription'});
+ * ```
+ */
+export const configureProductKinds = (
+  kinds: Record<string, ProductKind>,
+): ProductKindRegistry => {
+  defaultRegistry = createProductKindRegistry(kinds);
+  return defaultRegistry;
+};
+
+export const getProductKindRegistry = (): ProductKindRegistry =>
+  defaultRegistry;
+
+/**
+ * Verify and finish a purchase the way its product kind requires.
+ * Resolves with the action taken, or null when the purchase is not completed
+ * yet, `verify` rejected it or its kind is unknown. Unknown kinds are logged;
+ * on Android that includes every in-app product that was not declared.
+ *
+ * @example
+ * ```typescript
+ * purchaseUpdatedListener(async (purchase) => {
+ *   await finishPurchase(purchase, {
+ *     verify: (p) => api.verifyAndGrant(p),
+ *   });
+ * });
+ * ```
+ */
+export const finishPurchase = async (
+  purchase: Purchase,
+  options: FinishPurchaseOptions = {},
+): Promise<FinishAction | null> => {
+  if (INCOMPLETE_STATES.has(purchase.purchaseState)) {
+    return null;
+  }
+  const registry = options.registry ?? defaultRegistry;
+  const action = registry.finishActionOf(purchase);
+  if (!action) {
+    ExpoIapConsole.warn(
+      `finishPurchase: unknown product kind for ${purchase.productId}; declare it with configureProductKinds()`,
+    );
+    return null;
+  }
+  if (options.verify && !(await options.verify(purchase))) {
+    return null;
+  }
+  await finishTransaction({
+    purchase,
+    isConsumable: registry.isConsumable(purchase.productId),
+  });
+  return action;
+};
+
+/** `finishPurchase` that rejects when the purchase is left unfinished. */
+export const finishPurchaseOrThrow = async (purchase: Purchase) => {
+  const action = await finishPurchase(purchase);
+  if (!action) {
+    throw new Error(`finishPurchase: ${purchase.productId} was not finished`);
+  }
+  return action;
+};
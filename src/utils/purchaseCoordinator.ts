@@ -0,0 +1,194 @@
+/**
+ * Purchase coordinator.
+ * Allows one purchase flow at a time so double taps and parallel paywalls do
+ * not start overlapping store sheets. Overlapping calls follow a policy.
+ */
+
+// Internal modules
+import {createPurchaseError} from './errorMapping';
+
+// Types
+import {ErrorCode} from '../types';
+import type {PurchaseError} from './errorMapping';
+
+/**
+ * - `reject`: fail the new call with a `PurchaseInProgressError`
+ * - `queue`: start the new flow once the current one settles
+ * - `join`: share the result of the current flow when it is for the same
+ *   products; calls for other products are rejected
+ */
+export type ConcurrentPurchasePolicy = 'reject' | 'queue' | 'join';
+
+export interface PurchaseCoordinatorOptions {
+  /** Defaults to `reject`. */
+  policy?: ConcurrentPurchasePolicy;
+}
+
+export interface PurchaseCoordinator {
+  /**
+   * Run a purchase flow exclusively. `key` identifies the requested products;
+   * the flow counts as in flight until the promise returned by `task` settles.
+   */
+  run: <T>(
+    key: string,
+    task: () => Promise<T>,
+    options?: {policy?: ConcurrentPurchasePolicy},
+  ) => Promise<T>;
+  isPurchasing: () => boolean;
+  /** Called with `true` when a flow starts and `false` once all have settled. */
+  subscribe: (listener: (isPurchasing: boolean) => void) => () => void;
+}
+
+export interface PurchaseInProgressError extends PurchaseError {
+  name: typeof PURCHASE_IN_PROGRESS;
+  /** Key of the flow that is in flight. */
+  inProgressKey: string;
+}
+
+const PURCHASE_IN_PROGRESS = '[expo-iap]: PurchaseInProgressError';
+
+const createPurchaseInProgressError = (
+  key: string,
+  inProgressKey: string,
+): PurchaseInProgressError => {
+  const error = createPurchaseError({
+    message: `A purchase for ${inProgressKey} is already in progress`,
+    code: ErrorCode.PurchaseError,
+    productId: key,
+  }) as PurchaseInProgressError;
+  error.name = PURCHASE_IN_PROGRESS;
+  error.inProgressKey = inProgressKey;
+  return error;
+};
+
+export function isPurchaseInProgressError(
+  error: unknown,
+): error is PurchaseInProgressError {
+  return (
+    error instanceof Error &&
+    (error as Partial<PurchaseInProgressError>).name === PURCHASE_IN_PROGRESS
+  );
+}
+
+/**
+ * Create a purchase coordinator.
+ *
+ * @example
+ * ```typescript
+ * const coordinator = createPurchaseCoordinator({policy: 'queue'});
+ * const outcome = await coordinator.run('coins_100', () =>
+ *   waitForPurchase('coins_100'),
+ * );
+ * ```
+ */
+export const createPurchaseCoordinator = (
+  options: PurchaseCoordinatorOptions = {},
+): PurchaseCoordinator => {
+  const defaultPolicy = options.policy ?? 'reject';
+  const listeners = new Set<(isPurchasing: boolean) => void>();
+  const queue: (() => void)[] = [];
+  let current: {key: string; promise: Promise<unknown>} | null = null;
+
+  const notify = (isPurchasing: boolean) => {
+    listeners.forEach((listener) => listener(isPurchasing));
+  };
+
+  const release = () => {
+    const next = queue.shift();
+    if (next) {
+      next();
+    } else {
+      current = null;
+      notify(false);
+    }
+  };
+
+  const start = <T>(key: string, task: () => Promise<T>): Promise<T> => {
+    const wasIdle = current === null;
+    let promise: Promise<T>;
+    try {
+      promise = Promise.resolve(task());
+    } catch (error) {
+      promise = Promise.reject(error);
+    }
+    current = {key, promise};
+    promise.then(release, release);
+    if (wasIdle) {
+      notify(true);
+    }
+    return promise;
+  };
+
+  return {
+    run: (key, task, runOptions = {}) => {
+      if (!current) {
+        return start(key, task);
+      }
+      const policy = runOptions.policy ?? defaultPolicy;
+      if (policy === 'join' && current.key === key) {
+        return current.promise as ReturnType<typeof task>;
+      }
+      if (policy === 'queue') {
+        return new Promise((resolve, reject) => {
+          queue.push(() => {
+            start(key, task).then(resolve, reject);
+          });
+        });
+      }
+      return Promise.reject(createPurchaseInProgressError(key, current.key));
+    },
+    isPurchasing: () => current !== null,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
+
+let defaultCoordinator: PurchaseCoordinator = createPurchaseCoordinator();
+const coordinatorListeners = new Set<
+  (coordinator: PurchaseCoordinator) => void
+>();
+
+/**
+ * Replace the app-wide coordinator used by `purchase()` and `useIAP`.
+ * Call it at startup, before any purchase is in flight.
+ *
+ * @example
+ * ```typescript
+ * configurePurchaseCoordinator({policy: 'join'});
+ * ```
+ */
+export const configurePurchaseCoordinator = (
+  options: PurchaseCoordinatorOptions,
+): PurchaseCoordinator => {
+  defaultCoordinator = createPurchaseCoordinator(options);
+  coordinatorListeners.forEach((listener) => listener(defaultCoordinator));
+  return defaultCoordinator;
+};
+
+export const getPurchaseCoordinator = (): PurchaseCoordinator =>
+  defaultCoordinator;
+
+/**
+ * Follow `isPurchasing` of the app-wide coordinator, including coordinators
+ * configured later. Calls `listener` with the current value right away.
+ */
+export const subscribeToPurchasing = (
+  listener: (isPurchasing: boolean) => void,
+): (() => void) => {
+  let unsubscribe = () => {};
+  const attach = (coordinator: PurchaseCoordinator) => {
+    unsubscribe();
+    listener(coordinator.isPurchasing());
+    unsubscribe = coordinator.subscribe(listener);
+  };
+  attach(defaultCoordinator);
+  coordinatorListeners.add(attach);
+  return () => {
+    coordinatorListeners.delete(attach);
+    unsubscribe();
+  };
+};
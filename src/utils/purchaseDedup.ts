@@ -0,0 +1,208 @@
+/**
+ * Purchase event deduplication.
+ * `purchase-updated` can fire several times for one transaction (restores,
+ * `alsoPublishToEventListenerIOS`, replays of unfinished transactions). A
+ * persisted seen-set with a TTL lets each transaction through once.
+ */
+
+// Internal modules
+import {ExpoIapConsole} from './debug';
+import {DAY_MS, isCompleted, ledgerKeyOf} from './purchaseLedger';
+import {createMemoryStorage, readJson} from './storage';
+
+// Types
+import type {Purchase} from '../types';
+import type {KeyValueStorage} from './storage';
+
+export interface PurchaseDeduplicatorOptions {
+  /** Defaults to in-memory storage. */
+  storage?: KeyValueStorage;
+  /** Storage key. Defaults to `expo-iap/seen-purchases`. */
+  storageKey?: string;
+  /** How long a transaction is remembered. Defaults to 30 days. */
+  ttlMs?: number;
+  /** Defaults to `Date.now`. */
+  now?: () => number;
+}
+
+export interface PurchaseDeduplicator {
+  /**
+   * Reserve a purchase. Resolves true the first time a transaction is seen
+   * within the TTL, false for duplicates and while a reservation is open.
+   * Pending purchases are always let through and never recorded.
+   */
+  claim: (purchase: Purchase) => Promise<boolean>;
+  /** Persist a reserved purchase as seen, once it has been handled. */
+  commit: (purchase: Purchase) => Promise<void>;
+  /** Drop a reservation after handling failed, so a replay gets through. */
+  release: (purchase: Purchase) => void;
+  /** Forget every seen transaction. */
+  clear: () => Promise<void>;
+}
+
+/** Deduplication options shared by `purchaseUpdatedListener` and `useIAP`. */
+export interface PurchaseDedupeOptions {
+  /** `true` uses the app-wide deduplicator. Off by default. */
+  dedupe?: boolean | PurchaseDeduplicator;
+  /** Sees every dropped duplicate, e.g. for logging while debugging. */
+  onDuplicate?: (purchase: Purchase) => void;
+}
+
+/**
+ * Create a deduplicator.
+ *
+ * @example
+ * ```typescript
+ * const deduplicator = createPurchaseDeduplicator({storage: AsyncStorage});
+ * purchaseUpdatedListener(grant, {dedupe: deduplicator});
+ * ```
+ */
+export const createPurchaseDeduplicator = (
+  options: PurchaseDeduplicatorOptions = {},
+): PurchaseDeduplicator => {
+  const storage = options.storage ?? createMemoryStorage();
+  const storageKey = options.storageKey ?? 'expo-iap/seen-purchases';
+  const ttlMs = options.ttlMs ?? 30 * DAY_MS;
+  const now = options.now ?? Date.now;
+  const reserved = new Set<string>();
+  let seen: Map<string, number> | null = null;
+  let loading: Promise<Map<string, number>> | null = null;
+  let saving: Promise<void> = Promise.resolve();
+
+  const load = () => {
+    if (seen) {
+      return Promise.resolve(seen);
+    }
+    if (!loading) {
+      loading = readJson<Record<string, number>>(storage, storageKey, {}).then(
+        (stored) => {
+          seen = new Map(Object.entries(stored));
+          return seen;
+        },
+      );
+    }
+    return loading;
+  };
+
+  const prune = (current: Map<string, number>) => {
+    const cutoff = now() - ttlMs;
+    current.forEach((seenAt, key) => {
+      if (seenAt <= cutoff) {
+        current.delete(key);
+      }
+    });
+  };
+
+  const save = () => {
+    saving = saving
+      .catch(() => undefined)
+      .then(async () => {
+        const current = await load();
+        prune(current);
+        await storage.setItem(
+          storageKey,
+          JSON.stringify(Object.fromEntries(current)),
+        );
+      });
+    return saving;
+  };
+
+  return {
+    claim: async (purchase) => {
+      if (!isCompleted(purchase)) {
+        return true;
+      }
+      const current = await load();
+      prune(current);
+      const key = ledgerKeyOf(purchase);
+      if (current.has(key) || reserved.has(key)) {
+        return false;
+      }
+      reserved.add(key);
+      return true;
+    },
+    commit: async (purchase) => {
+      if (!isCompleted(purchase)) {
+        return;
+      }
+      const key = ledgerKeyOf(purchase);
+      const current = await load();
+      current.set(key, now());
+      reserved.delete(key);
+      await save();
+    },
+    release: (purchase) => {
+      reserved.delete(ledgerKeyOf(purchase));
+    },
+    clear: async () => {
+      (await load()).clear();
+      reserved.clear();
+      await save();
+    },
+  };
+};
+
+let defaultDeduplicator: PurchaseDeduplicator | null = null;
+
+/**
+ * Replace the app-wide deduplicator used by `purchaseUpdatedListener` and
+ * `useIAP` when deduplication is enabled with `true`.
+ *
+ * @example
+ * ```typescript
+ * configurePurchaseDeduplication({
+ *   storage: AsyncStorage,
+ *   ttlMs: 7 * 24 * 60 * 60 * 1000, // one week
+ * });
+ * ```
+ */
+export const configurePurchaseDeduplication = (
+  options: PurchaseDeduplicatorOptions,
+): PurchaseDeduplicator => {
+  defaultDeduplicator = createPurchaseDeduplicator(options);
+  return defaultDeduplicator;
+};
+
+/** The app-wide deduplicator; in-memory unless configured. */
+export const getPurchaseDeduplicator = (): PurchaseDeduplicator => {
+  if (!defaultDeduplicator) {
+    defaultDeduplicator = createPurchaseDeduplicator();
+  }
+  return defaultDeduplicator;
+};
+
+/**
+ * Hand a purchase to `handle` once per transaction. The purchase is committed
+ * after `handle` succeeds and released when it throws, so a replay is handled
+ * again; the error is rethrown. A failed claim is treated as a first sighting.
+ */
+export const deliverOnce = async (
+  deduplicator: PurchaseDeduplicator,
+  purchase: Purchase,
+  handle: (purchase: Purchase) => unknown,
+  onDuplicate?: (purchase: Purchase) => unknown,
+): Promise<void> => {
+  let isFirst = true;
+  try {
+    isFirst = await deduplicator.claim(purchase);
+  } catch (error) {
+    ExpoIapConsole.warn('Failed to deduplicate purchase:', error);
+  }
+  if (!isFirst) {
+    await onDuplicate?.(purchase);
+    return;
+  }
+  try {
+    await handle(purchase);
+  } catch (error) {
+    deduplicator.release(purchase);
+    throw error;
+  }
+  await deduplicator.commit(purchase);
+};
+
+/** Resolve a `dedupe` option to a deduplicator, or null when disabled. */
+export const resolveDeduplicator = (
+  dedupe: boolean | PurchaseDeduplicator | undefined,
+): PurchaseDeduplicator | null =>
+  dedupe === true ? getPurchaseDeduplicator() : dedupe || null;
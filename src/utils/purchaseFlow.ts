@@ -0,0 +1,215 @@
+/**
+ * Awaitable purchase flow.
+ * `requestPurchase` only starts a purchase; the outcome arrives through
+ * `purchase-updated` / `purchase-error` events (always on Android, for
+ * deferred payments on iOS). `purchase()` correlates those events by SKU.
+ */
+
+// External dependencies
+import {Platform} from 'react-native';
+
+// Internal modules
+import {
+  purchaseErrorListener,
+  purchaseUpdatedListener,
+  requestPurchase,
+} from '../index';
+import {getPurchaseCoordinator} from './purchaseCoordinator';
+
+// Types
+import type {
+  MutationRequestPurchaseArgs,
+  Purchase,
+  RequestPurchaseResult,
+} from '../types';
+import {ErrorCode} from '../types';
+import type {PurchaseError} from './errorMapping';
+import type {ConcurrentPurchasePolicy} from './purchaseCoordinator';
+
+/**
+ * - `purchased`: the purchase completed; finish it as usual
+ * - `pending`: Android pending payment; completes later via `purchase-updated`
+ * - `deferred`: iOS Ask to Buy; completes later if a guardian approves
+ * - `timed-out`: no outcome within `timeoutMs`; the purchase may still complete
+ */
+export type PurchaseOutcome =
+  | {status: 'purchased'; purchase: Purchase}
+  | {status: 'pending' | 'deferred'; purchase: Purchase | null}
+  | {status: 'timed-out'; purchase: null};
+
+export type PurchaseFlowArgs = MutationRequestPurchaseArgs & {
+  /**
+   * Give up waiting after this many ms. Defaults to
+   * `EXCLUSIVE_PURCHASE_TIMEOUT_MS`, so a lost outcome cannot hold the
+   * purchase coordinator forever.
+   */
+  timeoutMs?: number;
+  /** What to do while another purchase is in flight; see `configurePurchaseCoordinator`. */
+  concurrency?: ConcurrentPurchasePolicy;
+};
+
+/** How long a coordinated purchase flow waits for its outcome by default. */
+export const EXCLUSIVE_PURCHASE_TIMEOUT_MS = 5 * 60 * 1000;
+
+/** SKUs a request asks for on the current platform. */
+export const requestedSkus = ({
+  request,
+}: MutationRequestPurchaseArgs): string[] => {
+  const byPlatform = request as {
+    ios?: {sku?: string} | null;
+    android?: {skus?: string[]} | null;
+  };
+  if (Platform.OS === 'ios') {
+    return byPlatform.ios?.sku ? [byPlatform.ios.sku] : [];
+  }
+  return byPlatform.android?.skus ?? [];
+};
+
+const toOutcome = (purchase: Purchase): PurchaseOutcome =>
+  purchase.purchaseState === 'pending' || purchase.purchaseState === 'deferred'
+    ? {status: purchase.purchaseState, purchase}
+    : {status: 'purchased', purchase};
+
+const startPurchaseFlow = (
+  args: MutationRequestPurchaseArgs,
+  timeoutMs?: number,
+): {
+  request: Promise<RequestPurchaseResult>;
+  outcome: Promise<PurchaseOutcome>;
+} => {
+  const skus = requestedSkus(args);
+  const matches = (productId?: string | null) =>
+    productId != null && skus.includes(productId);
+  let request!: Promise<RequestPurchaseResult>;
+
+  const outcome = new Promise<PurchaseOutcome>((resolve, reject) => {
+    let settled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const settle = (finish: () => void) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      clearTimeout(timer);
+      updated.remove();
+      failed.remove();
+      finish();
+    };
+
+    // Subscribe before requesting: the outcome may arrive first.
+    const updated = purchaseUpdatedListener((next) => {
+      if (matches(next.productId)) {
+        settle(() => resolve(toOutcome(next)));
+      }
+    });
+    const failed = purchaseErrorListener((error: PurchaseError) => {
+      if (error.productId && !matches(error.productId)) {
+        return;
+      }
+      if (error.code === ErrorCode.DeferredPayment) {
+        settle(() => resolve({status: 'deferred', purchase: null}));
+      } else if (error.code === ErrorCode.Pending) {
+        settle(() => resolve({status: 'pending', purchase: null}));
+      } else {
+        settle(() => reject(error));
+      }
+    });
+
+    if (timeoutMs != null) {
+      timer = setTimeout(() => {
+        settle(() => resolve({status: 'timed-out', purchase: null}));
+      }, timeoutMs);
+    }
+
+    try {
+      request = requestPurchase(args);
+    } catch (error) {
+      request = Promise.reject(error);
+    }
+    request.then(
+      (result) => {
+        const returned = (Array.isArray(result) ? result : [result]).find(
+          (item): item is Purchase => !!item && matches(item.productId),
+        );
+        if (returned) {
+          settle(() => resolve(toOutcome(returned)));
+        }
+      },
+      (error) => settle(() => reject(error)),
+    );
+  });
+  return {request, outcome};
+};
+
+/**
+ * Request a purchase and wait for its outcome on either platform.
+ * Resolves with the matching purchase, or a pending/deferred/timed-out
+ * outcome; rejects with the matching `PurchaseError`, e.g. `user-cancelled`.
+ * Errors that carry no `productId` are attributed to the pending request.
+ * Runs through the app-wide purchase coordinator, one flow at a time.
+ *
+ * @example
+ * ```typescript
+ * const outcome = await purchase({
+ *   request: {ios: {sku: 'coins_100'}, android: {skus: ['coins_100']}},
+ *   type: 'in-app',
+ *   timeoutMs: 120_000,
+ * });
+ * if (outcome.status === 'purchased') {
+ *   await finishTransaction({purchase: outcome.purchase, isConsumable: true});
+ * }
+ * ```
+ */
+export const purchase = ({
+  timeoutMs = EXCLUSIVE_PURCHASE_TIMEOUT_MS,
+  concurrency,
+  ...args
+}: PurchaseFlowArgs): Promise<PurchaseOutcome> =>
+  getPurchaseCoordinator().run(
+    requestedSkus(args).join(','),
+    () => startPurchaseFlow(args, timeoutMs).outcome,
+    {policy: concurrency},
+  );
+
+export interface ExclusivePurchaseOptions {
+  concurrency?: ConcurrentPurchasePolicy;
+  /**
+   * Release the coordinator after this many ms if no outcome has arrived.
+   * Defaults to `EXCLUSIVE_PURCHASE_TIMEOUT_MS`.
+   */
+  timeoutMs?: number;
+}
+
+/**
+ * `requestPurchase` through the app-wide purchase coordinator, used by `useIAP`.
+ * Resolves as soon as `requestPurchase` does, but the flow stays in flight
+ * until its outcome arrives, the request fails or `timeoutMs` passes.
+ * Callers that join receive the joined purchase.
+ */
+export const requestPurchaseExclusive = (
+  args: MutationRequestPurchaseArgs,
+  {
+    concurrency,
+    timeoutMs = EXCLUSIVE_PURCHASE_TIMEOUT_MS,
+  }: ExclusivePurchaseOptions = {},
+): Promise<RequestPurchaseResult> =>
+  new Promise<RequestPurchaseResult>((resolve, reject) => {
+    let started = false;
+    getPurchaseCoordinator()
+      .run(
+        requestedSkus(args).join(','),
+        () => {
+          started = true;
+          const flow = startPurchaseFlow(args, timeoutMs);
+          flow.request.then(resolve, reject);
+          return flow.outcome;
+        },
+        {policy: concurrency},
+      )
+      .then((outcome) => {
+        if (!started) {
+          resolve(outcome.purchase);
+        }
+      }, reject);
+  });
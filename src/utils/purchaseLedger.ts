@@ -0,0 +1,246 @@
+/**
+ * Purchase ledger.
+ * Remembers the last known purchases and diffs every new snapshot against
+ * them, so refunds and revocations are noticed even though the stores only
+ * report them by dropping or flagging the purchase.
+ */
+
+// External dependencies
+import {Platform} from 'react-native';
+
+// Internal modules
+import {getAvailablePurchases} from '../index';
+import {syncIOS} from '../modules/ios';
+
+// Types
+import type {
+  Purchase,
+  PurchaseAndroid,
+  PurchaseIOS,
+  PurchaseOptions,
+} from '../types';
+
+/**
+ * - `new`: a completed purchase appeared (or a pending one completed)
+ * - `revoked`: the store flagged a purchase as revoked (`revocationDateIOS`)
+ * - `refunded`: a purchase disappeared before it could have expired
+ * - `expired`: a subscription disappeared after its period ended or auto-renew was off
+ * - `removed`: an auto-renewing subscription without an expiry date
+ *   disappeared, e.g. an Android subscription on account hold or paused, or
+ *   refunded; check your backend before revoking access
+ */
+export type PurchaseChangeType =
+  | 'new'
+  | 'revoked'
+  | 'refunded'
+  | 'expired'
+  | 'removed';
+
+export interface PurchaseChange {
+  type: PurchaseChangeType;
+  /** Ledger key: the transaction ID (purchase token for Android). */
+  transactionId: string;
+  productId: string;
+  /** The purchase as last seen; for `new`, the purchase that appeared. */
+  purchase: Purchase;
+  /** Time the change was detected. */
+  at: number;
+}
+
+export interface PurchaseLedgerOptions {
+  /** Last known purchases, e.g. restored from storage via `getPurchases()`. */
+  initial?: Purchase[];
+  /** Products that disappear once consumed; their removal is never reported. */
+  consumables?: string[];
+  /** Defaults to `Date.now`. */
+  now?: () => number;
+  onChange?: (change: PurchaseChange) => void;
+}
+
+export interface PurchaseLedger {
+  /** Diff a complete purchase list against the ledger, then remember it. */
+  reconcile: (purchases: Purchase[]) => PurchaseChange[];
+  /** `getAvailablePurchases` followed by `reconcile`. */
+  refresh: (options?: PurchaseOptions) => Promise<PurchaseChange[]>;
+  /** Like `restorePurchases`: syncs with the App Store first on iOS. */
+  restore: () => Promise<PurchaseChange[]>;
+  /** Stop tracking a purchase, e.g. after consuming it. */
+  forget: (transactionId: string) => void;
+  getPurchases: () => Purchase[];
+  subscribe: (listener: (change: PurchaseChange) => void) => () => void;
+}
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Android keeps one token across renewals and pending → purchased. */
+export const ledgerKeyOf = (purchase: Purchase): string =>
+  purchase.platform === 'android'
+    ? purchase.purchaseToken ?? purchase.id
+    : (purchase as PurchaseIOS).transactionId ?? purchase.id;
+
+/** The store's transaction ID: `transactionId` on iOS, the order ID on Android. */
+export const transactionIdOf = (purchase: Purchase): string =>
+  (purchase as PurchaseIOS).transactionId ?? purchase.id;
+
+export const isCompleted = (purchase: Purchase) =>
+  purchase.purchaseState === 'purchased' ||
+  purchase.purchaseState === 'restored';
+
+/** Play only includes `autoRenewing` in the purchase JSON of subscriptions. */
+const isSubscription = (purchase: Purchase) => {
+  if (purchase.platform !== 'android') {
+    return (purchase as PurchaseIOS).expirationDateIOS != null;
+  }
+  try {
+    return (
+      'autoRenewing' in
+      JSON.parse((purchase as PurchaseAndroid).dataAndroid ?? '{}')
+    );
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Create a purchase ledger.
+ * Without `initial`, the first snapshot reports every completed purchase as `new`.
+ *
+ * @example
+ * ```typescript
+ * const ledger = createPurchaseLedger({
+ *   initial: await loadPurchases(),
+ *   consumables: ['coins_100'],
+ *   onChange: (change) => {
+ *     if (change.type === 'refunded' || change.type === 'revoked') {
+ *       removeContent(change.productId);
+ *     }
+ *   },
+ * });
+ *
+ * await ledger.refresh();
+ * await savePurchases(ledger.getPurchases());
+ * ```
+ */
+export const createPurchaseLedger = (
+  options: PurchaseLedgerOptions = {},
+): PurchaseLedger => {
+  const now = options.now ?? Date.now;
+  const consumables = new Set(options.consumables ?? []);
+  const listeners = new Set<(change: PurchaseChange) => void>();
+  let known = new Map<string, Purchase>(
+    (options.initial ?? []).map((purchase) => [
+      ledgerKeyOf(purchase),
+      purchase,
+    ]),
+  );
+
+  const classifyRemoval = (
+    purchase: Purchase,
+    current: Purchase[],
+    at: number,
+  ): PurchaseChangeType | null => {
+    const ios = purchase as PurchaseIOS;
+    if (
+      !isCompleted(purchase) ||
+      consumables.has(purchase.productId) ||
+      ios.revocationDateIOS != null
+    ) {
+      return null;
+    }
+    if (!isSubscription(purchase)) {
+      return 'refunded';
+    }
+    // StoreKit replaces the transaction on every renewal.
+    const renewed = current.some(
+      (next) =>
+        next.platform === 'ios' &&
+        (next as PurchaseIOS).originalTransactionIdentifierIOS != null &&
+        (next as PurchaseIOS).originalTransactionIdentifierIOS ===
+          (ios.originalTransactionIdentifierIOS ?? ios.transactionId),
+    );
+    if (renewed) {
+      return null;
+    }
+    const expiration = ios.expirationDateIOS;
+    if (expiration != null) {
+      return expiration <= at ? 'expired' : 'refunded';
+    }
+    // Play drops held and paused subscriptions too; nothing says which.
+    return purchase.isAutoRenewing ? 'removed' : 'expired';
+  };
+
+  const reconcile = (purchases: Purchase[]) => {
+    const at = now();
+    const changes: PurchaseChange[] = [];
+    const next = new Map(
+      purchases.map((purchase) => [ledgerKeyOf(purchase), purchase]),
+    );
+    const push = (type: PurchaseChangeType, purchase: Purchase) => {
+      changes.push({
+        type,
+        transactionId: ledgerKeyOf(purchase),
+        productId: purchase.productId,
+        purchase,
+        at,
+      });
+    };
+
+    next.forEach((purchase, key) => {
+      const previous = known.get(key);
+      const revoked = (purchase as PurchaseIOS).revocationDateIOS != null;
+      if (revoked) {
+        if ((previous as PurchaseIOS | undefined)?.revocationDateIOS == null) {
+          push('revoked', purchase);
+        }
+      } else if (
+        isCompleted(purchase) &&
+        (!previous || !isCompleted(previous))
+      ) {
+        push('new', purchase);
+      }
+    });
+    known.forEach((purchase, key) => {
+      if (next.has(key)) {
+        return;
+      }
+      const type = classifyRemoval(purchase, purchases, at);
+      if (type) {
+        push(type, purchase);
+      }
+    });
+
+    known = next;
+    changes.forEach((change) => {
+      options.onChange?.(change);
+      listeners.forEach((listener) => listener(change));
+    });
+    return changes;
+  };
+
+  const refresh = async (purchaseOptions?: PurchaseOptions) =>
+    reconcile(await getAvailablePurchases(purchaseOptions));
+
+  return {
+    reconcile,
+    refresh,
+    restore: async () => {
+      if (Platform.OS === 'ios') {
+        await syncIOS().catch(() => undefined);
+      }
+      return refresh({
+        alsoPublishToEventListenerIOS: false,
+        onlyIncludeActiveItemsIOS: true,
+      });
+    },
+    forget: (transactionId) => {
+      known.delete(transactionId);
+    },
+    getPurchases: () => [...known.values()],
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
@@ -0,0 +1,234 @@
+/**
+ * Persistent purchase outbox.
+ * Records every received purchase before it is sent to the app's backend and
+ * keeps retrying with backoff until the backend confirms it, so purchases
+ * received just before the app is killed are delivered on the next launch.
+ */
+
+// Internal modules
+import {purchaseUpdatedListener} from '../index';
+import {ExpoIapConsole} from './debug';
+import {DAY_MS, ledgerKeyOf} from './purchaseLedger';
+import {createMemoryStorage, readJson} from './storage';
+
+// Types
+import type {Purchase} from '../types';
+import type {KeyValueStorage} from './storage';
+
+export interface OutboxEntry {
+  /** Transaction ID (purchase token for Android). */
+  transactionId: string;
+  purchase: Purchase;
+  status: 'queued' | 'delivered';
+  attempts: number;
+  /** When the next delivery attempt is due, in ms since epoch. */
+  nextAttemptAt: number;
+  lastError: string | null;
+  createdAt: number;
+  deliveredAt: number | null;
+}
+
+export interface PurchaseOutboxOptions {
+  /**
+   * Deliver a purchase to your backend. Resolve `true` once it is stored
+   * there; resolving `false` or throwing schedules another attempt.
+   */
+  send: (purchase: Purchase) => Promise<boolean>;
+  /** Defaults to in-memory storage. */
+  storage?: KeyValueStorage;
+  /** Storage key. Defaults to `expo-iap/purchase-outbox`. */
+  storageKey?: string;
+  /** Delay before the first retry in ms. Defaults to 1 second. */
+  initialBackoffMs?: number;
+  /** Upper bound for the doubling retry delay in ms. Defaults to 5 minutes. */
+  maxBackoffMs?: number;
+  /** How long delivered entries are kept to ignore replays. Defaults to 7 days. */
+  retainDeliveredMs?: number;
+  /** Defaults to `Date.now`. */
+  now?: () => number;
+  /** Purchases `listen` fails to record. Defaults to logging a warning. */
+  onError?: (error: unknown, purchase: Purchase) => void;
+}
+
+export interface PurchaseOutbox {
+  /** Record a purchase and try to deliver it. Known purchases are ignored. */
+  add: (purchase: Purchase) => Promise<void>;
+  /** Attempt every due entry now. Resolves with the entries still queued. */
+  flush: () => Promise<OutboxEntry[]>;
+  getEntries: () => Promise<OutboxEntry[]>;
+  /** Feed `purchaseUpdatedListener` events into the outbox. */
+  listen: () => {remove: () => void};
+  /** Cancel the scheduled retry. Entries stay in storage. */
+  dispose: () => void;
+}
+
+/**
+ * Create a purchase outbox. Entries left from earlier sessions are retried on
+ * the first `flush`, `add` or retry timer.
+ *
+ * @example
+ * ```typescript
+ * const outbox = createPurchaseOutbox({
+ *   storage: AsyncStorage,
+ *   send: async (purchase) => (await api.deliver(purchase)).ok,
+ * });
+ * const subscription = outbox.listen();
+ * await outbox.flush();
+ * ```
+ */
+export const createPurchaseOutbox = (
+  options: PurchaseOutboxOptions,
+): PurchaseOutbox => {
+  const storage = options.storage ?? createMemoryStorage();
+  const storageKey = options.storageKey ?? 'expo-iap/purchase-outbox';
+  const initialBackoffMs = options.initialBackoffMs ?? 1000;
+  const maxBackoffMs = options.maxBackoffMs ?? 5 * 60 * 1000;
+  const retainDeliveredMs = options.retainDeliveredMs ?? 7 * DAY_MS;
+  const now = options.now ?? Date.now;
+  const onError =
+    options.onError ??
+    ((error: unknown) => {
+      ExpoIapConsole.warn('[purchaseOutbox] Failed to record purchase:', error);
+    });
+
+  let entries: Map<string, OutboxEntry> | null = null;
+  let loading: Promise<Map<string, OutboxEntry>> | null = null;
+  let flushing: Promise<OutboxEntry[]> | null = null;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let disposed = false;
+
+  const load = () => {
+    if (entries) {
+      return Promise.resolve(entries);
+    }
+    if (!loading) {
+      loading = readJson<OutboxEntry[]>(storage, storageKey, []).then(
+        (stored) => {
+          const cutoff = now() - retainDeliveredMs;
+          entries = new Map(
+            stored
+              .filter(
+                (entry) =>
+                  entry.status === 'queued' ||
+                  (entry.deliveredAt ?? 0) > cutoff,
+              )
+              .map((entry) => [entry.transactionId, entry]),
+          );
+          return entries;
+        },
+      );
+    }
+    return loading;
+  };
+
+  // Writes are chained and serialize the entries when they run, so the last
+  // write always holds the latest state.
+  let saving: Promise<void> = Promise.resolve();
+  const save = () => {
+    saving = saving
+      .catch(() => undefined)
+      .then(async () => {
+        const current = await load();
+        await storage.setItem(
+          storageKey,
+          JSON.stringify([...current.values()]),
+        );
+      });
+    return saving;
+  };
+
+  const queued = (current: Map<string, OutboxEntry>) =>
+    [...current.values()].filter((entry) => entry.status === 'queued');
+
+  const schedule = (current: Map<string, OutboxEntry>) => {
+    clearTimeout(timer);
+    const nextAt = Math.min(
+      ...queued(current).map((entry) => entry.nextAttemptAt),
+    );
+    if (disposed || !Number.isFinite(nextAt)) {
+      return;
+    }
+    timer = setTimeout(() => {
+      flush().catch(() => undefined);
+    }, Math.max(0, nextAt - now()));
+  };
+
+  const deliver = async (entry: OutboxEntry) => {
+    let delivered = false;
+    let failure: string | null = null;
+    try {
+      delivered = await options.send(entry.purchase);
+    } catch (error) {
+      failure = error instanceof Error ? error.message : String(error);
+    }
+    entry.attempts += 1;
+    if (delivered) {
+      entry.status = 'delivered';
+      entry.deliveredAt = now();
+      entry.lastError = null;
+      return;
+    }
+    entry.lastError = failure ?? 'Delivery was not confirmed';
+    entry.nextAttemptAt =
+      now() +
+      Math.min(maxBackoffMs, initialBackoffMs * 2 ** (entry.attempts - 1));
+  };
+
+  const runFlush = async () => {
+    const current = await load();
+    const due = queued(current).filter((entry) => entry.nextAttemptAt <= now());
+    for (const entry of due) {
+      await deliver(entry);
+      await save();
+    }
+    schedule(current);
+    return queued(current);
+  };
+
+  const flush = () => {
+    if (!flushing) {
+      flushing = runFlush().finally(() => {
+        flushing = null;
+      });
+    }
+    return flushing;
+  };
+
+  const add = async (purchase: Purchase) => {
+    const current = await load();
+    const transactionId = ledgerKeyOf(purchase);
+    if (current.has(transactionId)) {
+      return;
+    }
+    const at = now();
+    current.set(transactionId, {
+      transactionId,
+      purchase,
+      status: 'queued',
+      attempts: 0,
+      nextAttemptAt: at,
+      lastError: null,
+      createdAt: at,
+      deliveredAt: null,
+    });
+    // Persist before sending so a crash mid-request cannot lose it.
+    await save();
+    await flush();
+  };
+
+  return {
+    add,
+    flush,
+    getEntries: async () => [...(await load()).values()],
+    listen: () =>
+      purchaseUpdatedListener((purchase) => {
+        if (purchase.purchaseState === 'purchased') {
+          add(purchase).catch((error) => onError(error, purchase));
+        }
+      }),
+    dispose: () => {
+      disposed = true;
+      clearTimeout(timer);
+    },
+  };
+};
@@ -0,0 +1,52 @@
+/**
+ * Key-value storage adapter.
+ * The subset of the AsyncStorage API that persistent helpers rely on, so apps
+ * can pass `@react-native-async-storage/async-storage`, MMKV wrappers or
+ * SecureStore without this package depending on any of them.
+ */
+
+export interface KeyValueStorage {
+  getItem: (key: string) => Promise<string | null>;
+  setItem: (key: string, value: string) => Promise<void>;
+  removeItem: (key: string) => Promise<void>;
+}
+
+/**
+ * In-memory storage; the default for persistent helpers. Data does not
+ * survive an app restart, so pass a real adapter in production.
+ *
+ * @example
+ * ```typescript
+ * const storage = createMemoryStorage();
+ * await storage.setItem('key', 'value');
+ * ```
+ */
+export const createMemoryStorage = (): KeyValueStorage => {
+  const items = new Map<string, string>();
+  return {
+    getItem: async (key) => items.get(key) ?? null,
+    setItem: async (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: async (key) => {
+      items.delete(key);
+    },
+  };
+};
+
+/** Read a JSON value, treating missing or corrupt data as `fallback`. */
+export const readJson = async <T>(
+  storage: KeyValueStorage,
+  key: string,
+  fallback: T,
+): Promise<T> => {
+  const raw = await storage.getItem(key);
+  if (raw == null) {
+    return fallback;
+  }
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return fallback;
+  }
+};
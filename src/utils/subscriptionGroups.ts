@@ -0,0 +1,337 @@
+/**
+ * Subscription group and base plan hierarchy.
+ * Groups iOS subscriptions by `subscriptionGroupId` and Android subscriptions
+ * by base plan, ranks the plans, and classifies plan changes between them.
+ */
+
+// Internal modules
+import {ReplacementModeAndroid} from '../modules/android';
+
+// Types
+import type {
+  ActiveSubscription,
+  IapPlatform,
+  ProductSubscription,
+  ProductSubscriptionAndroid,
+  ProductSubscriptionIOS,
+  Purchase,
+} from '../types';
+
+export interface SubscriptionPlan {
+  /** `productId` on iOS, `productId:basePlanId` on Android. */
+  id: string;
+  productId: string;
+  /** Android base plan; null on iOS. */
+  basePlanId: string | null;
+  groupId: string;
+  /** Declared tier from `ranks`; higher is better. Null when not declared. */
+  rank: number | null;
+  /** Recurring billing period in ISO 8601, e.g. `P1M`; null when unknown. */
+  billingPeriod: string | null;
+  /** Recurring price per billing period. */
+  price: number;
+  platform: IapPlatform;
+  product: ProductSubscription;
+}
+
+export interface SubscriptionGroup {
+  id: string;
+  /**
+   * Sorted from the highest rank to the lowest, undeclared ranks last. Plans
+   * of equal rank are grouped by billing period, most expensive first.
+   */
+  plans: SubscriptionPlan[];
+}
+
+/** A plan the user is subscribed to, with the token Play needs to replace it. */
+export interface CurrentSubscriptionPlan extends SubscriptionPlan {
+  purchaseToken: string | null;
+}
+
+export type PlanChangeKind =
+  | 'upgrade'
+  | 'downgrade'
+  | 'crossgrade'
+  | 'same-plan';
+
+export interface PlanChange {
+  kind: PlanChangeKind;
+  from: SubscriptionPlan;
+  to: SubscriptionPlan;
+  /** Pass as `replacementModeAndroid`; null on iOS and for `same-plan`. */
+  replacementModeAndroid: ReplacementModeAndroid | null;
+  /** Pass as `purchaseTokenAndroid`; null on iOS. */
+  purchaseTokenAndroid: string | null;
+}
+
+export interface PlanChangeOptions {
+  /** Override the replacement mode used per kind of change on Android. */
+  replacementModesAndroid?: Partial<
+    Record<Exclude<PlanChangeKind, 'same-plan'>, ReplacementModeAndroid>
+  >;
+}
+
+export interface SubscriptionGroupsOptions {
+  /**
+   * Tier per `productId` or `productId:basePlanId` (the latter wins); higher is
+   * better. Price only orders plans of the same tier and billing period, so
+   * without ranks a monthly to yearly switch is a crossgrade.
+   */
+  ranks?: Record<string, number>;
+  /**
+   * Play has no subscription groups; any subscription can replace any other.
+   * Defaults to one group, `android`, for every Android plan.
+   */
+  groupIdAndroid?: (product: ProductSubscriptionAndroid) => string;
+}
+
+export interface SubscriptionGroups {
+  getGroups: () => SubscriptionGroup[];
+  getGroup: (groupId: string) => SubscriptionGroup | null;
+  /** Find a plan; Android falls back to the product's first base plan. */
+  getPlan: (
+    productId: string,
+    basePlanId?: string | null,
+  ) => SubscriptionPlan | null;
+  /** The plan behind an active subscription or purchase. */
+  planOf: (
+    subscription: ActiveSubscription | Purchase,
+  ) => CurrentSubscriptionPlan | null;
+}
+
+const ISO_UNITS: Record<string, string> = {
+  day: 'D',
+  week: 'W',
+  month: 'M',
+  year: 'Y',
+};
+
+const billingPeriodIOS = (product: ProductSubscriptionIOS) => {
+  const period = product.subscriptionInfoIOS?.subscriptionPeriod;
+  const unit = period && ISO_UNITS[period.unit];
+  return unit ? `P${period.value}${unit}` : null;
+};
+
+/** Recurring price and period of a base plan, from its last pricing phase. */
+const recurringPhaseAndroid = (
+  product: ProductSubscriptionAndroid,
+  basePlanId: string,
+) => {
+  const details =
+    product.subscriptionOfferDetailsAndroid.find(
+      (offer) => offer.basePlanId === basePlanId && !offer.offerId,
+    ) ??
+    product.subscriptionOfferDetailsAndroid.find(
+      (offer) => offer.basePlanId === basePlanId,
+    );
+  const phases = details?.pricingPhases.pricingPhaseList ?? [];
+  const recurring = phases[phases.length - 1];
+  return {
+    billingPeriod: recurring?.billingPeriod ?? null,
+    price: recurring ? Number(recurring.priceAmountMicros) / 1_000_000 : 0,
+  };
+};
+
+const compareByRank = (a: SubscriptionPlan, b: SubscriptionPlan) => {
+  if (a.rank !== b.rank) {
+    if (a.rank === null) {
+      return 1;
+    }
+    if (b.rank === null) {
+      return -1;
+    }
+    return b.rank - a.rank;
+  }
+  if (a.billingPeriod !== b.billingPeriod) {
+    return (a.billingPeriod ?? '').localeCompare(b.billingPeriod ?? '');
+  }
+  return b.price - a.price;
+};
+
+/**
+ * Build the group hierarchy from fetched subscriptions.
+ *
+ * @example
+ * ```typescript
+ * const subscriptions = await fetchProducts({skus, type: 'subs'});
+ * const groups = createSubscriptionGroups(subscriptions, {
+ *   ranks: {basic: 1, premium: 2, 'premium:yearly': 2},
+ * });
+ * const current = groups.planOf(activeSubscription);
+ * const change = classifyPlanChange(current, groups.getPlan('premium')!);
+ * ```
+ */
+export const createSubscriptionGroups = (
+  subscriptions: ProductSubscription[],
+  options: SubscriptionGroupsOptions = {},
+): SubscriptionGroups => {
+  const ranks = options.ranks ?? {};
+  const groupIdAndroid = options.groupIdAndroid ?? (() => 'android');
+  const plans: SubscriptionPlan[] = [];
+
+  subscriptions.forEach((product) => {
+    if (product.platform === 'ios') {
+      const ios = product as ProductSubscriptionIOS;
+      plans.push({
+        id: ios.id,
+        productId: ios.id,
+        basePlanId: null,
+        groupId: ios.subscriptionInfoIOS?.subscriptionGroupId ?? ios.id,
+        rank: ranks[ios.id] ?? null,
+        billingPeriod: billingPeriodIOS(ios),
+        price: ios.price ?? 0,
+        platform: 'ios',
+        product,
+      });
+      return;
+    }
+    const android = product as ProductSubscriptionAndroid;
+    const basePlanIds = [
+      ...new Set(
+        android.subscriptionOfferDetailsAndroid.map(
+          (offer) => offer.basePlanId,
+        ),
+      ),
+    ];
+    basePlanIds.forEach((basePlanId) => {
+      const id = `${android.id}:${basePlanId}`;
+      plans.push({
+        id,
+        productId: android.id,
+        basePlanId,
+        groupId: groupIdAndroid(android),
+        rank: ranks[id] ?? ranks[android.id] ?? null,
+        ...recurringPhaseAndroid(android, basePlanId),
+        platform: 'android',
+        product,
+      });
+    });
+  });
+
+  const groups = new Map<string, SubscriptionGroup>();
+  plans.forEach((plan) => {
+    const group = groups.get(plan.groupId) ?? {id: plan.groupId, plans: []};
+    group.plans.push(plan);
+    groups.set(plan.groupId, group);
+  });
+  groups.forEach((group) => group.plans.sort(compareByRank));
+
+  const getPlan = (productId: string, basePlanId?: string | null) =>
+    plans.find(
+      (plan) =>
+        plan.productId === productId &&
+        (basePlanId == null || plan.basePlanId === basePlanId),
+    ) ??
+    plans.find((plan) => plan.productId === productId) ??
+    null;
+
+  return {
+    getGroups: () => [...groups.values()],
+    getGroup: (groupId) => groups.get(groupId) ?? null,
+    getPlan,
+    planOf: (subscription) => {
+      const fields = subscription as Partial<ActiveSubscription & Purchase>;
+      const plan = getPlan(
+        subscription.productId,
+        fields.basePlanIdAndroid ??
+          (fields.currentPlanId !== subscription.productId
+            ? fields.currentPlanId
+            : null),
+      );
+      return plan
+        ? {
+            ...plan,
+            purchaseToken:
+              fields.purchaseTokenAndroid ?? fields.purchaseToken ?? null,
+          }
+        : null;
+    },
+  };
+};
+
+const DEFAULT_REPLACEMENT_MODES: Required<
+  NonNullable<PlanChangeOptions['replacementModesAndroid']>
+> = {
+  // Charge the price difference now and keep the renewal date.
+  upgrade: ReplacementModeAndroid.ChargeProratedPrice,
+  // Keep the current tier until the next renewal.
+  downgrade: ReplacementModeAndroid.Deferred,
+  crossgrade: ReplacementModeAndroid.WithTimeProration,
+};
+
+/**
+ * Positive when `target` is a higher tier than `current`, negative when lower
+ * and 0 when the tiers cannot be told apart. Declared ranks decide first;
+ * price only breaks ties between plans with the same billing period.
+ */
+const compareTiers = (current: SubscriptionPlan, target: SubscriptionPlan) => {
+  if (current.rank !== target.rank) {
+    return current.rank === null || target.rank === null
+      ? 0
+      : target.rank - current.rank;
+  }
+  return current.billingPeriod !== null &&
+    current.billingPeriod === target.billingPeriod
+    ? target.price - current.price
+    : 0;
+};
+
+/**
+ * Classify a change from the current plan to a target plan in the same group.
+ * Moving between billing periods of the same tier, or to a plan without a
+ * declared rank, is a crossgrade. On Android the result carries the replacement mode and purchase token to
+ * pass to `requestPurchase`.
+ *
+ * @example
+ * ```typescript
+ * const change = classifyPlanChange(current, target);
+ * if (change.kind !== 'same-plan') {
+ *   await requestPurchase({
+ *     request: {
+ *       ios: {sku: target.productId},
+ *       android: {
+ *         skus: [target.productId],
+ *         subscriptionOffers: [{sku: target.productId, offerToken}],
+ *         purchaseTokenAndroid: change.purchaseTokenAndroid,
+ *         replacementModeAndroid: change.replacementModeAndroid,
+ *       },
+ *     },
+ *     type: 'subs',
+ *   });
+ * }
+ * ```
+ */
+export const classifyPlanChange = (
+  current: SubscriptionPlan | CurrentSubscriptionPlan,
+  target: SubscriptionPlan,
+  options: PlanChangeOptions = {},
+): PlanChange => {
+  if (current.groupId !== target.groupId) {
+    throw new Error(
+      `classifyPlanChange: ${current.id} and ${target.id} are in different subscription groups`,
+    );
+  }
+  const tier = compareTiers(current, target);
+  const kind: PlanChangeKind =
+    current.id === target.id
+      ? 'same-plan'
+      : tier > 0
+      ? 'upgrade'
+      : tier < 0
+      ? 'downgrade'
+      : 'crossgrade';
+  const isAndroid = target.platform === 'android';
+  return {
+    kind,
+    from: current,
+    to: target,
+    replacementModeAndroid:
+      isAndroid && kind !== 'same-plan'
+        ? options.replacementModesAndroid?.[kind] ??
+          DEFAULT_REPLACEMENT_MODES[kind]
+        : null,
+    purchaseTokenAndroid: isAndroid
+      ? (current as Partial<CurrentSubscriptionPlan>).purchaseToken ?? null
+      : null,
+  };
+};
@@ -0,0 +1,184 @@
+/**
+ * Normalized subscription status.
+ * Folds StoreKit renewal info and status, Play purchase data and optional
+ * server-side details into one set of states shared by both platforms.
+ */
+
+// Types
+import type {
+  ActiveSubscription,
+  Purchase,
+  PurchaseAndroid,
+  PurchaseIOS,
+  ReceiptValidationResultAndroid,
+  RenewalInfoIOS,
+  SubscriptionStatusIOS,
+} from '../types';
+
+/**
+ * - `active`: paid and renewing
+ * - `in_trial`: inside a free trial
+ * - `in_grace_period`: renewal failed; the store still grants access
+ * - `in_billing_retry`: renewal failed; the store is retrying without access
+ * - `on_hold`: Play account hold after billing retry failed to recover
+ * - `paused`: the user paused the subscription (Play)
+ * - `cancelled_but_active`: auto-renew is off; access until the period ends
+ * - `expired`: the period ended, or the purchase never completed
+ * - `revoked`: refunded or revoked by the store
+ */
+export type SubscriptionState =
+  | 'active'
+  | 'in_trial'
+  | 'in_grace_period'
+  | 'in_billing_retry'
+  | 'on_hold'
+  | 'paused'
+  | 'cancelled_but_active'
+  | 'expired'
+  | 'revoked';
+
+export interface SubscriptionStatus {
+  state: SubscriptionState;
+  productId: string;
+  /** Whether the user should currently get the subscription's features. */
+  hasAccess: boolean;
+  /** End of access in ms since epoch, or null when the store does not report it. */
+  expiresAt: number | null;
+  willAutoRenew: boolean;
+}
+
+export interface SubscriptionStatusOptions {
+  /** Defaults to `Date.now()`. */
+  now?: number;
+  /** Entry returned by `subscriptionStatusIOS` for the same product. */
+  statusIOS?: SubscriptionStatusIOS | null;
+  /** Result of `validateReceipt` on Android; adds trial, grace and renewal dates. */
+  receiptAndroid?: ReceiptValidationResultAndroid | null;
+  /**
+   * `subscriptionState` from the Play Developer API (`purchases.subscriptionsv2`),
+   * e.g. `SUBSCRIPTION_STATE_ON_HOLD`. Android only reports hold and pause here.
+   */
+  subscriptionStateAndroid?: string | null;
+}
+
+const ACCESS_STATES: ReadonlySet<SubscriptionState> = new Set([
+  'active',
+  'in_trial',
+  'in_grace_period',
+  'cancelled_but_active',
+]);
+
+// StoreKit's `RenewalState` values. `subscribed` is left to the checks below,
+// which tell trials and cancelled subscriptions apart.
+const IOS_STATES: Record<string, SubscriptionState> = {
+  expired: 'expired',
+  revoked: 'revoked',
+  inGracePeriod: 'in_grace_period',
+  inBillingRetryPeriod: 'in_billing_retry',
+};
+
+const ANDROID_STATES: Record<string, SubscriptionState> = {
+  SUBSCRIPTION_STATE_CANCELED: 'cancelled_but_active',
+  SUBSCRIPTION_STATE_IN_GRACE_PERIOD: 'in_grace_period',
+  SUBSCRIPTION_STATE_ON_HOLD: 'on_hold',
+  SUBSCRIPTION_STATE_PAUSED: 'paused',
+  SUBSCRIPTION_STATE_EXPIRED: 'expired',
+};
+
+/** Whether a state still grants the subscription's features. */
+export const hasSubscriptionAccess = (state: SubscriptionState): boolean =>
+  ACCESS_STATES.has(state);
+
+const isFreeTrialOffer = (purchase: Partial<PurchaseIOS>) =>
+  purchase.offerIOS?.paymentMode.replace(/[^a-z]/gi, '').toLowerCase() ===
+  'freetrial';
+
+/**
+ * Compute the normalized status of a subscription from an `ActiveSubscription`
+ * or a `Purchase`. Pass the optional platform details when you have them for
+ * a more precise state; without them Android can only tell `active`,
+ * `cancelled_but_active` and `expired` apart.
+ *
+ * @example
+ * ```typescript
+ * const [subscription] = await getActiveSubscriptions(['premium']);
+ * const [statusIOS] = await subscriptionStatusIOS('premium');
+ * const {state, hasAccess} = getSubscriptionStatus(subscription, {statusIOS});
+ * // state: 'in_grace_period', hasAccess: true
+ * ```
+ */
+export const getSubscriptionStatus = (
+  subscription: ActiveSubscription | Purchase,
+  options: SubscriptionStatusOptions = {},
+): SubscriptionStatus => {
+  const now = options.now ?? Date.now();
+  const {statusIOS, receiptAndroid, subscriptionStateAndroid} = options;
+  const fields = subscription as Partial<
+    ActiveSubscription & PurchaseIOS & PurchaseAndroid
+  >;
+  const renewalInfo: RenewalInfoIOS | null =
+    statusIOS?.renewalInfo ?? fields.renewalInfoIOS ?? null;
+  const willAutoRenew =
+    renewalInfo?.willAutoRenew ??
+    fields.autoRenewingAndroid ??
+    receiptAndroid?.autoRenewing ??
+    fields.isAutoRenewing ??
+    true;
+  const expiration =
+    fields.expirationDateIOS ?? (receiptAndroid?.renewalDate || null);
+  const grace =
+    renewalInfo?.gracePeriodExpirationDate ??
+    (receiptAndroid?.gracePeriodEndDate || null);
+  const isExpired = expiration != null && expiration <= now;
+  // StoreKit only sets the grace date during a grace period; Play reports it
+  // up front, so it only counts once the period has ended.
+  const inGrace =
+    grace != null &&
+    grace > now &&
+    (renewalInfo?.gracePeriodExpirationDate != null || isExpired);
+
+  const resolve = (state: SubscriptionState): SubscriptionStatus => ({
+    state,
+    productId: subscription.productId,
+    hasAccess: hasSubscriptionAccess(state),
+    expiresAt:
+      state === 'in_grace_period' && grace != null ? grace : expiration,
+    willAutoRenew: willAutoRenew && state !== 'cancelled_but_active',
+  });
+
+  if (fields.revocationDateIOS != null) {
+    return resolve('revoked');
+  }
+  const reported =
+    (subscriptionStateAndroid && ANDROID_STATES[subscriptionStateAndroid]) ||
+    (statusIOS && IOS_STATES[statusIOS.state]);
+  if (reported) {
+    return resolve(reported);
+  }
+
+  if (inGrace) {
+    return resolve('in_grace_period');
+  }
+  if (renewalInfo?.isInBillingRetry) {
+    return resolve('in_billing_retry');
+  }
+  if (
+    isExpired ||
+    fields.isActive === false ||
+    (fields.purchaseState !== undefined &&
+      fields.purchaseState !== 'purchased' &&
+      fields.purchaseState !== 'restored')
+  ) {
+    return resolve('expired');
+  }
+  if (!willAutoRenew) {
+    return resolve('cancelled_but_active');
+  }
+  if (
+    isFreeTrialOffer(fields) ||
+    (receiptAndroid != null && receiptAndroid.freeTrialEndDate > now)
+  ) {
+    return resolve('in_trial');
+  }
+  return resolve('active');
+};
@@ -0,0 +1,143 @@
+/**
+ * Startup recovery of unfinished transactions.
+ * StoreKit replays unfinished transactions until they are finished, and Play
+ * refunds purchases that are not acknowledged within three days. Collects
+ * both and hands them to the app's verify-and-finish routine.
+ */
+
+// External dependencies
+import {Platform} from 'react-native';
+
+// Internal modules
+import {getAvailablePurchases} from '../index';
+import {getPendingTransactionsIOS} from '../modules/ios';
+import {getProductKindRegistry, finishPurchaseOrThrow} from './productKinds';
+import {ledgerKeyOf} from './purchaseLedger';
+
+// Types
+import type {Purchase, PurchaseAndroid} from '../types';
+
+/** Play refunds purchases that are not acknowledged within three days. */
+export const ACKNOWLEDGE_WINDOW_MS_ANDROID = 3 * 24 * 60 * 60 * 1000;
+
+export interface RecoveredTransaction {
+  purchase: Purchase;
+  /** `failed` when the handler threw; the transaction stays unfinished. */
+  status: 'recovered' | 'failed';
+  error: unknown;
+  /** When Play refunds the purchase if still unacknowledged; null on iOS. */
+  acknowledgeDeadlineAndroid: number | null;
+  /** Time left until that deadline in ms; negative once it has passed. */
+  timeLeftMsAndroid: number | null;
+}
+
+export interface RecoverUnfinishedTransactionsOptions {
+  /**
+   * Verify, grant and finish one purchase. Defaults to `finishPurchase`,
+   * which finishes by product kind without verifying. Purchases it leaves
+   * unfinished, such as those of unknown kind, are reported as `failed`.
+   */
+  handler?: (purchase: Purchase) => Promise<unknown> | unknown;
+  /** Defaults to `Date.now`. */
+  now?: () => number;
+}
+
+const collectUnfinished = async (): Promise<Purchase[]> => {
+  if (Platform.OS === 'ios') {
+    // Replaying owned purchases through the listener would deliver them twice.
+    const [pending, available] = await Promise.all([
+      getPendingTransactionsIOS(),
+      getAvailablePurchases({alsoPublishToEventListenerIOS: false}),
+    ]);
+    return [
+      ...pending,
+      ...available.filter((purchase) => purchase.purchaseState === 'purchased'),
+    ];
+  }
+  const registry = getProductKindRegistry();
+  const purchases = await getAvailablePurchases();
+  // Consumables still listed by Play were never consumed, acknowledged or not.
+  return purchases.filter(
+    (purchase) =>
+      purchase.purchaseState === 'purchased' &&
+      ((purchase as PurchaseAndroid).isAcknowledgedAndroid === false ||
+        registry.kindOf(purchase.productId) === 'consumable'),
+  );
+};
+
+/**
+ * Find transactions left unfinished by earlier sessions and run each through
+ * `handler`, most urgent Android deadline first. Call it once connected.
+ * On iOS, pending StoreKit transactions are merged with the purchases from
+ * `getAvailablePurchases`, so `handler` must tolerate owned purchases.
+ *
+ * @example
+ * ```typescript
+ * await initConnection();
+ * const results = await recoverUnfinishedTransactions({
+ *   handler: async (purchase) => {
+ *     await api.verifyAndGrant(purchase);
+ *     await finishPurchase(purchase);
+ *   },
+ * });
+ * results
+ *   .filter((result) => result.status === 'failed')
+ *   .forEach((result) => report(result.error, result.timeLeftMsAndroid));
+ * ```
+ */
+export const recoverUnfinishedTransactions = async (
+  options: RecoverUnfinishedTransactionsOptions = {},
+): Promise<RecoveredTransaction[]> => {
+  const now = options.now ?? Date.now;
+  const handler = options.handler ?? finishPurchaseOrThrow;
+
+  const unique = new Map<string, Purchase>();
+  (await collectUnfinished()).forEach((purchase) => {
+    unique.set(ledgerKeyOf(purchase), purchase);
+  });
+
+  const pending = [...unique.values()].map((purchase) => {
+    const deadline =
+      purchase.platform === 'android'
+        ? purchase.transactionDate + ACKNOWLEDGE_WINDOW_MS_ANDROID
+        : null;
+    return {purchase, deadline};
+  });
+  // Android deadlines first, soonest first; iOS keeps its order.
+  pending.sort((a, b) => {
+    if (a.deadline === b.deadline) {
+      return 0;
+    }
+    if (a.deadline === null) {
+      return 1;
+    }
+    if (b.deadline === null) {
+      return -1;
+    }
+    return a.deadline - b.deadline;
+  });
+
+  const results: RecoveredTransaction[] = [];
+  for (const {purchase, deadline} of pending) {
+    const timeLeft = deadline === null ? null : deadline - now();
+    try {
+      await handler(purchase);
+      results.push({
+        purchase,
+        status: 'recovered',
+        error: null,
+        acknowledgeDeadlineAndroid: deadline,
+        timeLeftMsAndroid: timeLeft,
+      });
+    } catch (error) {
+      results.push({
+        purchase,
+        status: 'failed',
+        error,
+        acknowledgeDeadlineAndroid: deadline,
+        timeLeftMsAndroid: timeLeft,
+      });
+    }
+  }
+  return results;
+};
@@ -0,0 +1,142 @@
+/**
+ * Purchase verification pipeline.
+ * Enforces verify → grant → finish for every purchase, and keeps purchases
+ * whose verification failed unfinished so they can be re-attempted later.
+ */
+
+// Internal modules
+import {createPurchaseError} from './errorMapping';
+import {finishPurchaseOrThrow} from './productKinds';
+import {ledgerKeyOf} from './purchaseLedger';
+import {recoverUnfinishedTransactions} from './transactionRecovery';
+
+// Types
+import {ErrorCode} from '../types';
+import type {Purchase} from '../types';
+
+/**
+ * - `verified`: verified, granted and finished
+ * - `retry`: verification failed or a step threw; the purchase stays unfinished
+ * - `pending`: not completed yet; nothing was done
+ */
+export type VerificationStatus = 'verified' | 'retry' | 'pending';
+
+export interface VerificationResult {
+  status: VerificationStatus;
+  purchase: Purchase;
+  /** Why the purchase is in the retry state; null otherwise. */
+  error: unknown;
+}
+
+export type VerifyPurchase = (purchase: Purchase) => Promise<boolean> | boolean;
+
+export interface VerificationPipelineOptions {
+  /** Ask your backend whether the purchase is genuine. */
+  verifyPurchase: VerifyPurchase;
+  /** Deliver the content; runs once per purchase, after verification. */
+  grant?: (purchase: Purchase) => Promise<void> | void;
+  /**
+   * Defaults to `finishPurchase`, which finishes by product kind. Purchases
+   * it leaves unfinished, such as those of unknown kind, are retried.
+   */
+  finish?: (purchase: Purchase) => Promise<unknown>;
+}
+
+export interface VerificationPipeline {
+  process: (purchase: Purchase) => Promise<VerificationResult>;
+  /**
+   * Re-attempt purchases in the retry state together with transactions left
+   * unfinished by earlier sessions. Call it after connecting.
+   */
+  retry: () => Promise<VerificationResult[]>;
+  getRetrying: () => Purchase[];
+}
+
+const isPending = (purchase: Purchase) =>
+  purchase.purchaseState === 'pending' || purchase.purchaseState === 'deferred';
+
+/**
+ * Create a verification pipeline.
+ *
+ * @example
+ * ```typescript
+ * const pipeline = createVerificationPipeline({
+ *   verifyPurchase: (purchase) => api.verify(purchase),
+ *   grant: (purchase) => unlock(purchase.productId),
+ * });
+ *
+ * purchaseUpdatedListener((purchase) => pipeline.process(purchase));
+ * await pipeline.retry();
+ * ```
+ */
+export const createVerificationPipeline = (
+  options: VerificationPipelineOptions,
+): VerificationPipeline => {
+  const finish = options.finish ?? finishPurchaseOrThrow;
+  const retrying = new Map<string, Purchase>();
+  // Granted but not finished yet; a retry only has to finish these.
+  const granted = new Set<string>();
+  const inFlight = new Map<string, Promise<VerificationResult>>();
+
+  const run = async (purchase: Purchase): Promise<VerificationResult> => {
+    const key = ledgerKeyOf(purchase);
+    if (isPending(purchase)) {
+      return {status: 'pending', purchase, error: null};
+    }
+    try {
+      if (!granted.has(key)) {
+        const verified = await options.verifyPurchase(purchase);
+        if (!verified) {
+          throw createPurchaseError({
+            message: `Verification failed for ${purchase.productId}`,
+            code: ErrorCode.TransactionValidationFailed,
+            productId: purchase.productId,
+            platform: purchase.platform,
+          });
+        }
+        await options.grant?.(purchase);
+        granted.add(key);
+      }
+      await finish(purchase);
+      granted.delete(key);
+      retrying.delete(key);
+      return {status: 'verified', purchase, error: null};
+    } catch (error) {
+      retrying.set(key, purchase);
+      return {status: 'retry', purchase, error};
+    }
+  };
+
+  const process = (purchase: Purchase) => {
+    const key = ledgerKeyOf(purchase);
+    const existing = inFlight.get(key);
+    if (existing) {
+      return existing;
+    }
+    const result = run(purchase).finally(() => inFlight.delete(key));
+    inFlight.set(key, result);
+    return result;
+  };
+
+  return {
+    process,
+    retry: async () => {
+      const results: VerificationResult[] = [];
+      const recovered = await recoverUnfinishedTransactions({
+        handler: async (purchase) => {
+          results.push(await process(purchase));
+        },
+      });
+      const seen = new Set(
+        recovered.map((result) => ledgerKeyOf(result.purchase)),
+      );
+      for (const [key, purchase] of [...retrying]) {
+        if (!seen.has(key)) {
+          results.push(await process(purchase));
+        }
+      }
+      return results;
+    },
+    getRetrying: () => [...retrying.values()],
+  };
+};